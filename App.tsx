@@ -9,6 +9,7 @@ import { DataSources } from './components/DataSources';
 import { PredictionPipeline, PipelineStageDefinition } from './components/PredictionPipeline';
 import { MarketTrends } from './components/MarketTrends';
 import { SimulatedWallet } from './components/SimulatedWallet';
+import { PerformanceAnalytics } from './components/PerformanceAnalytics';
 import { ActiveLearning } from './components/ActiveLearning';
 import { Experiments } from './components/Experiments';
 import { JaxSignals } from './components/JaxSignals';
@@ -18,6 +19,7 @@ import { MacroView } from './components/MacroView';
 import { MenuIcon, CloseIcon } from './components/Icons';
 import { tradeSimulatorService, Trade } from './services/tradeSimulatorService';
 import { signalsService } from './services/signalsService';
+import { pipelineExecutionService } from './services/pipelineExecutionService';
 import { fetchLivePricing, CryptoPrice, GlobalLiquidity, NewsSentiment, getGlobalLiquidity, getNewsSentiment } from './services/cryptoService';
 import { PipelineFooter } from './components/PipelineFooter';
 import { Dashboard } from './components/Dashboard';
@@ -28,7 +30,7 @@ import { CoinDetailModal } from './components/CoinDetailModal';
 import { googleSheetService } from './services/googleSheetService';
 import { CoreSettings } from './components/CoreSettings'; // New Admin Panel
 
-export type ActiveView = 'chat' | 'specs' | 'pricing' | 'data' | 'pipeline' | 'trends' | 'wallet' | 'learning' | 'experiments' | 'signals' | 'signalLab' | 'dashboard' | 'macro' | 'coreSettings' | 'rewind';
+export type ActiveView = 'chat' | 'specs' | 'pricing' | 'data' | 'pipeline' | 'trends' | 'wallet' | 'learning' | 'experiments' | 'signals' | 'signalLab' | 'dashboard' | 'macro' | 'coreSettings' | 'rewind' | 'performance';
 
 export interface PipelineCryptoPrice extends CryptoPrice {
   confidence?: number;
@@ -38,6 +40,8 @@ export interface PipelineCryptoPrice extends CryptoPrice {
 type PipelineState = { [key: string]: PipelineCryptoPrice[] };
 type ExitedState = { [key: string]: { coin: PipelineCryptoPrice; reason: string } | null };
 
+const SIGNAL_OUTCOME_REFRESH_MS = 15 * 60 * 1000;
+
 
 const PIPELINE_STAGES: PipelineStageDefinition[] = [
   { 
@@ -156,7 +160,8 @@ const App: React.FC = () => {
 
             if (prices.length > 0) {
                 tradeSimulatorService.updateOpenTrades(prices);
-                signalsService.checkForSignalTriggers(prices, newsSent);
+                signalsService.checkForSignalTriggers(prices, newsSent, globalLiq)
+                    .catch(error => console.error("Failed to check signal triggers:", error));
             }
             
             if (isPipelineLoading && prices.length > 0) setIsPipelineLoading(false);
@@ -201,13 +206,8 @@ const App: React.FC = () => {
             });
             newPipeline.stage6 = Array.from(holdingMap.values()).map(trade => ({...trade.coin, pnl: trade.pnl, entryPrice: trade.entryPrice, id: trade.id }));
 
-            // Auto-execute trades based on new signals
-            const executionThreshold = tradeSimulatorService.getSettings().aiConfidence;
-            for (const coin of newPipeline.stage4) {
-                 if ((coin.confidence ?? 0) > executionThreshold) {
-                    tradeSimulatorService.executeTrade(coin, 'buy');
-                 }
-            }
+            // Turn new BUY/SELL rows into order intents for every portfolio, each against its own threshold and policy
+            pipelineExecutionService.processPipeline(pipelineSignals, priceMap);
 
             setPipeline(newPipeline);
             // Note: Exited coins logic is complex and may not map well to the new signal-based pipeline.
@@ -225,6 +225,14 @@ const App: React.FC = () => {
 
   }, []);
 
+  // Forward returns come due while the app stays open, so signal outcomes are refreshed on a timer too.
+  useEffect(() => {
+    const timer = setInterval(() => {
+      signalsService.updateEventOutcomes().catch(error => console.error("Failed to update signal outcomes:", error));
+    }, SIGNAL_OUTCOME_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, []);
+
 
   const toggleNav = () => {
     setIsNavOpen(!isNavOpen);
@@ -252,6 +260,7 @@ const App: React.FC = () => {
           {activeView === 'pipeline' && <PredictionPipeline pipeline={pipeline} exitedCoins={exitedCoins} allCoins={allCoins} isLoading={isPipelineLoading} stages={RENDER_PIPELINE_STAGES} onShowCoinDetail={(coin) => setDetailCoin(coin)} />}
           {activeView === 'trends' && <MarketTrends allCoins={allCoins} newsSentiment={newsSentiment} />}
           {activeView === 'wallet' && <SimulatedWallet />}
+          {activeView === 'performance' && <PerformanceAnalytics />}
           {activeView === 'learning' && <ActiveLearning allCoins={allCoins} />}
           {activeView === 'experiments' && <Experiments allCoins={allCoins} />}
           {activeView === 'signals' && <JaxSignals allCoins={allCoins} />}
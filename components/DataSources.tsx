@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { TradingViewIcon, LunarCrushIcon, FlipsideIcon, DefiLlamaIcon, DexToolsIcon, CoinglassIcon, DexScreenerIcon, CoinbaseIcon } from './Icons';
 import { LoadingSpinner } from './LoadingSpinner';
+import { brokerService, BrokerConnection } from '../services/brokerService';
+import { DEFAULT_MOCK_EXCHANGE_URL } from '../services/coinbaseAdvancedAdapter';
 
 // --- Status Indicator Component ---
 type Status = 'connected' | 'disconnected' | 'connecting' | 'error' | 'pre-configured';
@@ -53,13 +55,21 @@ export const DataSources: React.FC = () => {
   const [tvConnectionTimestamp, setTvConnectionTimestamp] = useState<Date | null>(null);
   const [tvError, setTvError] = useState('');
 
-  // State for Coinbase connection
+  // State for the Coinbase connection; the connection itself lives in brokerService
+  const [cbBaseUrl, setCbBaseUrl] = useState(DEFAULT_MOCK_EXCHANGE_URL);
   const [cbApiKey, setCbApiKey] = useState('');
   const [cbApiSecret, setCbApiSecret] = useState('');
-  const [cbConnectionStatus, setCbConnectionStatus] = useState<'idle' | 'connecting' | 'connected' | 'error'>('idle');
-  const [cbConnectionTimestamp, setCbConnectionTimestamp] = useState<Date | null>(null);
+  const [cbConnection, setCbConnection] = useState<BrokerConnection>(brokerService.getConnection());
   const [cbError, setCbError] = useState('');
 
+  useEffect(() => {
+    const updateConnection = () => setCbConnection(brokerService.getConnection());
+    brokerService.subscribe(updateConnection);
+    return () => brokerService.unsubscribe(updateConnection);
+  }, []);
+
+  const cbConnectionStatus = cbConnection.status === 'disconnected' && cbError ? 'error' : cbConnection.status;
+
   const getTvStatus = (): Status => {
     switch(tvConnectionStatus) {
         case 'connected': return 'connected';
@@ -75,7 +85,6 @@ export const DataSources: React.FC = () => {
         case 'connected': return 'connected';
         case 'connecting': return 'connecting';
         case 'error': return 'error';
-        case 'idle': return 'disconnected';
         default: return 'disconnected';
     }
   };
@@ -102,26 +111,20 @@ export const DataSources: React.FC = () => {
       setTvConnectionTimestamp(null);
   };
 
-  const handleCoinbaseConnect = () => {
+  const handleCoinbaseConnect = async () => {
       setCbError('');
-      if (!cbApiKey || !cbApiSecret) {
-          setCbError('API Key and Secret Key are required.');
-          setCbConnectionStatus('error');
+      if (!cbBaseUrl || !cbApiKey || !cbApiSecret) {
+          setCbError('Exchange URL, API Key and Secret Key are required.');
           return;
       }
-      setCbConnectionStatus('connecting');
-      // Simulate API call
-      setTimeout(() => {
-          setCbConnectionStatus('connected');
-          setCbConnectionTimestamp(new Date());
-      }, 1500);
+      // Signs a balances request; the connection only counts once the exchange accepts it.
+      await brokerService.connectExchange({ baseUrl: cbBaseUrl, apiKey: cbApiKey, apiSecret: cbApiSecret });
   };
 
   const handleCoinbaseDisconnect = () => {
       setCbApiKey('');
       setCbApiSecret('');
-      setCbConnectionStatus('idle');
-      setCbConnectionTimestamp(null);
+      brokerService.disconnect();
   };
 
 
@@ -213,7 +216,7 @@ export const DataSources: React.FC = () => {
                     <h3 className="text-lg font-bold text-gray-900">Coinbase</h3>
                     <StatusIndicator status={getCbStatus()} />
                  </div>
-                <p className="text-sm text-gray-500">Connect your account for live trading data.</p>
+                <p className="text-sm text-gray-500">Connect an Advanced Trade API for order execution. Until then, orders go to the paper wallet.</p>
               </div>
             </div>
              {cbConnectionStatus === 'connected' ? (
@@ -235,6 +238,20 @@ export const DataSources: React.FC = () => {
           </div>
           {cbConnectionStatus !== 'connected' ? (
               <div className="mt-6 pt-4 border-t border-gray-200 space-y-4">
+                  <div>
+                      <label htmlFor="cb-base-url" className="block text-sm font-medium text-gray-700 mb-1">Exchange URL</label>
+                      <input
+                        type="url"
+                        id="cb-base-url"
+                        value={cbBaseUrl}
+                        onChange={(e) => setCbBaseUrl(e.target.value)}
+                        className="w-full bg-gray-100 border border-gray-300 rounded-lg p-3 text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500 transition-shadow placeholder:text-gray-500"
+                      />
+                      <p className="text-xs text-gray-500 mt-1">
+                        Run <span className="font-mono">npm run mock-exchange</span> for a local exchange (key <span className="font-mono">mock-key</span>, secret <span className="font-mono">mock-secret</span>).
+                        Requests are signed with HMAC keys; production Coinbase keys need JWT auth, which isn't supported yet.
+                      </p>
+                  </div>
                   <div>
                       <label htmlFor="cb-api-key" className="block text-sm font-medium text-gray-700 mb-1">API Key</label>
                       <input 
@@ -257,19 +274,24 @@ export const DataSources: React.FC = () => {
                         className="w-full bg-gray-100 border border-gray-300 rounded-lg p-3 text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500 transition-shadow placeholder:text-gray-500"
                       />
                   </div>
-                  {cbConnectionStatus === 'error' && <p className="text-sm text-red-500">{cbError}</p>}
+                  {cbConnectionStatus === 'error' && <p className="text-sm text-red-500">{cbError || cbConnection.error}</p>}
               </div>
           ) : (
              <div className="mt-6 pt-4 border-t border-gray-200 space-y-2">
-                 <p className="text-green-600 font-semibold">Successfully connected to Coinbase.</p>
-                 {cbConnectionTimestamp && (
+                 <p className="text-green-600 font-semibold">Successfully connected to {cbConnection.baseUrl}.</p>
+                 {cbConnection.connectedAt && (
                     <p className="text-sm text-gray-500">
-                        Connected on: {cbConnectionTimestamp.toLocaleString(undefined, {
+                        Connected on: {new Date(cbConnection.connectedAt).toLocaleString(undefined, {
                             dateStyle: 'medium',
                             timeStyle: 'short',
                         })}
                     </p>
                  )}
+                 {cbConnection.balances.length > 0 && (
+                    <p className="text-sm text-gray-500">
+                        Balances: {cbConnection.balances.map(b => `${b.available.toLocaleString(undefined, { maximumFractionDigits: 8 })} ${b.currency}${b.hold > 0 ? ` (+${b.hold.toLocaleString(undefined, { maximumFractionDigits: 8 })} on hold)` : ''}`).join(' · ')}
+                    </p>
+                 )}
              </div>
           )}
         </div>
@@ -0,0 +1,90 @@
+import React, { useRef, useEffect } from 'react';
+import type { EquityPoint } from '../services/tradeSimulatorService';
+
+declare global {
+  interface Window { Chart: any; }
+}
+
+export interface EquitySeries {
+    label: string;
+    points: EquityPoint[];
+    color: string; // Any CSS color, e.g. 'rgba(168, 85, 247, 1)'
+}
+
+interface EquityCurveChartProps {
+    series: EquitySeries[];
+    heightClass?: string;
+}
+
+const formatAxisCurrency = (value: number) => value.toLocaleString('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 });
+
+export const EquityCurveChart: React.FC<EquityCurveChartProps> = ({ series, heightClass = 'h-64' }) => {
+    const chartCanvasRef = useRef<HTMLCanvasElement>(null);
+    const chartInstanceRef = useRef<any>(null);
+
+    useEffect(() => {
+        if (chartInstanceRef.current) {
+            chartInstanceRef.current.destroy();
+        }
+        if (chartCanvasRef.current && window.Chart) {
+            const ctx = chartCanvasRef.current.getContext('2d');
+            if (ctx) {
+                chartInstanceRef.current = new window.Chart(ctx, {
+                    type: 'line',
+                    data: {
+                        datasets: series.map(s => ({
+                            label: s.label,
+                            data: s.points.map(p => ({ x: p.timestamp, y: p.equity })),
+                            borderColor: s.color,
+                            backgroundColor: s.color,
+                            borderWidth: 2,
+                            stepped: true,
+                            pointRadius: 0,
+                        })),
+                    },
+                    options: {
+                        responsive: true,
+                        maintainAspectRatio: false,
+                        parsing: false,
+                        interaction: { mode: 'nearest', intersect: false },
+                        scales: {
+                            x: {
+                                type: 'linear',
+                                grid: { color: 'rgba(0, 0, 0, 0.05)' },
+                                ticks: {
+                                    color: '#6b7280',
+                                    maxRotation: 0,
+                                    maxTicksLimit: 6,
+                                    callback: (value: any) => new Date(value).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+                                }
+                            },
+                            y: {
+                                grid: { color: 'rgba(0, 0, 0, 0.05)' },
+                                ticks: { color: '#6b7280', callback: (value: any) => formatAxisCurrency(value) }
+                            }
+                        },
+                        plugins: {
+                            legend: { display: series.length > 1, labels: { color: '#4b5563' } },
+                            tooltip: {
+                                backgroundColor: '#ffffff',
+                                titleColor: '#1f2937',
+                                bodyColor: '#4b5563',
+                                borderColor: '#e5e7eb',
+                                borderWidth: 1,
+                                callbacks: {
+                                    title: (items: any[]) => items.length > 0 ? new Date(items[0].parsed.x).toLocaleString() : '',
+                                    label: (item: any) => `${item.dataset.label}: ${formatAxisCurrency(item.parsed.y)}`
+                                }
+                            }
+                        }
+                    }
+                });
+            }
+        }
+        return () => {
+            if (chartInstanceRef.current) chartInstanceRef.current.destroy();
+        };
+    }, [series]);
+
+    return <div className={`${heightClass} w-full`}><canvas ref={chartCanvasRef}></canvas></div>;
+};
@@ -1,6 +1,10 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { learningService, Experiment, LogEntry } from '../services/learningService';
-import { signalsService } from '../services/signalsService';
+import { signalsService, createSignalFromExperiment, SignalBacktest } from '../services/signalsService';
+import { tradeSimulatorService } from '../services/tradeSimulatorService';
+import { buildTriggerFromDescription, describeTrigger, parseTriggerJson, TRIGGER_METRIC_LABELS } from '../services/triggerConditionService';
+import { backtestSignal, SIGNAL_BACKTEST_DAYS } from '../services/replayService';
+import { getTriggerConditionSuggestion } from '../services/geminiService';
 import { CryptoPrice } from '../services/cryptoService';
 import { LoadingSpinner } from './LoadingSpinner';
 import { ClockIcon, CheckCircleIcon, BeakerIcon, BellIcon, RecycleIcon, RefreshIcon, ActivityLogIcon } from './Icons';
@@ -76,12 +80,113 @@ const DetailedDescription: React.FC<{ text: string; allCoins: CryptoPrice[] }> =
     );
 };
 
+/**
+ * Review step before an experiment goes live: draft a condition with the rule builder or the AI, edit it,
+ * and backtest exactly that condition. Activation stays disabled until the backtest matches the text.
+ */
+const SignalPromotionPanel: React.FC<{ experiment: Experiment; onCancel: () => void }> = ({ experiment, onCancel }) => {
+    const [conditionText, setConditionText] = useState(() => JSON.stringify(buildTriggerFromDescription(experiment.description), null, 2));
+    const [isSuggesting, setIsSuggesting] = useState(false);
+    const [isBacktesting, setIsBacktesting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [backtest, setBacktest] = useState<{ text: string; result: SignalBacktest } | null>(null);
+
+    const parsed = useMemo(() => parseTriggerJson(conditionText), [conditionText]);
+    const currentBacktest = backtest?.text === conditionText ? backtest.result : null;
+
+    const handleSuggest = async () => {
+        setIsSuggesting(true);
+        setError(null);
+        try {
+            setConditionText(JSON.stringify(await getTriggerConditionSuggestion(experiment), null, 2));
+        } catch (e) {
+            setError(e instanceof Error ? e.message : String(e));
+        } finally {
+            setIsSuggesting(false);
+        }
+    };
+
+    const handleBacktest = async () => {
+        if (!parsed.node) return;
+        const text = conditionText;
+        setIsBacktesting(true);
+        setError(null);
+        try {
+            const result = await backtestSignal(createSignalFromExperiment(experiment, parsed.node), tradeSimulatorService.getSettings());
+            setBacktest({ text, result });
+        } catch (e) {
+            console.error("Signal backtest failed:", e);
+            setError('Backtest failed. Check the console for details.');
+        } finally {
+            setIsBacktesting(false);
+        }
+    };
+
+    const handleActivate = () => {
+        if (!parsed.node || !currentBacktest) return;
+        const errors = signalsService.activateSignalFromExperiment(experiment, parsed.node, currentBacktest);
+        if (errors.length > 0) setError(errors.join(' '));
+    };
+
+    return (
+        <div className="p-4 border-t border-gray-200 space-y-3 text-sm animate-fade-in-down">
+            <div className="flex flex-wrap justify-between items-center gap-2">
+                <h4 className="font-bold text-purple-700">Review trigger condition</h4>
+                <div className="flex gap-2">
+                    <button onClick={() => setConditionText(JSON.stringify(buildTriggerFromDescription(experiment.description), null, 2))} className="px-3 py-1 text-xs font-semibold text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-full transition-colors">
+                        Rule builder
+                    </button>
+                    <button onClick={handleSuggest} disabled={isSuggesting} className="flex items-center gap-1.5 px-3 py-1 text-xs font-semibold text-purple-800 bg-purple-100 hover:bg-purple-200 rounded-full transition-colors disabled:opacity-50">
+                        {isSuggesting && <LoadingSpinner />} Suggest with AI
+                    </button>
+                </div>
+            </div>
+            <textarea value={conditionText} onChange={e => setConditionText(e.target.value)} rows={8} spellCheck={false} className="w-full bg-white border border-gray-300 rounded-lg p-2 font-mono text-xs text-gray-900 focus:outline-none focus:ring-1 focus:ring-purple-500" />
+            {parsed.node ? (
+                <p><span className="font-bold text-purple-700">IF:</span> <span className="font-semibold text-gray-800">{describeTrigger(parsed.node, experiment)}</span></p>
+            ) : (
+                <ul className="list-disc list-inside text-xs text-red-600">
+                    {parsed.errors.map(message => <li key={message}>{message}</li>)}
+                </ul>
+            )}
+
+            {currentBacktest && (
+                <div className="p-3 bg-gray-50 rounded-lg border border-gray-200">
+                    <p className="text-xs font-semibold text-gray-500 uppercase">Backtest · last {SIGNAL_BACKTEST_DAYS} days</p>
+                    <p className="mt-1 text-gray-800">
+                        {currentBacktest.tradeCount} trade{currentBacktest.tradeCount === 1 ? '' : 's'}
+                        {currentBacktest.tradeCount > 0 && <> · {currentBacktest.winRate.toFixed(0)}% win rate · <span className={`font-mono font-bold ${currentBacktest.netPnl >= 0 ? 'text-green-600' : 'text-red-600'}`}>{formatCurrency(currentBacktest.netPnl)}</span> · {currentBacktest.maxDrawdownPercent.toFixed(2)}% max drawdown</>}
+                    </p>
+                    {currentBacktest.tradeCount === 0 && <p className="text-xs text-yellow-700 mt-1">The condition never fired in this window.</p>}
+                    {currentBacktest.missingSymbols.length > 0 && <p className="text-xs text-yellow-700 mt-1">No candles for {currentBacktest.missingSymbols.join(', ')}.</p>}
+                    {currentBacktest.unreplayableMetrics.length > 0 && (
+                        <p className="text-xs text-yellow-700 mt-1">
+                            {currentBacktest.unreplayableMetrics.map(metric => TRIGGER_METRIC_LABELS[metric].label).join(', ')} ha{currentBacktest.unreplayableMetrics.length === 1 ? 's' : 've'} no history, so conditions on it never held in the backtest.
+                        </p>
+                    )}
+                </div>
+            )}
+            {error && <p className="text-xs text-red-600">{error}</p>}
+
+            <div className="flex justify-end gap-2">
+                <button onClick={onCancel} className="px-3 py-1.5 text-sm font-semibold text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-full transition-colors">Cancel</button>
+                <button onClick={handleBacktest} disabled={!parsed.node || isBacktesting} className="flex items-center gap-2 px-3 py-1.5 text-sm font-semibold text-blue-800 bg-blue-100 hover:bg-blue-200 rounded-full transition-colors disabled:opacity-50">
+                    {isBacktesting && <LoadingSpinner />} Backtest
+                </button>
+                <button onClick={handleActivate} disabled={!parsed.node || !currentBacktest} title={currentBacktest ? undefined : 'Backtest this condition first.'} className="flex items-center gap-2 px-3 py-1.5 text-sm font-semibold text-purple-800 bg-purple-100 hover:bg-purple-200 rounded-full transition-colors disabled:opacity-50">
+                    <BellIcon className="w-4 h-4" /> Activate
+                </button>
+            </div>
+        </div>
+    );
+};
+
 const ExperimentCard: React.FC<{
     experiment: Experiment;
     isSignalActivated: boolean;
     allCoins: CryptoPrice[];
 }> = ({ experiment, isSignalActivated, allCoins }) => {
-    const handleActivate = () => signalsService.activateSignalFromExperiment(experiment);
+    const [isPromoting, setIsPromoting] = useState(false);
     const handleRecycle = () => learningService.recycleExperiment(experiment.id);
     const handleResume = () => learningService.resumeExperiment(experiment.id, allCoins);
 
@@ -119,7 +224,7 @@ const ExperimentCard: React.FC<{
                                         <CheckCircleIcon className="w-4 h-4" /> Signal Active
                                     </span>
                                 ) : (
-                                    <button onClick={handleActivate} className="flex items-center gap-2 px-3 py-1.5 text-sm font-semibold text-purple-800 bg-purple-100 hover:bg-purple-200 rounded-full transition-colors">
+                                    <button onClick={() => setIsPromoting(true)} disabled={isPromoting} className="flex items-center gap-2 px-3 py-1.5 text-sm font-semibold text-purple-800 bg-purple-100 hover:bg-purple-200 rounded-full transition-colors disabled:opacity-50">
                                         <BellIcon className="w-4 h-4" /> Activate
                                     </button>
                                 )
@@ -135,6 +240,7 @@ const ExperimentCard: React.FC<{
                     )}
                 </div>
             </div>
+            {isPromoting && !isSignalActivated && <SignalPromotionPanel experiment={experiment} onCancel={() => setIsPromoting(false)} />}
         </div>
     );
 };
@@ -13,13 +13,15 @@ const formatCurrency = (value: number | null | undefined): string => {
 interface IdeaCardProps {
     idea: Idea;
     onViewChart?: (idea: Idea) => void;
+    onPaperTrade?: (idea: Idea) => void; // Queues a limit order at the entry zone
 }
 
-export const IdeaCard: React.FC<IdeaCardProps> = ({ idea, onViewChart }) => {
+export const IdeaCard: React.FC<IdeaCardProps> = ({ idea, onViewChart, onPaperTrade }) => {
     const confidence = idea.confidence ?? 0;
     const confidenceColor = confidence > 65 ? 'bg-green-500' : confidence > 40 ? 'bg-yellow-500' : 'bg-red-500';
 
     const canShowChart = !!(idea.entry_low && idea.stop && idea.target1 && onViewChart);
+    const canPaperTrade = !!((idea.entry_low || idea.entry_high) && onPaperTrade);
 
     return (
         <div className="p-4">
@@ -73,15 +75,25 @@ export const IdeaCard: React.FC<IdeaCardProps> = ({ idea, onViewChart }) => {
                 </ul>
             </div>
 
-            {canShowChart && (
-                 <div className="mt-4 pt-4 border-t border-gray-800 flex justify-end">
-                    <button
-                        onClick={() => onViewChart(idea)}
-                        className="flex items-center space-x-2 px-4 py-2 text-sm font-semibold text-purple-300 bg-purple-500/10 hover:bg-purple-500/20 rounded-lg transition-colors"
-                    >
-                        <LineChartIcon className="w-5 h-5" />
-                        <span>View Chart Analysis</span>
-                    </button>
+            {(canShowChart || canPaperTrade) && (
+                 <div className="mt-4 pt-4 border-t border-gray-800 flex justify-end gap-2">
+                    {canPaperTrade && (
+                        <button
+                            onClick={() => onPaperTrade(idea)}
+                            className="px-4 py-2 text-sm font-semibold text-green-300 bg-green-500/10 hover:bg-green-500/20 rounded-lg transition-colors"
+                        >
+                            Paper Trade Entry Zone
+                        </button>
+                    )}
+                    {canShowChart && (
+                        <button
+                            onClick={() => onViewChart(idea)}
+                            className="flex items-center space-x-2 px-4 py-2 text-sm font-semibold text-purple-300 bg-purple-500/10 hover:bg-purple-500/20 rounded-lg transition-colors"
+                        >
+                            <LineChartIcon className="w-5 h-5" />
+                            <span>View Chart Analysis</span>
+                        </button>
+                    )}
                 </div>
             )}
 
@@ -1,5 +1,8 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import { signalsService, AvailableSignal, SignalEvent } from '../services/signalsService';
+import { signalsService, AvailableSignal, SignalEvent, SignalExecutionPolicy, SignalStatus, getSignalStatus, SIGNAL_STATUS_LABELS, DEFAULT_SIGNAL_COOLDOWN_MINUTES } from '../services/signalsService';
+import { tradeSimulatorService, Portfolio } from '../services/tradeSimulatorService';
+import { describeTrigger, parseTriggerJson } from '../services/triggerConditionService';
+import { computeSignalScorecard, FORWARD_HORIZONS, SignalScorecard, SCORECARD_WINDOW } from '../services/signalOutcomeService';
 import { BellIcon, CheckCircleIcon, SearchIcon } from './Icons';
 import { CryptoPrice } from '../services/cryptoService';
 import { getSmartSignalSearch } from '../services/geminiService';
@@ -11,25 +14,225 @@ const formatCurrency = (value: number | undefined | null) => {
     return value.toLocaleString('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 2, maximumFractionDigits: Math.abs(value) > 0 && Math.abs(value) < 1 ? 6 : 2 });
 }
 
+const formatPercent = (value: number | null | undefined) => {
+    if (value === null || value === undefined) return "—";
+    return `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+};
+
+const percentColor = (value: number | null | undefined) =>
+    value === null || value === undefined ? 'text-gray-400' : value >= 0 ? 'text-green-600' : 'text-red-600';
+
+const eventFilterClass = "w-full bg-white border border-gray-300 rounded-lg p-2 text-sm text-gray-900 focus:outline-none focus:ring-1 focus:ring-purple-500";
+
+const parseOptionalNumber = (value: string) => value.trim() === '' ? undefined : parseFloat(value);
+
+// Auto-trading settings for one signal; changes apply when saved.
+const ExecutionPolicyEditor: React.FC<{ signal: AvailableSignal; portfolios: Portfolio[] }> = ({ signal, portfolios }) => {
+    const policy = signal.executionPolicy;
+    const [enabled, setEnabled] = useState(policy?.enabled ?? false);
+    const [portfolioId, setPortfolioId] = useState(policy?.portfolioId ?? tradeSimulatorService.getActivePortfolio().id);
+    const [sizeUSD, setSizeUSD] = useState(policy?.sizeUSD?.toString() ?? '');
+    const [takeProfitPercent, setTakeProfitPercent] = useState(policy?.takeProfitPercent?.toString() ?? '');
+    const [stopLossPercent, setStopLossPercent] = useState(policy?.stopLossPercent?.toString() ?? '');
+    const [maxConcurrent, setMaxConcurrent] = useState(policy?.maxConcurrent.toString() ?? '1');
+
+    const handleSave = () => {
+        const next: SignalExecutionPolicy = {
+            enabled,
+            portfolioId,
+            sizeUSD: parseOptionalNumber(sizeUSD),
+            takeProfitPercent: parseOptionalNumber(takeProfitPercent),
+            stopLossPercent: parseOptionalNumber(stopLossPercent),
+            maxConcurrent: parseInt(maxConcurrent, 10),
+        };
+        signalsService.updateExecutionPolicy(signal.id, next);
+    };
+
+    return (
+        <div className="mt-3 p-3 bg-gray-50 rounded-lg border border-gray-200 text-sm space-y-2">
+            <label className="flex items-center gap-2 font-semibold text-gray-800">
+                <input type="checkbox" checked={enabled} onChange={e => setEnabled(e.target.checked)} className="h-4 w-4 accent-purple-600" />
+                Auto-trade events in a paper portfolio
+            </label>
+            <div className="grid grid-cols-2 gap-2">
+                <label className="text-xs text-gray-500">Portfolio
+                    <select value={portfolioId} onChange={e => setPortfolioId(e.target.value)} className={eventFilterClass}>
+                        {portfolios.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                    </select>
+                </label>
+                <label className="text-xs text-gray-500">Size (USD)
+                    <input type="number" min="0" value={sizeUSD} onChange={e => setSizeUSD(e.target.value)} placeholder="Portfolio sizing" className={eventFilterClass} />
+                </label>
+                <label className="text-xs text-gray-500">Take profit (%)
+                    <input type="number" min="0" step="0.1" value={takeProfitPercent} onChange={e => setTakeProfitPercent(e.target.value)} placeholder="Portfolio default" className={eventFilterClass} />
+                </label>
+                <label className="text-xs text-gray-500">Stop loss (%)
+                    <input type="number" min="0" step="0.1" value={stopLossPercent} onChange={e => setStopLossPercent(e.target.value)} placeholder="Portfolio default" className={eventFilterClass} />
+                </label>
+                <label className="text-xs text-gray-500">Max open trades
+                    <input type="number" min="1" step="1" value={maxConcurrent} onChange={e => setMaxConcurrent(e.target.value)} className={eventFilterClass} />
+                </label>
+                <div className="flex items-end">
+                    <button onClick={handleSave} className="w-full px-3 py-2 bg-purple-600 hover:bg-purple-700 text-white font-semibold rounded-lg transition-colors">Save</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const STATUS_BADGE_CLASSES: Record<SignalStatus, string> = {
+    active: 'text-green-800 bg-green-100',
+    paused: 'text-yellow-800 bg-yellow-100',
+    expired: 'text-gray-700 bg-gray-200',
+    retired: 'text-red-800 bg-red-100',
+};
+
+// datetime-local inputs work in local time without a zone.
+const toDateTimeInput = (timestamp: number | null | undefined) => {
+    if (timestamp === null || timestamp === undefined) return '';
+    const date = new Date(timestamp);
+    return new Date(timestamp - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+// Status, expiry, cooldown and the versioned trigger condition of one signal.
+const SignalLifecycleEditor: React.FC<{ signal: AvailableSignal }> = ({ signal }) => {
+    const status = getSignalStatus(signal);
+    const [expiresAt, setExpiresAt] = useState(toDateTimeInput(signal.expiresAt));
+    const [cooldownMinutes, setCooldownMinutes] = useState((signal.cooldownMinutes ?? DEFAULT_SIGNAL_COOLDOWN_MINUTES).toString());
+    const [hysteresis, setHysteresis] = useState(signal.hysteresis ?? false);
+    const [conditionText, setConditionText] = useState(JSON.stringify(signal.triggerCondition, null, 2));
+    const [conditionNote, setConditionNote] = useState('');
+    const [conditionErrors, setConditionErrors] = useState<string[]>([]);
+    const [isEditingCondition, setIsEditingCondition] = useState(false);
+    const [statusError, setStatusError] = useState<string | null>(null);
+    const isRetired = status === 'retired';
+
+    const handleStatus = (next: 'active' | 'paused' | 'retired') => {
+        if (next === 'retired' && !window.confirm(`Retire "${signal.title}"? It will stop firing for good; its events are kept.`)) return;
+        const changed = signalsService.setSignalStatus(signal.id, next);
+        setStatusError(changed ? null : 'Move the expiry into the future before resuming.');
+    };
+
+    const handleSaveSettings = () => {
+        signalsService.updateLifecycleSettings(signal.id, {
+            expiresAt: expiresAt ? new Date(expiresAt).getTime() : null,
+            cooldownMinutes: parseFloat(cooldownMinutes),
+            hysteresis,
+        });
+    };
+
+    const handleSaveCondition = () => {
+        const { node, errors: parseErrors } = parseTriggerJson(conditionText);
+        if (!node) {
+            setConditionErrors(parseErrors);
+            return;
+        }
+        const errors = signalsService.updateTriggerCondition(signal.id, node, conditionNote);
+        setConditionErrors(errors);
+        if (errors.length === 0) {
+            setConditionNote('');
+            setIsEditingCondition(false);
+        }
+    };
+
+    return (
+        <div className="mt-3 p-3 bg-gray-50 rounded-lg border border-gray-200 text-sm space-y-2">
+            <div className="flex flex-wrap items-center gap-2">
+                <span className="font-semibold text-gray-800">Lifecycle</span>
+                {(status === 'paused' || status === 'expired') && (
+                    <button onClick={() => handleStatus('active')} className="px-3 py-1 text-xs font-semibold text-green-800 bg-green-100 hover:bg-green-200 rounded-full transition-colors">Resume</button>
+                )}
+                {status === 'active' && (
+                    <button onClick={() => handleStatus('paused')} className="px-3 py-1 text-xs font-semibold text-yellow-800 bg-yellow-100 hover:bg-yellow-200 rounded-full transition-colors">Pause</button>
+                )}
+                {!isRetired && (
+                    <button onClick={() => handleStatus('retired')} className="px-3 py-1 text-xs font-semibold text-red-700 bg-red-100 hover:bg-red-200 rounded-full transition-colors">Retire</button>
+                )}
+                {statusError && <span className="text-xs text-red-600">{statusError}</span>}
+            </div>
+            {!isRetired && (
+                <div className="grid grid-cols-2 gap-2">
+                    <label className="text-xs text-gray-500">Expires
+                        <input type="datetime-local" value={expiresAt} onChange={e => setExpiresAt(e.target.value)} className={eventFilterClass} />
+                    </label>
+                    <label className="text-xs text-gray-500">Cooldown (minutes)
+                        <input type="number" min="0" step="1" value={cooldownMinutes} onChange={e => setCooldownMinutes(e.target.value)} className={eventFilterClass} />
+                    </label>
+                    <label className="flex items-center gap-2 text-xs text-gray-600" title="After an event, wait until the condition stops holding before the signal can fire again.">
+                        <input type="checkbox" checked={hysteresis} onChange={e => setHysteresis(e.target.checked)} className="h-4 w-4 accent-purple-600" />
+                        Re-arm only after the condition clears
+                    </label>
+                    <div className="flex items-end">
+                        <button onClick={handleSaveSettings} className="w-full px-3 py-2 bg-purple-600 hover:bg-purple-700 text-white font-semibold rounded-lg transition-colors">Save</button>
+                    </div>
+                </div>
+            )}
+            {signal.hysteresis && status === 'active' && signal.armed === false && (
+                <p className="text-xs text-gray-500">Waiting for the condition to clear before it can fire again.</p>
+            )}
+
+            <div className="flex items-center justify-between pt-1">
+                <span className="text-xs font-semibold text-gray-500 uppercase">Condition v{signal.conditionVersion ?? 1}</span>
+                {!isRetired && (
+                    <button onClick={() => { setIsEditingCondition(!isEditingCondition); setConditionErrors([]); setConditionText(JSON.stringify(signal.triggerCondition, null, 2)); }} className="text-xs font-semibold text-purple-700 hover:underline">
+                        {isEditingCondition ? 'Cancel' : 'Edit condition'}
+                    </button>
+                )}
+            </div>
+            {isEditingCondition && (
+                <div className="space-y-2">
+                    <textarea value={conditionText} onChange={e => setConditionText(e.target.value)} rows={8} spellCheck={false} className={`${eventFilterClass} font-mono text-xs`} />
+                    <input type="text" value={conditionNote} onChange={e => setConditionNote(e.target.value)} placeholder="What changed (optional)" className={eventFilterClass} />
+                    {conditionErrors.length > 0 && (
+                        <ul className="list-disc list-inside text-xs text-red-600">
+                            {conditionErrors.map(error => <li key={error}>{error}</li>)}
+                        </ul>
+                    )}
+                    <button onClick={handleSaveCondition} className="px-3 py-2 bg-purple-600 hover:bg-purple-700 text-white font-semibold rounded-lg transition-colors">Save as v{(signal.conditionVersion ?? 1) + 1}</button>
+                </div>
+            )}
+            {(signal.conditionHistory?.length ?? 0) > 1 && (
+                <details className="text-xs">
+                    <summary className="cursor-pointer text-gray-500">Version history</summary>
+                    <ul className="mt-1 space-y-1">
+                        {[...signal.conditionHistory!].reverse().map(entry => (
+                            <li key={entry.version} className="text-gray-600">
+                                <span className="font-semibold">v{entry.version}</span>
+                                {entry.changedAt > 0 && <span className="text-gray-400"> · {new Date(entry.changedAt).toLocaleString()}</span>}
+                                {entry.note && <span className="italic"> · {entry.note}</span>}
+                                <div className="font-mono text-gray-500">{describeTrigger(entry.triggerCondition, signal)}</div>
+                            </li>
+                        ))}
+                    </ul>
+                </details>
+            )}
+        </div>
+    );
+};
+
 // Signal Card
-const ActivatedSignalCard: React.FC<{ signal: AvailableSignal; allCoins: CryptoPrice[] }> = ({ signal, allCoins }) => {
+const ActivatedSignalCard: React.FC<{ signal: AvailableSignal; allCoins: CryptoPrice[]; scorecard: SignalScorecard; portfolios: Portfolio[] }> = ({ signal, allCoins, scorecard, portfolios }) => {
     const triggerCoin = allCoins.find(c => c.symbol.toUpperCase() === signal.trigger_asset.toUpperCase());
     const affectedCoin = allCoins.find(c => c.symbol.toUpperCase() === signal.affected_asset.toUpperCase());
+    const status = getSignalStatus(signal);
 
     return (
         <div className="bg-white p-4 rounded-lg border border-gray-200 animate-fade-in-up shadow-md">
             <div className="flex justify-between items-start">
                 <h4 className="font-bold text-gray-900 text-lg">{signal.title}</h4>
-                <span className="flex items-center gap-2 px-3 py-1.5 text-sm font-semibold text-green-800 bg-green-100 rounded-full">
-                    <CheckCircleIcon className="w-4 h-4" /> Active
+                <span className={`flex items-center gap-2 px-3 py-1.5 text-sm font-semibold rounded-full ${STATUS_BADGE_CLASSES[status]}`}>
+                    {status === 'active' && <CheckCircleIcon className="w-4 h-4" />} {SIGNAL_STATUS_LABELS[status]}
                 </span>
             </div>
             <p className="text-sm text-gray-700 mt-2 italic">"{signal.description}"</p>
+            {signal.expiresAt != null && (
+                <p className="text-xs text-gray-500 mt-1">{status === 'expired' ? 'Expired' : 'Expires'} {new Date(signal.expiresAt).toLocaleString()}</p>
+            )}
 
             <div className="mt-4 p-3 bg-gray-50 rounded-lg text-sm border border-gray-200 space-y-1">
                 <p>
                     <span className="font-bold text-purple-700">IF:</span>{" "}
-                    <span className="font-semibold text-gray-800">{signal.trigger_asset}</span> shows pattern{" "}
+                    <span className="font-semibold text-gray-800">{describeTrigger(signal.triggerCondition, signal)}</span>{" "}
                     {triggerCoin && (
                         <span className="ml-2 text-blue-600 font-mono">(Live {formatCurrency(triggerCoin.price)})</span>
                     )}
@@ -43,12 +246,56 @@ const ActivatedSignalCard: React.FC<{ signal: AvailableSignal; allCoins: CryptoP
                     )}
                 </p>
             </div>
+
+            {signal.backtest && (
+                <p className="text-xs text-gray-500 mt-2">
+                    Backtested before activation: {signal.backtest.tradeCount} trade{signal.backtest.tradeCount === 1 ? '' : 's'}
+                    {signal.backtest.tradeCount > 0 && <> · {signal.backtest.winRate.toFixed(0)}% win rate · <span className={`font-mono ${percentColor(signal.backtest.netPnl)}`}>{formatCurrency(signal.backtest.netPnl)}</span></>}
+                    {" "}from {new Date(signal.backtest.from).toLocaleDateString()} to {new Date(signal.backtest.to).toLocaleDateString()}
+                </p>
+            )}
+
+            <div className="mt-3">
+                <p className="text-xs font-semibold text-gray-500 uppercase">
+                    Scorecard · last {Math.min(scorecard.eventCount, SCORECARD_WINDOW)} event{scorecard.eventCount === 1 ? '' : 's'}
+                </p>
+                {scorecard.eventCount === 0 ? (
+                    <p className="text-xs text-gray-400 mt-1">No events yet.</p>
+                ) : (
+                    <>
+                        <div className="grid grid-cols-4 gap-2 mt-1 text-center">
+                            {scorecard.horizons.map(score => (
+                                <div key={score.horizon} className="bg-gray-50 border border-gray-200 rounded p-1.5">
+                                    <p className="text-[10px] text-gray-500">+{score.horizon}</p>
+                                    {score.sampleSize > 0 ? (
+                                        <>
+                                            <p className="text-sm font-bold text-gray-800">{(score.hitRate * 100).toFixed(0)}% hit</p>
+                                            <p className={`text-xs font-mono ${percentColor(score.averageReturn)}`}>{formatPercent(score.averageReturn)}</p>
+                                            <p className="text-[10px] text-gray-400">n={score.sampleSize}</p>
+                                        </>
+                                    ) : (
+                                        <p className="text-xs text-gray-400 py-2">pending</p>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                        <p className="text-xs text-gray-500 mt-1">
+                            Avg MFE <span className={`font-mono ${percentColor(scorecard.averageMfe)}`}>{formatPercent(scorecard.averageMfe)}</span>
+                            {" · "}Avg MAE <span className={`font-mono ${percentColor(scorecard.averageMae)}`}>{formatPercent(scorecard.averageMae)}</span>
+                        </p>
+                    </>
+                )}
+            </div>
+
+            <SignalLifecycleEditor signal={signal} />
+            {status !== 'retired' && <ExecutionPolicyEditor signal={signal} portfolios={portfolios} />}
         </div>
     );
 };
 
 // Event Row
-const SignalEventRow: React.FC<{ event: SignalEvent; allCoins: CryptoPrice[] }> = ({ event, allCoins }) => {
+// `signal` is the live signal, when it is still activated; the event itself only keeps a snapshot.
+const SignalEventRow: React.FC<{ event: SignalEvent; signal?: AvailableSignal; allCoins: CryptoPrice[] }> = ({ event, signal, allCoins }) => {
     const [isExpanded, setIsExpanded] = useState(false);
     const livePrice = event.livePrice; // Use the price from the service
 
@@ -105,8 +352,30 @@ const SignalEventRow: React.FC<{ event: SignalEvent; allCoins: CryptoPrice[] }>
             {isExpanded && (
                 <tr className="animate-fade-in bg-gray-50">
                     <td colSpan={4} className="p-4 border-b border-gray-200">
-                        <h5 className="font-bold text-sm text-purple-700">Trigger Condition Met:</h5>
-                        <p className="text-sm text-gray-700 italic mt-1">"{event.signal.description}"</p>
+                        <h5 className="font-bold text-sm text-purple-700">
+                            Trigger Condition Met{event.conditionVersion !== undefined && <span className="font-normal text-gray-500"> (condition v{event.conditionVersion})</span>}:
+                        </h5>
+                        {signal && <p className="text-sm text-gray-700 italic mt-1">"{signal.description}"</p>}
+                        <div className="mt-3 flex flex-wrap gap-x-4 gap-y-1 text-xs">
+                            {FORWARD_HORIZONS.map(({ key }) => (
+                                <span key={key} className="text-gray-500">
+                                    +{key}: <span className={`font-mono ${percentColor(event.outcome?.returns[key])}`}>{formatPercent(event.outcome?.returns[key])}</span>
+                                </span>
+                            ))}
+                            <span className="text-gray-500">MFE: <span className={`font-mono ${percentColor(event.outcome?.maxFavorableExcursion)}`}>{formatPercent(event.outcome?.maxFavorableExcursion)}</span></span>
+                            <span className="text-gray-500">MAE: <span className={`font-mono ${percentColor(event.outcome?.maxAdverseExcursion)}`}>{formatPercent(event.outcome?.maxAdverseExcursion)}</span></span>
+                        </div>
+                        {event.execution && (
+                            <p className={`mt-2 text-xs ${event.execution.status === 'executed' ? 'text-green-700' : event.execution.status === 'rejected' ? 'text-red-600' : 'text-gray-500'}`}>
+                                Auto-trade {event.execution.status}: {event.execution.reason}
+                                {event.execution.tradeId && <span className="font-mono text-gray-400"> (trade {event.execution.tradeId})</span>}
+                            </p>
+                        )}
+                        {event.firedBranches && event.firedBranches.length > 0 && (
+                            <ul className="mt-2 list-disc list-inside text-xs font-mono text-gray-600 space-y-0.5">
+                                {event.firedBranches.map(branch => <li key={branch}>{branch}</li>)}
+                            </ul>
+                        )}
                     </td>
                 </tr>
             )}
@@ -126,6 +395,12 @@ export const JaxSignals: React.FC<JaxSignalsProps> = ({ allCoins }) => {
     const [searchQuery, setSearchQuery] = useState('');
     const [isSearching, setIsSearching] = useState(false);
     const [filteredSignalIds, setFilteredSignalIds] = useState<Set<string> | null>(null);
+    const [eventSignalId, setEventSignalId] = useState('');
+    const [eventAsset, setEventAsset] = useState('');
+    const [eventFrom, setEventFrom] = useState('');
+    const [eventTo, setEventTo] = useState('');
+    const [eventPage, setEventPage] = useState(1);
+    const [portfolios, setPortfolios] = useState<Portfolio[]>([]);
 
     useEffect(() => {
         const handleUpdate = () => {
@@ -133,10 +408,17 @@ export const JaxSignals: React.FC<JaxSignalsProps> = ({ allCoins }) => {
             setSignalEvents(signalsService.getSignalEvents());
         };
 
+        const updatePortfolios = () => setPortfolios([...tradeSimulatorService.getPortfolios()]);
+
         signalsService.subscribe(handleUpdate);
+        tradeSimulatorService.subscribe(updatePortfolios);
         handleUpdate();
+        updatePortfolios();
 
-        return () => signalsService.unsubscribe(handleUpdate);
+        return () => {
+            signalsService.unsubscribe(handleUpdate);
+            tradeSimulatorService.unsubscribe(updatePortfolios);
+        };
     }, []);
 
     const handleSearch = async (e: React.FormEvent) => {
@@ -162,6 +444,49 @@ export const JaxSignals: React.FC<JaxSignalsProps> = ({ allCoins }) => {
         setFilteredSignalIds(null);
     };
 
+    // Every signal and asset in the archive, including signals that are no longer active.
+    const eventFilterOptions = useMemo(() => {
+        const signals = new Map<string, string>();
+        const assets = new Set<string>();
+        signalEvents.forEach(event => {
+            signals.set(event.signal.id, event.signal.title);
+            assets.add(event.signal.trigger_asset.toUpperCase());
+            assets.add(event.signal.affected_asset.toUpperCase());
+        });
+        return { signals: [...signals.entries()], assets: [...assets].sort() };
+    }, [signalEvents]);
+
+    const eventPageResult = useMemo(() => signalsService.queryEvents({
+        signalId: eventSignalId || undefined,
+        asset: eventAsset || undefined,
+        from: eventFrom ? new Date(`${eventFrom}T00:00:00`).getTime() : undefined,
+        to: eventTo ? new Date(`${eventTo}T23:59:59.999`).getTime() : undefined,
+        page: eventPage,
+    }), [signalEvents, eventSignalId, eventAsset, eventFrom, eventTo, eventPage]);
+
+    // Any filter change starts again from the newest events.
+    const updateEventFilter = (setter: (value: string) => void) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+        setter(e.target.value);
+        setEventPage(1);
+    };
+
+    const hasEventFilters = !!(eventSignalId || eventAsset || eventFrom || eventTo);
+
+    const handleClearEventFilters = () => {
+        setEventSignalId('');
+        setEventAsset('');
+        setEventFrom('');
+        setEventTo('');
+        setEventPage(1);
+    };
+
+    const signalsById = useMemo(() => new Map(activatedSignals.map(signal => [signal.id, signal])), [activatedSignals]);
+
+    const scorecards = useMemo(
+        () => new Map(activatedSignals.map(signal => [signal.id, computeSignalScorecard(signal.id, signalEvents)])),
+        [activatedSignals, signalEvents]
+    );
+
     const displayedSignals = filteredSignalIds === null
         ? activatedSignals
         : activatedSignals.filter(s => filteredSignalIds.has(s.id));
@@ -203,7 +528,7 @@ export const JaxSignals: React.FC<JaxSignalsProps> = ({ allCoins }) => {
                             </div>
                         ) : (
                             displayedSignals.map(signal => (
-                                <ActivatedSignalCard key={signal.id} signal={signal} allCoins={allCoins} />
+                                <ActivatedSignalCard key={signal.id} signal={signal} allCoins={allCoins} scorecard={scorecards.get(signal.id)!} portfolios={portfolios} />
                             ))
                         )}
                     </div>
@@ -211,7 +536,19 @@ export const JaxSignals: React.FC<JaxSignalsProps> = ({ allCoins }) => {
 
                 {/* Signal Event Log */}
                 <div className="flex flex-col overflow-hidden">
-                    <h3 className="text-lg font-bold text-purple-700 mb-4">Signal Event Log</h3>
+                    <h3 className="text-lg font-bold text-purple-700 mb-4">Signal Event Log ({signalEvents.length})</h3>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mb-3">
+                        <select value={eventSignalId} onChange={updateEventFilter(setEventSignalId)} className={eventFilterClass} aria-label="Filter by signal">
+                            <option value="">All signals</option>
+                            {eventFilterOptions.signals.map(([id, title]) => <option key={id} value={id}>{title}</option>)}
+                        </select>
+                        <select value={eventAsset} onChange={updateEventFilter(setEventAsset)} className={eventFilterClass} aria-label="Filter by asset">
+                            <option value="">All assets</option>
+                            {eventFilterOptions.assets.map(asset => <option key={asset} value={asset}>{asset}</option>)}
+                        </select>
+                        <input type="date" value={eventFrom} onChange={updateEventFilter(setEventFrom)} className={eventFilterClass} aria-label="Triggered from" />
+                        <input type="date" value={eventTo} onChange={updateEventFilter(setEventTo)} className={eventFilterClass} aria-label="Triggered to" />
+                    </div>
                     <div className="flex-1 overflow-y-auto bg-white rounded-lg border border-gray-200 shadow-sm">
                         <table className="w-full text-sm text-left">
                             <thead className="bg-gray-50 text-xs text-gray-500 uppercase sticky top-0">
@@ -223,16 +560,35 @@ export const JaxSignals: React.FC<JaxSignalsProps> = ({ allCoins }) => {
                                 </tr>
                             </thead>
                             <tbody>
-                                {signalEvents.length > 0 ? (
-                                    signalEvents.map(event => (
-                                        <SignalEventRow key={event.eventId} event={event} allCoins={allCoins} />
+                                {eventPageResult.events.length > 0 ? (
+                                    eventPageResult.events.map(event => (
+                                        <SignalEventRow key={event.eventId} event={event} signal={signalsById.get(event.signal.id)} allCoins={allCoins} />
                                     ))
+                                ) : hasEventFilters ? (
+                                    <tr>
+                                        <td colSpan={4} className="text-center p-8 text-gray-500">
+                                            No events match these filters.{" "}
+                                            <button onClick={handleClearEventFilters} className="text-purple-600 hover:underline">Clear filters</button>
+                                        </td>
+                                    </tr>
                                 ) : (
                                     <tr><td colSpan={4} className="text-center p-8 text-gray-500">Awaiting signal events...</td></tr>
                                 )}
                             </tbody>
                         </table>
                     </div>
+                    {eventPageResult.total > 0 && (
+                        <div className="flex justify-between items-center mt-3 text-sm text-gray-600">
+                            <span>
+                                {(eventPageResult.page - 1) * eventPageResult.pageSize + 1}–{(eventPageResult.page - 1) * eventPageResult.pageSize + eventPageResult.events.length} of {eventPageResult.total}
+                            </span>
+                            <div className="flex items-center gap-2">
+                                <button onClick={() => setEventPage(eventPageResult.page - 1)} disabled={eventPageResult.page <= 1} className="px-3 py-1 bg-white border border-gray-300 rounded-lg hover:bg-gray-100 disabled:opacity-50">Previous</button>
+                                <span>Page {eventPageResult.page} of {eventPageResult.pageCount}</span>
+                                <button onClick={() => setEventPage(eventPageResult.page + 1)} disabled={eventPageResult.page >= eventPageResult.pageCount} className="px-3 py-1 bg-white border border-gray-300 rounded-lg hover:bg-gray-100 disabled:opacity-50">Next</button>
+                            </div>
+                        </div>
+                    )}
                 </div>
             </div>
 
@@ -0,0 +1,75 @@
+import React, { useState, useEffect } from 'react';
+import { pipelineExecutionService, OrderIntent, OrderIntentStatus, OrderIntentAction } from '../services/pipelineExecutionService';
+import { tradeSimulatorService, Portfolio } from '../services/tradeSimulatorService';
+
+const STATUS_STYLES: Record<OrderIntentStatus, string> = {
+    executed: 'bg-green-100 text-green-800',
+    skipped: 'bg-gray-100 text-gray-700',
+    rejected: 'bg-red-100 text-red-800',
+};
+
+const ACTION_LABELS: Record<OrderIntentAction, string> = {
+    open_long: 'Open long',
+    open_short: 'Open short',
+    close_long: 'Close long',
+    close_short: 'Close short',
+};
+
+export const OrderIntentLog: React.FC = () => {
+    const [intents, setIntents] = useState<OrderIntent[]>([]);
+    const [portfolios, setPortfolios] = useState<Portfolio[]>([]);
+
+    useEffect(() => {
+        const updateIntents = () => setIntents([...pipelineExecutionService.getIntents()]);
+        const updatePortfolios = () => setPortfolios([...tradeSimulatorService.getPortfolios()]);
+        pipelineExecutionService.subscribe(updateIntents);
+        tradeSimulatorService.subscribe(updatePortfolios);
+        updateIntents();
+        updatePortfolios();
+        return () => {
+            pipelineExecutionService.unsubscribe(updateIntents);
+            tradeSimulatorService.unsubscribe(updatePortfolios);
+        };
+    }, []);
+
+    const portfolioName = (id: string) => portfolios.find(p => p.id === id)?.name ?? 'Deleted portfolio';
+
+    return (
+        <div className="space-y-2">
+            <p className="text-sm text-gray-500">
+                Each pipeline row is acted on once per portfolio: the newest BUY or SELL per asset, when its timestamp is new and its score clears the threshold.
+            </p>
+            <div className="overflow-x-auto max-h-96 overflow-y-auto">
+                <table className="w-full text-sm text-left">
+                    <thead className="bg-gray-50 text-xs text-gray-500 uppercase sticky top-0">
+                        <tr>
+                            <th className="p-3">Time</th><th className="p-3">Portfolio</th><th className="p-3">Row</th><th className="p-3">Signal</th><th className="p-3">Actions</th><th className="p-3">Status</th><th className="p-3">Detail</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {intents.length > 0 ? intents.slice(0, 50).map(intent => (
+                            <tr key={intent.id} className="border-b border-gray-200">
+                                <td className="p-3 text-gray-500 whitespace-nowrap">{new Date(intent.createdAt).toLocaleString()}</td>
+                                <td className="p-3 text-gray-700">{portfolioName(intent.portfolioId)}</td>
+                                <td className="p-3 text-gray-700">
+                                    <span className="font-mono">#{intent.row.rowNumber}</span>
+                                    <span className="block text-[10px] text-gray-500">{intent.row.timestamp}</span>
+                                </td>
+                                <td className={`p-3 font-semibold ${intent.row.decision === 'BUY' ? 'text-green-600' : 'text-red-600'}`}>
+                                    {intent.row.decision} {intent.row.asset}
+                                    <span className="block text-[10px] font-normal text-gray-500">{intent.confidence.toFixed(0)}% vs {intent.threshold}%</span>
+                                </td>
+                                <td className="p-3 text-gray-700">{intent.actions.length > 0 ? intent.actions.map(a => ACTION_LABELS[a]).join(', ') : '—'}</td>
+                                <td className="p-3"><span className={`px-2 py-1 text-xs font-semibold rounded-md ${STATUS_STYLES[intent.status]}`}>{intent.status}</span></td>
+                                <td className="p-3 text-xs text-gray-600">{intent.reason}</td>
+                            </tr>
+                        )) : <tr><td colSpan={7} className="text-center p-4 text-gray-500">No pipeline signals have cleared a threshold yet.</td></tr>}
+                    </tbody>
+                </table>
+            </div>
+            {intents.length > 0 && (
+                <button onClick={() => pipelineExecutionService.clearIntents()} className="text-xs text-gray-500 hover:text-red-600 hover:underline">Clear log</button>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { tradeSimulatorService, PendingOrder } from '../services/tradeSimulatorService';
+import { TrashIcon } from './Icons';
+
+const formatCurrency = (value: number | null | undefined) => {
+    if (value === null || value === undefined || !isFinite(value)) {
+        return '$0.00';
+    }
+    const fractionDigits = (Math.abs(value) > 0 && Math.abs(value) < 1) ? 6 : 2;
+    return value.toLocaleString('en-US', {
+        style: 'currency',
+        currency: 'USD',
+        minimumFractionDigits: 2,
+        maximumFractionDigits: Math.max(2, fractionDigits)
+    });
+};
+
+// Converts a timestamp to the value format expected by <input type="datetime-local">.
+const toDateTimeLocal = (timestamp: number) => {
+    const d = new Date(timestamp);
+    d.setMinutes(d.getMinutes() - d.getTimezoneOffset());
+    return d.toISOString().slice(0, 16);
+};
+
+const PendingOrderRow: React.FC<{ order: PendingOrder; livePrice?: number; compact?: boolean }> = ({ order, livePrice, compact }) => {
+    const [isEditing, setIsEditing] = useState(false);
+    const [triggerPrice, setTriggerPrice] = useState(order.triggerPrice.toString());
+    const [expiresAt, setExpiresAt] = useState(order.expiresAt ? toDateTimeLocal(order.expiresAt) : '');
+
+    const isBuy = order.direction === 'buy';
+
+    const handleSave = () => {
+        const price = parseFloat(triggerPrice);
+        const expiry = expiresAt ? new Date(expiresAt).getTime() : null;
+        tradeSimulatorService.amendOrder(order.id, {
+            triggerPrice: isNaN(price) ? undefined : price,
+            timeInForce: expiry ? 'GTD' : 'GTC',
+            expiresAt: expiry,
+        });
+        setIsEditing(false);
+    };
+
+    const handleCancelEdit = () => {
+        setTriggerPrice(order.triggerPrice.toString());
+        setExpiresAt(order.expiresAt ? toDateTimeLocal(order.expiresAt) : '');
+        setIsEditing(false);
+    };
+
+    return (
+        <tr className="border-b border-gray-200 hover:bg-gray-50">
+            <td className="p-2 font-bold text-gray-800">{order.coin.symbol}</td>
+            <td className="p-2">
+                <span className={`font-semibold ${isBuy ? 'text-green-700' : 'text-red-700'}`}>{order.type.toUpperCase()} {order.direction.toUpperCase()}</span>
+            </td>
+            <td className="p-2 font-mono text-gray-700">
+                {isEditing ? (
+                    <input type="number" value={triggerPrice} onChange={e => setTriggerPrice(e.target.value)} step="any" min="0" className="w-28 bg-white border border-gray-300 rounded-md p-1 text-gray-800 focus:outline-none focus:ring-1 focus:ring-purple-500" />
+                ) : formatCurrency(order.triggerPrice)}
+            </td>
+            {!compact && <td className="p-2 font-mono text-gray-500">{livePrice !== undefined ? formatCurrency(livePrice) : '—'}</td>}
+            <td className="p-2 text-gray-500 text-xs">
+                {isEditing ? (
+                    <input type="datetime-local" value={expiresAt} onChange={e => setExpiresAt(e.target.value)} className="bg-white border border-gray-300 rounded-md p-1 text-gray-800 focus:outline-none focus:ring-1 focus:ring-purple-500" />
+                ) : order.timeInForce === 'GTD' && order.expiresAt ? new Date(order.expiresAt).toLocaleString() : 'GTC'}
+            </td>
+            <td className="p-2 text-right whitespace-nowrap">
+                {isEditing ? (
+                    <>
+                        <button onClick={handleSave} className="px-2 py-1 text-xs font-semibold text-white bg-purple-600 hover:bg-purple-700 rounded-md mr-1">Save</button>
+                        <button onClick={handleCancelEdit} className="px-2 py-1 text-xs font-semibold text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md">Back</button>
+                    </>
+                ) : (
+                    <>
+                        <button onClick={() => setIsEditing(true)} className="px-2 py-1 text-xs font-semibold text-purple-700 bg-purple-100 hover:bg-purple-200 rounded-md mr-1">Amend</button>
+                        <button onClick={() => tradeSimulatorService.cancelOrder(order.id)} className="p-1.5 text-gray-500 hover:text-red-500 hover:bg-gray-100 rounded-full align-middle" aria-label={`Cancel ${order.coin.symbol} order`}>
+                            <TrashIcon className="w-4 h-4" />
+                        </button>
+                    </>
+                )}
+            </td>
+        </tr>
+    );
+};
+
+interface PendingOrdersTableProps {
+    orders: PendingOrder[];
+    livePrices?: Map<string, number>;
+    compact?: boolean; // Hides the live price column for narrow layouts
+}
+
+export const PendingOrdersTable: React.FC<PendingOrdersTableProps> = ({ orders, livePrices, compact = false }) => (
+    <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left">
+            <thead className="bg-gray-50 text-xs text-gray-500 uppercase sticky top-0">
+                <tr>
+                    <th className="p-2">Asset</th>
+                    <th className="p-2">Order</th>
+                    <th className="p-2">Trigger</th>
+                    {!compact && <th className="p-2">Live</th>}
+                    <th className="p-2">Expires</th>
+                    <th className="p-2 text-right">Actions</th>
+                </tr>
+            </thead>
+            <tbody>
+                {orders.length > 0 ? orders.map(order => (
+                    <PendingOrderRow key={order.id} order={order} livePrice={livePrices?.get(order.coin.id)} compact={compact} />
+                )) : (
+                    <tr><td colSpan={compact ? 5 : 6} className="text-center p-4 text-gray-500">No pending orders.</td></tr>
+                )}
+            </tbody>
+        </table>
+    </div>
+);
@@ -0,0 +1,218 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { tradeSimulatorService } from '../services/tradeSimulatorService';
+import { getPerformanceReport, DateRange, GroupStats, PerformanceReport } from '../services/performanceAnalyticsService';
+import { EquityCurveChart } from './EquityCurveChart';
+
+const formatCurrency = (value: number | null | undefined) => {
+    if (value === null || value === undefined || !isFinite(value)) {
+        return '$0.00';
+    }
+    return value.toLocaleString('en-US', {
+        style: 'currency',
+        currency: 'USD',
+        minimumFractionDigits: 2,
+        maximumFractionDigits: 2
+    });
+};
+
+const formatDuration = (milliseconds: number | null | undefined): string => {
+    if (milliseconds === null || milliseconds === undefined || milliseconds <= 0) return 'N/A';
+
+    let seconds = Math.floor(milliseconds / 1000);
+    const days = Math.floor(seconds / (3600 * 24));
+    seconds -= days * 3600 * 24;
+    const hours = Math.floor(seconds / 3600);
+    seconds -= hours * 3600;
+    const minutes = Math.floor(seconds / 60);
+
+    if (days > 0) {
+        return `${days}d ${hours}h`;
+    }
+    if (hours > 0) {
+        return `${hours}h ${minutes}m`;
+    }
+    return `${minutes}m`;
+};
+
+const formatRatio = (value: number | null) => value === null ? 'N/A' : value.toFixed(2);
+
+// Converts between <input type="date"> values and local-midnight timestamps.
+const toDateInput = (timestamp: number | null) => {
+    if (timestamp === null) return '';
+    const d = new Date(timestamp);
+    d.setMinutes(d.getMinutes() - d.getTimezoneOffset());
+    return d.toISOString().slice(0, 10);
+};
+const fromDateInput = (value: string, endOfDay: boolean): number | null => {
+    if (!value) return null;
+    const [year, month, day] = value.split('-').map(Number);
+    return endOfDay ? new Date(year, month - 1, day, 23, 59, 59, 999).getTime() : new Date(year, month - 1, day).getTime();
+};
+
+const RANGE_PRESETS: { label: string; days: number | null }[] = [
+    { label: '7D', days: 7 },
+    { label: '30D', days: 30 },
+    { label: '90D', days: 90 },
+    { label: 'All', days: null },
+];
+
+const MetricCard: React.FC<{ title: string; value: string; description: string; valueClass?: string }> = ({ title, value, description, valueClass = 'text-gray-800' }) => (
+    <div className="bg-white p-4 rounded-lg border border-gray-200 shadow-sm">
+        <p className="text-sm text-gray-500">{title}</p>
+        <p className={`text-2xl font-bold mt-1 ${valueClass}`}>{value}</p>
+        <p className="text-xs text-gray-600 mt-1">{description}</p>
+    </div>
+);
+
+const WinRateChart: React.FC<{ groups: GroupStats[] }> = ({ groups }) => {
+    const chartCanvasRef = useRef<HTMLCanvasElement>(null);
+    const chartInstanceRef = useRef<any>(null);
+
+    useEffect(() => {
+        if (chartInstanceRef.current) {
+            chartInstanceRef.current.destroy();
+        }
+        if (chartCanvasRef.current && window.Chart) {
+            const ctx = chartCanvasRef.current.getContext('2d');
+            if (ctx) {
+                chartInstanceRef.current = new window.Chart(ctx, {
+                    type: 'bar',
+                    data: {
+                        labels: groups.map(g => g.key),
+                        datasets: [{
+                            label: 'Win Rate',
+                            data: groups.map(g => g.winRate),
+                            backgroundColor: groups.map(g => g.netPnl >= 0 ? 'rgba(34, 197, 94, 0.6)' : 'rgba(239, 68, 68, 0.6)'),
+                            borderRadius: 4,
+                        }],
+                    },
+                    options: {
+                        responsive: true,
+                        maintainAspectRatio: false,
+                        scales: {
+                            x: { grid: { display: false }, ticks: { color: '#6b7280' } },
+                            y: { min: 0, max: 100, grid: { color: 'rgba(0, 0, 0, 0.05)' }, ticks: { color: '#6b7280', callback: (value: any) => `${value}%` } },
+                        },
+                        plugins: {
+                            legend: { display: false },
+                            tooltip: {
+                                backgroundColor: '#ffffff',
+                                titleColor: '#1f2937',
+                                bodyColor: '#4b5563',
+                                borderColor: '#e5e7eb',
+                                borderWidth: 1,
+                                callbacks: {
+                                    label: (item: any) => {
+                                        const group = groups[item.dataIndex];
+                                        return `${group.winRate.toFixed(1)}% of ${group.trades} trades · ${formatCurrency(group.netPnl)}`;
+                                    }
+                                }
+                            }
+                        }
+                    }
+                });
+            }
+        }
+        return () => {
+            if (chartInstanceRef.current) chartInstanceRef.current.destroy();
+        };
+    }, [groups]);
+
+    return <div className="h-48 w-full"><canvas ref={chartCanvasRef}></canvas></div>;
+};
+
+const BreakdownPanel: React.FC<{ title: string; groups: GroupStats[] }> = ({ title, groups }) => (
+    <div className="bg-white p-4 rounded-lg border border-gray-200 shadow-sm">
+        <h3 className="text-lg font-bold text-purple-700 mb-3">{title}</h3>
+        {groups.length > 0 ? (
+            <>
+                <WinRateChart groups={groups} />
+                <table className="w-full text-sm text-left mt-3">
+                    <thead className="text-xs text-gray-500 uppercase">
+                        <tr><th className="p-2"></th><th className="p-2 text-right">Trades</th><th className="p-2 text-right">Win Rate</th><th className="p-2 text-right">Net P/L</th></tr>
+                    </thead>
+                    <tbody>
+                        {groups.map(group => (
+                            <tr key={group.key} className="border-t border-gray-200">
+                                <td className="p-2 font-semibold text-gray-800">{group.key}</td>
+                                <td className="p-2 text-right font-mono text-gray-700">{group.trades}</td>
+                                <td className="p-2 text-right font-mono text-gray-700">{group.winRate.toFixed(1)}%</td>
+                                <td className={`p-2 text-right font-mono ${group.netPnl >= 0 ? 'text-green-600' : 'text-red-600'}`}>{formatCurrency(group.netPnl)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </>
+        ) : <p className="text-sm text-gray-500 text-center py-4">No closed trades in this range.</p>}
+    </div>
+);
+
+export const PerformanceAnalytics: React.FC = () => {
+    const [range, setRange] = useState<DateRange>({ from: null, to: null });
+    const [report, setReport] = useState<PerformanceReport>(() => getPerformanceReport(range));
+
+    useEffect(() => {
+        const updateReport = () => setReport(getPerformanceReport(range));
+        tradeSimulatorService.subscribe(updateReport);
+        updateReport();
+        return () => tradeSimulatorService.unsubscribe(updateReport);
+    }, [range]);
+
+    const equitySeries = useMemo(() => [{
+        label: 'Equity',
+        points: report.equityCurve,
+        color: 'rgba(168, 85, 247, 1)', // purple-500
+    }], [report]);
+
+    const applyPreset = (days: number | null) => {
+        setRange({ from: days === null ? null : Date.now() - days * 24 * 60 * 60 * 1000, to: null });
+    };
+
+    const returnPercent = report.startingEquity > 0 ? ((report.endingEquity - report.startingEquity) / report.startingEquity) * 100 : 0;
+    const pnlClass = report.netPnl >= 0 ? 'text-green-600' : 'text-red-600';
+
+    return (
+        <div className="w-full h-full flex flex-col bg-white rounded-lg shadow-xl border border-gray-200 overflow-hidden">
+            <div className="p-4 border-b border-gray-200 flex flex-col md:flex-row md:items-center justify-between gap-3">
+                <div>
+                    <h2 className="text-xl font-semibold text-gray-900">Performance</h2>
+                    <p className="text-sm text-gray-500">Analytics for simulated trades closed in the selected range, net of fees and funding.</p>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                    {RANGE_PRESETS.map(preset => (
+                        <button key={preset.label} onClick={() => applyPreset(preset.days)} className="px-3 py-1.5 text-sm font-semibold rounded-lg bg-gray-100 hover:bg-gray-200 text-gray-700">
+                            {preset.label}
+                        </button>
+                    ))}
+                    <input type="date" aria-label="From date" value={toDateInput(range.from)} onChange={e => setRange(r => ({ ...r, from: fromDateInput(e.target.value, false) }))} className="bg-gray-100 border border-gray-300 rounded-lg p-1.5 text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500" />
+                    <span className="text-gray-500 text-sm">to</span>
+                    <input type="date" aria-label="To date" value={toDateInput(range.to)} onChange={e => setRange(r => ({ ...r, to: fromDateInput(e.target.value, true) }))} className="bg-gray-100 border border-gray-300 rounded-lg p-1.5 text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500" />
+                </div>
+            </div>
+            <div className="flex-1 p-4 overflow-y-auto bg-gray-50 space-y-6">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    <MetricCard title="Net P/L" value={formatCurrency(report.netPnl)} valueClass={pnlClass} description={`${returnPercent >= 0 ? '+' : ''}${returnPercent.toFixed(2)}% on ${formatCurrency(report.startingEquity)} starting equity.`} />
+                    <MetricCard title="Trades" value={report.tradeCount.toString()} description={`${report.winRate.toFixed(1)}% win rate.`} />
+                    <MetricCard title="Profit Factor" value={formatRatio(report.profitFactor)} description={`${formatCurrency(report.grossProfit)} won / ${formatCurrency(report.grossLoss)} lost.`} />
+                    <MetricCard title="Expectancy" value={formatCurrency(report.expectancy)} description={`Avg win ${formatCurrency(report.avgWin)}, avg loss ${formatCurrency(report.avgLoss)}.`} />
+                    <MetricCard title="Max Drawdown" value={`${report.maxDrawdownPercent.toFixed(2)}%`} valueClass="text-red-600" description={`${formatCurrency(report.maxDrawdown)} from peak.`} />
+                    <MetricCard title="Drawdown Duration" value={formatDuration(report.maxDrawdownDurationMs)} description="Longest time below a previous equity high." />
+                    <MetricCard title="Sharpe / Sortino" value={`${formatRatio(report.sharpeRatio)} / ${formatRatio(report.sortinoRatio)}`} description="Annualized from daily equity returns." />
+                    <MetricCard title="Avg Hold Time" value={formatDuration(report.avgHoldMs)} description="Open to final close." />
+                </div>
+
+                <div className="bg-white p-4 rounded-lg border border-gray-200 shadow-sm">
+                    <h3 className="text-lg font-bold text-purple-700 mb-4">Equity Curve</h3>
+                    <EquityCurveChart series={equitySeries} />
+                </div>
+
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                    <BreakdownPanel title="Win Rate by Close Reason" groups={report.byCloseReason} />
+                    <BreakdownPanel title="Win Rate by Asset" groups={report.byAsset} />
+                    <BreakdownPanel title="Win Rate by Direction" groups={report.byDirection} />
+                    <BreakdownPanel title="Win Rate by Investment Style" groups={report.byInvestmentStyle} />
+                </div>
+            </div>
+        </div>
+    );
+};
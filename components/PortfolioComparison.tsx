@@ -0,0 +1,92 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { tradeSimulatorService, PortfolioSummary } from '../services/tradeSimulatorService';
+import { EquityCurveChart } from './EquityCurveChart';
+
+const PORTFOLIO_COLORS = [
+    'rgba(168, 85, 247, 1)', // purple-500
+    'rgba(59, 130, 246, 1)', // blue-500
+    'rgba(34, 197, 94, 1)', // green-500
+    'rgba(249, 115, 22, 1)', // orange-500
+    'rgba(236, 72, 153, 1)', // pink-500
+    'rgba(20, 184, 166, 1)', // teal-500
+];
+
+const formatCurrency = (value: number | null | undefined) => {
+    if (value === null || value === undefined || !isFinite(value)) {
+        return '$0.00';
+    }
+    return value.toLocaleString('en-US', {
+        style: 'currency',
+        currency: 'USD',
+        minimumFractionDigits: 2,
+        maximumFractionDigits: 2
+    });
+};
+
+// Return on everything deposited, so portfolios with different starting capital compare fairly.
+const returnPercent = ({ account }: PortfolioSummary) => account.totalDeposits > 0 ? ((account.equity - account.totalDeposits) / account.totalDeposits) * 100 : 0;
+
+export const PortfolioComparison: React.FC = () => {
+    const [summaries, setSummaries] = useState<PortfolioSummary[]>([]);
+    const [activeId, setActiveId] = useState(tradeSimulatorService.getActivePortfolio().id);
+
+    useEffect(() => {
+        const updateSummaries = () => {
+            setSummaries(tradeSimulatorService.getPortfolioSummaries());
+            setActiveId(tradeSimulatorService.getActivePortfolio().id);
+        };
+        tradeSimulatorService.subscribe(updateSummaries);
+        updateSummaries();
+        return () => tradeSimulatorService.unsubscribe(updateSummaries);
+    }, []);
+
+    const series = useMemo(() => summaries.map((summary, index) => ({
+        label: summary.portfolio.name,
+        points: summary.equityCurve,
+        color: PORTFOLIO_COLORS[index % PORTFOLIO_COLORS.length],
+    })), [summaries]);
+
+    if (summaries.length < 2) {
+        return <p className="text-sm text-gray-500">Create a second portfolio to compare strategies side by side on the same live feed.</p>;
+    }
+
+    return (
+        <div className="space-y-4">
+            <EquityCurveChart series={series} heightClass="h-72" />
+            <div className="overflow-x-auto">
+                <table className="w-full text-sm text-left">
+                    <thead className="bg-gray-50 text-xs text-gray-500 uppercase">
+                        <tr>
+                            <th className="p-3">Portfolio</th><th className="p-3">Strategy</th><th className="p-3">Equity</th><th className="p-3">Return</th><th className="p-3">Realized P/L</th><th className="p-3">Win Rate</th><th className="p-3">Open</th><th className="p-3 text-center">Actions</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {summaries.map((summary, index) => {
+                            const ret = returnPercent(summary);
+                            const isActive = summary.portfolio.id === activeId;
+                            return (
+                                <tr key={summary.portfolio.id} className="border-b border-gray-200">
+                                    <td className="p-3 font-semibold text-gray-800 whitespace-nowrap">
+                                        <span className="inline-block w-3 h-3 rounded-full mr-2 align-middle" style={{ backgroundColor: PORTFOLIO_COLORS[index % PORTFOLIO_COLORS.length] }} />
+                                        {summary.portfolio.name}
+                                    </td>
+                                    <td className="p-3 text-gray-600">{summary.settings.riskTolerance} {summary.settings.investmentStyle}</td>
+                                    <td className="p-3 font-mono text-gray-800">{formatCurrency(summary.account.equity)}</td>
+                                    <td className={`p-3 font-mono ${ret >= 0 ? 'text-green-600' : 'text-red-600'}`}>{ret >= 0 ? '+' : ''}{ret.toFixed(2)}%</td>
+                                    <td className={`p-3 font-mono ${summary.account.realizedPnl >= 0 ? 'text-green-600' : 'text-red-600'}`}>{formatCurrency(summary.account.realizedPnl)}</td>
+                                    <td className="p-3 text-gray-700">{summary.closedTrades > 0 ? `${summary.winRate.toFixed(1)}% of ${summary.closedTrades}` : '—'}</td>
+                                    <td className="p-3 text-gray-700">{summary.openPositions}</td>
+                                    <td className="p-3 text-center">
+                                        {isActive
+                                            ? <span className="text-xs text-gray-500">Viewing</span>
+                                            : <button onClick={() => tradeSimulatorService.setActivePortfolio(summary.portfolio.id)} className="px-3 py-1 text-xs font-semibold rounded-md bg-gray-100 hover:bg-gray-200 text-gray-700">View</button>}
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
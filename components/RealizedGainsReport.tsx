@@ -0,0 +1,128 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { tradeSimulatorService, Trade } from '../services/tradeSimulatorService';
+import { computeTaxLots, summarizeGainsByYear, exportRealizedGainsCsv, TaxLotMethod, TAX_LOT_METHOD_LABELS } from '../services/taxLotService';
+
+const formatCurrency = (value: number | null | undefined) => {
+    if (value === null || value === undefined || !isFinite(value)) {
+        return '$0.00';
+    }
+    return value.toLocaleString('en-US', {
+        style: 'currency',
+        currency: 'USD',
+        minimumFractionDigits: 2,
+        maximumFractionDigits: 2
+    });
+};
+
+const gainColor = (value: number) => value >= 0 ? 'text-green-600' : 'text-red-600';
+
+const Stat: React.FC<{ label: string; value: number }> = ({ label, value }) => (
+    <div className="bg-gray-50 border border-gray-200 rounded-lg p-3">
+        <p className="text-xs text-gray-500">{label}</p>
+        <p className={`text-lg font-bold font-mono ${gainColor(value)}`}>{formatCurrency(value)}</p>
+    </div>
+);
+
+export const RealizedGainsReport: React.FC = () => {
+    const [trades, setTrades] = useState<Trade[]>([]);
+    const [method, setMethod] = useState<TaxLotMethod>(tradeSimulatorService.getSettings().taxLotMethod);
+    const [year, setYear] = useState<number | null>(null);
+
+    useEffect(() => {
+        const update = () => {
+            setTrades([...tradeSimulatorService.getAllTrades()]);
+            setMethod(tradeSimulatorService.getSettings().taxLotMethod);
+        };
+        tradeSimulatorService.subscribe(update);
+        update();
+        return () => tradeSimulatorService.unsubscribe(update);
+    }, []);
+
+    const report = useMemo(() => computeTaxLots(trades, method), [trades, method]);
+    const years = useMemo(() => summarizeGainsByYear(report.realized), [report]);
+    const selected = years.find(y => y.year === year) ?? years[0];
+    const realizedInYear = selected ? report.realized.filter(gain => new Date(gain.disposedAt).getFullYear() === selected.year) : [];
+
+    const handleExport = () => {
+        if (!selected) return;
+        const blob = new Blob([exportRealizedGainsCsv(realizedInYear, method)], { type: 'text/csv' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `jaxspot-realized-gains-${selected.year}-${method}.csv`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    return (
+        <div className="space-y-4">
+            <p className="text-sm text-gray-500">
+                Every long entry is a tax lot; sales draw on the lots of the same asset by the chosen method, across trades.
+                Lots held more than a year are long term. Shorts are always short term, and funding is left out.
+            </p>
+            <div className="flex flex-wrap gap-3 items-end">
+                <div>
+                    <label htmlFor="taxLotMethod" className="block text-sm font-medium text-gray-700 mb-1">Lot Method</label>
+                    <select id="taxLotMethod" value={method} onChange={e => tradeSimulatorService.updateSettings({ taxLotMethod: e.target.value as TaxLotMethod })} className="bg-gray-100 border border-gray-300 rounded-lg p-2 text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500">
+                        {(Object.keys(TAX_LOT_METHOD_LABELS) as TaxLotMethod[]).map(m => <option key={m} value={m}>{TAX_LOT_METHOD_LABELS[m]}</option>)}
+                    </select>
+                </div>
+                {years.length > 0 && (
+                    <div>
+                        <label htmlFor="taxYear" className="block text-sm font-medium text-gray-700 mb-1">Tax Year</label>
+                        <select id="taxYear" value={selected?.year} onChange={e => setYear(parseInt(e.target.value, 10))} className="bg-gray-100 border border-gray-300 rounded-lg p-2 text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500">
+                            {years.map(y => <option key={y.year} value={y.year}>{y.year}</option>)}
+                        </select>
+                    </div>
+                )}
+                <button onClick={handleExport} disabled={!selected} className="px-4 py-2 bg-gray-100 border border-gray-300 text-gray-800 font-semibold rounded-lg hover:bg-gray-200 disabled:opacity-50">
+                    Export CSV
+                </button>
+            </div>
+            {selected ? (
+                <>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                        <Stat label="Short-Term Gain" value={selected.shortTermGain} />
+                        <Stat label="Long-Term Gain" value={selected.longTermGain} />
+                        <Stat label="Net Realized Gain" value={selected.netGain} />
+                        <div className="bg-gray-50 border border-gray-200 rounded-lg p-3">
+                            <p className="text-xs text-gray-500">Proceeds / Basis</p>
+                            <p className="text-sm font-mono text-gray-800">{formatCurrency(selected.proceeds)}</p>
+                            <p className="text-sm font-mono text-gray-500">{formatCurrency(selected.costBasis)}</p>
+                        </div>
+                    </div>
+                    <div className="overflow-x-auto max-h-80 overflow-y-auto">
+                        <table className="w-full text-sm text-left">
+                            <thead className="bg-gray-50 text-xs text-gray-500 uppercase sticky top-0">
+                                <tr>
+                                    <th className="p-3">Asset</th><th className="p-3">Quantity</th><th className="p-3">Acquired</th><th className="p-3">Sold</th><th className="p-3">Proceeds</th><th className="p-3">Basis</th><th className="p-3">Gain</th><th className="p-3">Term</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {realizedInYear.map((gain, index) => (
+                                    <tr key={`${gain.lotId}-${gain.disposedTradeId}-${index}`} className="border-b border-gray-200">
+                                        <td className="p-3 font-semibold text-gray-800">{gain.asset}{gain.isShortSale && <span className="ml-1 text-[10px] font-normal text-red-600">short</span>}</td>
+                                        <td className="p-3 font-mono text-gray-700">{Number(gain.quantity.toFixed(8))}</td>
+                                        <td className="p-3 text-gray-500 whitespace-nowrap">{new Date(gain.acquiredAt).toLocaleDateString()}</td>
+                                        <td className="p-3 text-gray-500 whitespace-nowrap">{new Date(gain.disposedAt).toLocaleDateString()}</td>
+                                        <td className="p-3 font-mono text-gray-700">{formatCurrency(gain.proceeds)}</td>
+                                        <td className="p-3 font-mono text-gray-700">{formatCurrency(gain.costBasis)}</td>
+                                        <td className={`p-3 font-mono ${gainColor(gain.gain)}`}>{formatCurrency(gain.gain)}</td>
+                                        <td className="p-3 text-gray-700">{gain.term === 'long' ? 'Long' : 'Short'}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </>
+            ) : (
+                <p className="text-sm text-gray-500">No sales yet. Gains appear here once a position is reduced or closed.</p>
+            )}
+            {report.openLots.length > 0 && (
+                <p className="text-xs text-gray-500">
+                    {report.openLots.length} open lot{report.openLots.length === 1 ? '' : 's'} with {formatCurrency(report.openLots.reduce((acc, lot) => acc + lot.costBasis, 0))} of remaining basis.
+                </p>
+            )}
+        </div>
+    );
+};
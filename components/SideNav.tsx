@@ -2,7 +2,7 @@ import React, { useState } from 'react';
 import {
     CloseIcon, ChartBarIcon, DatabaseIcon, PipelineIcon, LineChartIcon, WalletIcon, RewindIcon,
     LightbulbIcon, BeakerIcon, BellIcon, FlowChartIcon, GlobeIcon, BitcoinIcon, DollarIcon, LockIcon,
-    ChevronDownIcon, ChevronUpIcon, SettingsIcon
+    ChevronDownIcon, ChevronUpIcon, SettingsIcon, TrendingUpIcon
 } from './Icons';
 import type { ActiveView } from '../App';
 import { Logo } from './Logo';
@@ -68,6 +68,7 @@ const navItems = [
             { view: 'signalLab', label: 'Signal Lab', icon: <FlowChartIcon /> },
             { view: 'signals', label: 'Jax Signals', icon: <BellIcon /> },
             { view: 'wallet', label: 'Simulated Wallet', icon: <WalletIcon /> },
+            { view: 'performance', label: 'Performance', icon: <TrendingUpIcon /> },
         ],
     },
     {
@@ -1,8 +1,21 @@
-import React, { useState, useEffect } from 'react';
-import { tradeSimulatorService, Trade, WalletSettings } from '../services/tradeSimulatorService';
-import { CloseIcon, LineChartIcon } from './Icons';
+import React, { useState, useEffect, useMemo } from 'react';
+import { tradeSimulatorService, Trade, WalletSettings, AccountSummary, LedgerEntry, PendingOrder, RejectedOrder, RiskRule, RiskStatus, DuplicateTradeMode, Portfolio } from '../services/tradeSimulatorService';
+import { exportTradesToCsv, exportTradesToJson, parseTradeImport, TradeExportFormat, TradeImportError, TRADE_CSV_COLUMNS } from '../services/tradeExportService';
+import { CloseIcon, LineChartIcon, SettingsIcon } from './Icons';
 import { CryptoChartModal } from './CryptoChartModal';
-import { LoadingSpinner } from './LoadingSpinner';
+import { EquityCurveChart } from './EquityCurveChart';
+import { PendingOrdersTable } from './PendingOrdersTable';
+import { TradeManageModal } from './TradeManageModal';
+import { TradeJournal } from './TradeJournal';
+import { PortfolioComparison } from './PortfolioComparison';
+import { StrategyReplay } from './StrategyReplay';
+import { WebhookDeliveryLog } from './WebhookDeliveryLog';
+import { OrderIntentLog } from './OrderIntentLog';
+import { RealizedGainsReport } from './RealizedGainsReport';
+import { WebhookEndpoints } from './WebhookEndpoints';
+import { SIZING_MODE_LABELS, SizingMode } from '../services/positionSizingService';
+import { FEE_VENUE_LABELS, FeeVenue, getFeeTier } from '../services/executionCostService';
+import { PIPELINE_SELL_POLICY_LABELS } from '../services/pipelineExecutionService';
 
 
 const formatCurrency = (value: number | null | undefined) => {
@@ -60,6 +73,18 @@ const CloseReasonPill: React.FC<{ reason: Trade['closeReason'] }> = ({ reason })
         colors = 'bg-red-100 text-red-700';
     } else if (reason === 'Time Limit') {
         colors = 'bg-yellow-100 text-yellow-700';
+    } else if (reason === 'Scale Out') {
+        colors = 'bg-emerald-100 text-emerald-700';
+    } else if (reason === 'Trailing Stop') {
+        colors = 'bg-orange-100 text-orange-700';
+    } else if (reason === 'Breakeven Stop') {
+        colors = 'bg-blue-100 text-blue-700';
+    } else if (reason === 'Manual Close') {
+        colors = 'bg-purple-100 text-purple-700';
+    } else if (reason === 'Signal Exit') {
+        colors = 'bg-indigo-100 text-indigo-700';
+    } else if (reason === 'Liquidation') {
+        colors = 'bg-red-200 text-red-900';
     }
 
     return (
@@ -69,11 +94,45 @@ const CloseReasonPill: React.FC<{ reason: Trade['closeReason'] }> = ({ reason })
     );
 };
 
+const PartialFillsSummary: React.FC<{ trade: Trade }> = ({ trade }) => {
+    const fills = trade.partialFills ?? [];
+    const pendingLevels = (trade.exitRules?.ladder ?? []).filter(l => !l.filled);
+    if (fills.length === 0 && pendingLevels.length === 0) return null;
+    return (
+        <div className="flex flex-wrap gap-1 mt-1">
+            {fills.map(fill => (
+                <span key={fill.label} className="px-1.5 py-0.5 text-[10px] font-semibold rounded bg-emerald-100 text-emerald-700" title={`${new Date(fill.timestamp).toLocaleString()} · P/L ${formatCurrency(fill.pnl)}`}>
+                    {fill.label}: {(fill.fraction * 100).toFixed(0)}% @ {formatCurrency(fill.price)}
+                </span>
+            ))}
+            {pendingLevels.map(level => (
+                <span key={level.label} className="px-1.5 py-0.5 text-[10px] font-semibold rounded bg-gray-100 text-gray-600">
+                    {level.label}: {(level.fraction * 100).toFixed(0)}% @ {formatCurrency(level.price)}
+                </span>
+            ))}
+        </div>
+    );
+};
+
+// P/L already includes slippage, since it is in the fill prices, but not fees.
+const CostBreakdown: React.FC<{ trade: Trade }> = ({ trade }) => {
+    const fees = (trade.entryFee ?? 0) + (trade.exitFee ?? 0);
+    const slippage = (trade.entrySlippage ?? 0) + (trade.exitSlippage ?? 0);
+    if (fees === 0 && slippage === 0) return null;
+    const pnl = trade.pnl ?? 0;
+    return (
+        <span className="block text-[10px] text-gray-500 font-sans" title={`Before costs ${formatCurrency(pnl + slippage)} · net of fees ${formatCurrency(pnl - fees)}${trade.feeTier ? ` · ${trade.feeTier} tier` : ''}`}>
+            Fees {formatCurrency(fees)} · Slippage {formatCurrency(slippage)}
+        </span>
+    );
+};
+
 const TradeRow: React.FC<{ 
     trade: Trade; 
     type: 'open' | 'closed'; 
     onViewChart?: () => void;
-}> = ({ trade, type, onViewChart }) => {
+    onManage?: () => void;
+}> = ({ trade, type, onViewChart, onManage }) => {
     const [logoError, setLogoError] = useState(false);
     useEffect(() => { setLogoError(false); }, [trade.coin.symbol]);
 
@@ -81,7 +140,8 @@ const TradeRow: React.FC<{
     const pnl = trade.pnl ?? 0;
     const isProfit = pnl >= 0;
     const pnlColor = isProfit ? 'text-green-600' : 'text-red-600';
-    const pnlPercentage = trade.sizeUSD !== 0 ? (pnl / trade.sizeUSD) * 100 : 0;
+    const margin = trade.marginUSD ?? trade.sizeUSD;
+    const pnlPercentage = margin !== 0 ? (pnl / margin) * 100 : 0;
 
     const commonCells = (
         <>
@@ -105,16 +165,38 @@ const TradeRow: React.FC<{
                     </div>
                 </div>
             </td>
-            <td className="p-3 font-mono text-gray-700">{formatCurrency(trade.sizeUSD)}</td>
+            <td className="p-3 font-mono text-gray-700" title={trade.sizing?.explanation}>
+                {formatCurrency(trade.sizeUSD)}
+                {trade.sizing && <span className="block text-[10px] text-gray-500 font-sans">{SIZING_MODE_LABELS[trade.sizing.mode]}</span>}
+            </td>
             <td className="p-3">
                 <span className={`px-2 py-1 text-xs font-semibold rounded-md ${isBuy ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>
-                    {trade.direction.toUpperCase()}
+                    {trade.direction.toUpperCase()}{(trade.leverage ?? 1) > 1 && ` ${trade.leverage}x`}
                 </span>
             </td>
             <td className="p-3 font-mono text-gray-700">{formatCurrency(trade.entryPrice)}</td>
         </>
     );
 
+    const actionsCell = (
+        <td className="p-3 text-center whitespace-nowrap">
+            <button
+                onClick={(e) => { e.stopPropagation(); onViewChart?.(); }}
+                className="p-2 text-gray-500 hover:text-purple-600 hover:bg-gray-100 rounded-full transition-colors"
+                aria-label={`View chart for ${trade.coin.symbol} trade`}
+            >
+                <LineChartIcon className="w-5 h-5" />
+            </button>
+            <button
+                onClick={(e) => { e.stopPropagation(); onManage?.(); }}
+                className="p-2 text-gray-500 hover:text-purple-600 hover:bg-gray-100 rounded-full transition-colors"
+                aria-label={`${type === 'open' ? 'Manage' : 'View history of'} ${trade.coin.symbol} trade`}
+            >
+                <SettingsIcon className="w-5 h-5" />
+            </button>
+        </td>
+    );
+
     const pnlCell = (
         <td className="p-3 font-mono">
             <div className="flex flex-col">
@@ -122,28 +204,29 @@ const TradeRow: React.FC<{
                 <span className={`text-xs ${pnlColor}`}>
                     ({isProfit ? '+' : ''}{pnlPercentage.toFixed(2)}%)
                 </span>
+                <CostBreakdown trade={trade} />
             </div>
         </td>
     );
 
     if (type === 'open') {
-        const { takeProfitPrice, stopLossPrice } = tradeSimulatorService.getTakeProfitStopLoss(trade);
+        const { takeProfitPrice } = tradeSimulatorService.getTakeProfitStopLoss(trade);
+        const stop = tradeSimulatorService.getEffectiveStop(trade);
         return (
             <tr className="border-b border-gray-200 hover:bg-gray-50 cursor-pointer" onClick={onViewChart}>
                 {commonCells}
-                <td className="p-3 font-mono text-green-600">{formatCurrency(takeProfitPrice)}</td>
-                <td className="p-3 font-mono text-red-600">{formatCurrency(stopLossPrice)}</td>
+                <td className="p-3 font-mono text-green-600">
+                    {formatCurrency(takeProfitPrice)}
+                    <PartialFillsSummary trade={trade} />
+                </td>
+                <td className="p-3 font-mono text-red-600">
+                    {formatCurrency(stop.price)}
+                    {stop.reason !== 'Stop Loss' && <span className="block text-[10px] text-gray-500 font-sans">{stop.reason}</span>}
+                    {trade.liquidationPrice !== undefined && <span className="block text-[10px] text-red-900 font-sans">Liq. {formatCurrency(trade.liquidationPrice)}</span>}
+                </td>
                 {pnlCell}
                 <td className="p-3 text-gray-500 text-sm">{new Date(trade.openTimestamp).toLocaleString()}</td>
-                <td className="p-3 text-center">
-                    <button
-                        onClick={(e) => { e.stopPropagation(); onViewChart?.(); }}
-                        className="p-2 text-gray-500 hover:text-purple-600 hover:bg-gray-100 rounded-full transition-colors"
-                        aria-label={`View chart for ${trade.coin.symbol} trade`}
-                    >
-                        <LineChartIcon className="w-5 h-5" />
-                    </button>
-                </td>
+                {actionsCell}
             </tr>
         );
     }
@@ -155,22 +238,17 @@ const TradeRow: React.FC<{
             {pnlCell}
             <td className="p-3 text-gray-500 text-sm">{new Date(trade.openTimestamp).toLocaleString()}</td>
             <td className="p-3 text-gray-500 text-sm">{trade.closeTimestamp ? new Date(trade.closeTimestamp).toLocaleString() : 'N/A'}</td>
-            <td className="p-3 text-gray-500 text-sm"><CloseReasonPill reason={trade.closeReason} /></td>
-            <td className="p-3 text-gray-500 text-sm font-mono">{formatDuration(trade.closeTimestamp ? trade.closeTimestamp - trade.openTimestamp : null)}</td>
-            <td className="p-3 text-center">
-                <button
-                    onClick={(e) => { e.stopPropagation(); onViewChart?.(); }}
-                    className="p-2 text-gray-500 hover:text-purple-600 hover:bg-gray-100 rounded-full transition-colors"
-                    aria-label={`View chart for ${trade.coin.symbol} trade`}
-                >
-                    <LineChartIcon className="w-5 h-5" />
-                </button>
+            <td className="p-3 text-gray-500 text-sm">
+                <CloseReasonPill reason={trade.closeReason} />
+                <PartialFillsSummary trade={trade} />
             </td>
+            <td className="p-3 text-gray-500 text-sm font-mono">{formatDuration(trade.closeTimestamp ? trade.closeTimestamp - trade.openTimestamp : null)}</td>
+            {actionsCell}
         </tr>
     );
 };
 
-const OpenPositionCard: React.FC<{ trade: Trade; onViewChart: () => void; }> = ({ trade, onViewChart }) => {
+const OpenPositionCard: React.FC<{ trade: Trade; onViewChart: () => void; onManage: () => void; }> = ({ trade, onViewChart, onManage }) => {
     const [logoError, setLogoError] = useState(false);
     useEffect(() => { setLogoError(false); }, [trade.coin.symbol]);
 
@@ -178,8 +256,10 @@ const OpenPositionCard: React.FC<{ trade: Trade; onViewChart: () => void; }> = (
     const isProfit = pnl >= 0;
     const pnlColor = isProfit ? 'text-green-600' : 'text-red-600';
     const isBuy = trade.direction === 'buy';
-    const { takeProfitPrice, stopLossPrice } = tradeSimulatorService.getTakeProfitStopLoss(trade);
-    const pnlPercentage = trade.sizeUSD !== 0 ? (pnl / trade.sizeUSD) * 100 : 0;
+    const { takeProfitPrice } = tradeSimulatorService.getTakeProfitStopLoss(trade);
+    const stop = tradeSimulatorService.getEffectiveStop(trade);
+    const margin = trade.marginUSD ?? trade.sizeUSD;
+    const pnlPercentage = margin !== 0 ? (pnl / margin) * 100 : 0;
     
     return (
         <div className="bg-white rounded-lg border border-gray-200 overflow-hidden shadow-sm">
@@ -199,7 +279,7 @@ const OpenPositionCard: React.FC<{ trade: Trade; onViewChart: () => void; }> = (
                         <div>
                             <p className="font-bold text-gray-900">{trade.coin.name} <span className="text-gray-500">({trade.coin.symbol})</span></p>
                             <span className={`px-2 py-0.5 text-xs font-semibold rounded-md ${isBuy ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>
-                               {trade.direction.toUpperCase()}
+                               {trade.direction.toUpperCase()}{(trade.leverage ?? 1) > 1 && ` ${trade.leverage}x`}
                             </span>
                         </div>
                     </div>
@@ -207,17 +287,29 @@ const OpenPositionCard: React.FC<{ trade: Trade; onViewChart: () => void; }> = (
                         <p className="text-xs text-gray-500">Unrealized P/L</p>
                         <p className={`font-mono font-bold text-lg ${pnlColor}`}>{formatCurrency(pnl)}</p>
                         <p className={`font-mono text-sm ${pnlColor}`}>({isProfit ? '+' : ''}{pnlPercentage.toFixed(2)}%)</p>
+                        <CostBreakdown trade={trade} />
                     </div>
                 </div>
                 <div className="grid grid-cols-2 gap-3 text-sm">
                     <div><span className="text-gray-500">Size:</span> <span className="font-mono text-gray-800">{formatCurrency(trade.sizeUSD)}</span></div>
                     <div><span className="text-gray-500">Entry:</span> <span className="font-mono text-gray-800">{formatCurrency(trade.entryPrice)}</span></div>
                     <div><span className="text-green-600">Take Profit:</span> <span className="font-mono text-gray-800">{formatCurrency(takeProfitPrice)}</span></div>
-                    <div><span className="text-red-600">Stop Loss:</span> <span className="font-mono text-gray-800">{formatCurrency(stopLossPrice)}</span></div>
+                    <div><span className="text-red-600">{stop.reason === 'Stop Loss' ? 'Stop Loss' : stop.reason}:</span> <span className="font-mono text-gray-800">{formatCurrency(stop.price)}</span></div>
+                    {trade.liquidationPrice !== undefined && (
+                        <div className="col-span-2"><span className="text-red-900">Liquidation:</span> <span className="font-mono text-gray-800">{formatCurrency(trade.liquidationPrice)}</span></div>
+                    )}
                 </div>
+                <PartialFillsSummary trade={trade} />
                  <p className="text-xs text-gray-500 pt-2 border-t border-gray-200">Opened: {new Date(trade.openTimestamp).toLocaleString()}</p>
             </div>
-            <div className="p-2 bg-gray-50 border-t border-gray-200 flex items-center justify-end">
+            <div className="p-2 bg-gray-50 border-t border-gray-200 flex items-center justify-end gap-2">
+                 <button
+                    onClick={onManage}
+                    className="flex items-center space-x-2 px-3 py-1.5 text-sm text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md transition-colors"
+                >
+                    <SettingsIcon className="w-4 h-4" />
+                    <span>Manage</span>
+                </button>
                  <button
                     onClick={onViewChart}
                     className="flex items-center space-x-2 px-3 py-1.5 text-sm text-purple-600 bg-purple-100 hover:bg-purple-200 rounded-md transition-colors"
@@ -241,7 +333,8 @@ const ClosedTradeCard: React.FC<{
     const isProfit = pnl >= 0;
     const pnlColor = isProfit ? 'text-green-600' : 'text-red-600';
     const isBuy = trade.direction === 'buy';
-    const pnlPercentage = trade.sizeUSD !== 0 ? (pnl / trade.sizeUSD) * 100 : 0;
+    const margin = trade.marginUSD ?? trade.sizeUSD;
+    const pnlPercentage = margin !== 0 ? (pnl / margin) * 100 : 0;
 
     return (
         <div className="bg-white rounded-lg border border-gray-200 overflow-hidden cursor-pointer shadow-sm" onClick={onViewChart}>
@@ -261,7 +354,7 @@ const ClosedTradeCard: React.FC<{
                         <div>
                             <p className="font-bold text-gray-900">{trade.coin.name} <span className="text-gray-500">({trade.coin.symbol})</span></p>
                              <span className={`px-2 py-0.5 text-xs font-semibold rounded-md ${isBuy ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>
-                                {trade.direction.toUpperCase()}
+                                {trade.direction.toUpperCase()}{(trade.leverage ?? 1) > 1 && ` ${trade.leverage}x`}
                             </span>
                         </div>
                     </div>
@@ -269,6 +362,7 @@ const ClosedTradeCard: React.FC<{
                         <p className="text-xs text-gray-500">Realized P/L</p>
                         <p className={`font-mono font-bold text-lg ${pnlColor}`}>{formatCurrency(pnl)}</p>
                          <p className={`font-mono text-sm ${pnlColor}`}>({isProfit ? '+' : ''}{pnlPercentage.toFixed(2)}%)</p>
+                        <CostBreakdown trade={trade} />
                     </div>
                 </div>
                  <div className="grid grid-cols-2 gap-x-3 gap-y-1 text-sm">
@@ -276,6 +370,7 @@ const ClosedTradeCard: React.FC<{
                     <div><span className="text-gray-500">Reason:</span> <CloseReasonPill reason={trade.closeReason} /></div>
                     <div><span className="text-gray-500">Entry:</span> <span className="font-mono text-gray-800">{formatCurrency(trade.entryPrice)}</span></div>
                     <div><span className="text-gray-500">Close:</span> <span className="font-mono text-gray-800">{formatCurrency(trade.closePrice)}</span></div>
+                    <div className="col-span-2"><PartialFillsSummary trade={trade} /></div>
                     <div className="col-span-2"><span className="text-gray-500">Hold Time:</span> <span className="font-mono text-gray-800">{formatDuration(trade.closeTimestamp ? trade.closeTimestamp - trade.openTimestamp : null)}</span></div>
                 </div>
             </div>
@@ -293,19 +388,106 @@ const ClosedTradeCard: React.FC<{
 };
 
 
+const LEDGER_TYPE_LABELS: Record<LedgerEntry['type'], string> = {
+    deposit: 'Deposit',
+    margin_reserve: 'Margin Reserved',
+    margin_release: 'Margin Released',
+    realized_pnl: 'Realized P/L',
+    fee: 'Fee',
+    funding: 'Funding',
+};
+
+const CashLedger: React.FC<{ ledger: LedgerEntry[] }> = ({ ledger }) => {
+    const recentEntries = [...ledger].sort((a, b) => b.timestamp - a.timestamp).slice(0, 50);
+    return (
+        <div className="overflow-x-auto max-h-72 overflow-y-auto">
+            <table className="w-full text-sm text-left">
+                <thead className="bg-gray-50 text-xs text-gray-500 uppercase sticky top-0">
+                    <tr>
+                        <th className="p-3">Time</th><th className="p-3">Type</th><th className="p-3">Description</th><th className="p-3 text-right">Amount</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {recentEntries.length > 0 ? recentEntries.map(entry => (
+                        <tr key={entry.id} className="border-b border-gray-200">
+                            <td className="p-3 text-gray-500">{new Date(entry.timestamp).toLocaleString()}</td>
+                            <td className="p-3 text-gray-700">{LEDGER_TYPE_LABELS[entry.type]}</td>
+                            <td className="p-3 text-gray-700">{entry.description}</td>
+                            <td className={`p-3 font-mono text-right ${entry.amount >= 0 ? 'text-green-600' : 'text-red-600'}`}>{formatCurrency(entry.amount)}</td>
+                        </tr>
+                    )) : <tr><td colSpan={4} className="text-center p-4 text-gray-500">No ledger entries.</td></tr>}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+const RISK_RULE_LABELS: Record<RiskRule, string> = {
+    max_open_positions: 'Max Open Positions',
+    max_asset_exposure: 'Asset Exposure',
+    max_gross_exposure: 'Gross Exposure',
+    daily_loss_limit: 'Daily Loss Limit',
+    weekly_loss_limit: 'Weekly Loss Limit',
+    insufficient_cash: 'Insufficient Cash',
+    no_position_size: 'No Position Size',
+};
+
+const RejectedOrdersTable: React.FC<{ rejections: RejectedOrder[] }> = ({ rejections }) => (
+    <div className="overflow-x-auto max-h-72 overflow-y-auto">
+        <table className="w-full text-sm text-left">
+            <thead className="bg-gray-50 text-xs text-gray-500 uppercase sticky top-0">
+                <tr>
+                    <th className="p-3">Time</th><th className="p-3">Asset</th><th className="p-3">Size</th><th className="p-3">Rule</th><th className="p-3">Reason</th>
+                </tr>
+            </thead>
+            <tbody>
+                {rejections.length > 0 ? rejections.slice(0, 50).map(rejection => (
+                    <tr key={rejection.id} className="border-b border-gray-200">
+                        <td className="p-3 text-gray-500">{new Date(rejection.timestamp).toLocaleString()}</td>
+                        <td className="p-3 text-gray-700">
+                            <span className="font-semibold">{rejection.symbol}</span> <span className={rejection.direction === 'buy' ? 'text-green-700' : 'text-red-700'}>{rejection.direction.toUpperCase()}</span>
+                            {rejection.signalId && <span className="block text-[10px] text-gray-500">via {rejection.signalId}</span>}
+                        </td>
+                        <td className="p-3 font-mono text-gray-700">{formatCurrency(rejection.sizeUSD)}</td>
+                        <td className="p-3"><span className="px-2 py-1 text-xs font-semibold rounded-md bg-red-100 text-red-700 whitespace-nowrap">{RISK_RULE_LABELS[rejection.rule]}</span></td>
+                        <td className="p-3 text-gray-700">{rejection.reason}</td>
+                    </tr>
+                )) : <tr><td colSpan={5} className="text-center p-4 text-gray-500">No rejected orders.</td></tr>}
+            </tbody>
+        </table>
+    </div>
+);
+
+
 // Main Component
 export const SimulatedWallet: React.FC = () => {
     const [trades, setTrades] = useState<Trade[]>([]);
     const [settings, setSettings] = useState<WalletSettings>(tradeSimulatorService.getSettings());
+    const [account, setAccount] = useState<AccountSummary>(tradeSimulatorService.getAccountSummary());
+    const [ledger, setLedger] = useState<LedgerEntry[]>([]);
+    const [pendingOrders, setPendingOrders] = useState<PendingOrder[]>([]);
+    const [rejections, setRejections] = useState<RejectedOrder[]>([]);
+    const [riskStatus, setRiskStatus] = useState<RiskStatus>(tradeSimulatorService.getRiskStatus());
+    const [portfolios, setPortfolios] = useState<Portfolio[]>([]);
+    const [activePortfolio, setActivePortfolio] = useState<Portfolio>(tradeSimulatorService.getActivePortfolio());
+    const [depositAmount, setDepositAmount] = useState('');
     const [tradeForChart, setTradeForChart] = useState<Trade | null>(null);
-    const [isTestingWebhook, setIsTestingWebhook] = useState(false);
-    const [webhookSuccess, setWebhookSuccess] = useState<boolean | null>(null);
+    const [tradeToManage, setTradeToManage] = useState<string | null>(null);
     const [view, setView] = useState<'open' | 'history'>('open');
+    const [duplicateMode, setDuplicateMode] = useState<DuplicateTradeMode>('skip');
+    const [importResult, setImportResult] = useState<{ message: string; errors: TradeImportError[] } | null>(null);
 
     useEffect(() => {
         const updateState = () => {
             setTrades([...tradeSimulatorService.getAllTrades()]);
             setSettings(tradeSimulatorService.getSettings());
+            setAccount(tradeSimulatorService.getAccountSummary());
+            setLedger([...tradeSimulatorService.getLedger()]);
+            setPendingOrders([...tradeSimulatorService.getPendingOrders()]);
+            setRejections([...tradeSimulatorService.getRejectedOrders()]);
+            setRiskStatus(tradeSimulatorService.getRiskStatus());
+            setPortfolios([...tradeSimulatorService.getPortfolios()]);
+            setActivePortfolio({ ...tradeSimulatorService.getActivePortfolio() });
         };
         tradeSimulatorService.subscribe(updateState);
         updateState();
@@ -315,7 +497,6 @@ export const SimulatedWallet: React.FC = () => {
     const openTrades = trades.filter(t => t.status === 'open');
     const closedTrades = trades.filter(t => t.status === 'closed');
 
-    const totalPnl = closedTrades.reduce((acc, trade) => acc + (trade.pnl ?? 0), 0);
     const winTrades = closedTrades.filter(t => (t.pnl ?? 0) >= 0).length;
     const winRate = closedTrades.length > 0 ? (winTrades / closedTrades.length) * 100 : 0;
 
@@ -323,25 +504,79 @@ export const SimulatedWallet: React.FC = () => {
     // which does not exist on HTMLSelectElement, resolving the TypeScript error.
     const handleSettingsChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
         const { name, value, type } = e.target;
-        const finalValue = type === 'checkbox' ? (e.target as HTMLInputElement).checked : (type === 'range' ? parseFloat(value) : value);
+        const finalValue = type === 'checkbox' ? (e.target as HTMLInputElement).checked : ((type === 'range' || type === 'number') ? parseFloat(value) : value);
+        if (typeof finalValue === 'number' && isNaN(finalValue)) return;
         tradeSimulatorService.updateSettings({ [name]: finalValue });
     };
 
-    const handleTestWebhook = async () => {
-        setIsTestingWebhook(true);
-        setWebhookSuccess(null);
-        await tradeSimulatorService.testWebhook(); // This function now exists in the service
-        // Since we can't get direct feedback from the fetch call in the service,
-        // we'll simulate a success/fail for UI purposes. In a real app, this would be more robust.
-        setTimeout(() => {
-            setIsTestingWebhook(false);
-            if (settings.webhookUrl) {
-                setWebhookSuccess(true);
-                setTimeout(() => setWebhookSuccess(null), 3000);
-            } else {
-                setWebhookSuccess(false);
-            }
-        }, 1500);
+    const trailingVolume = useMemo(() => tradeSimulatorService.getTrailingVolume(), [trades]);
+    const feeTier = getFeeTier(settings.feeVenue, trailingVolume);
+
+    // The ledger changes whenever trades do, so rebuild the curve from it rather than from trades.
+    const equitySeries = useMemo(() => [{
+        label: 'Equity',
+        points: tradeSimulatorService.getEquityCurve(),
+        color: 'rgba(168, 85, 247, 1)', // purple-500
+    }], [ledger, account.equity]);
+
+    const handleDeposit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const amount = parseFloat(depositAmount);
+        if (!isNaN(amount) && amount > 0) {
+            tradeSimulatorService.deposit(amount);
+            setDepositAmount('');
+        }
+    };
+
+    const handleExport = (format: TradeExportFormat) => {
+        const allTrades = tradeSimulatorService.getAllTrades();
+        const content = format === 'csv' ? exportTradesToCsv(allTrades) : exportTradesToJson(allTrades);
+        const blob = new Blob([content], { type: format === 'csv' ? 'text/csv' : 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `jaxspot-trades-${new Date().toISOString().slice(0, 10)}.${format}`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = ''; // Allow re-selecting the same file
+        if (!file) return;
+        const { trades: parsed, errors } = parseTradeImport(await file.text(), file.name);
+        if (parsed.length === 0) {
+            setImportResult({ message: `Nothing imported from ${file.name}.`, errors });
+            return;
+        }
+        if (errors.length > 0 && !window.confirm(`${errors.length} row(s) in ${file.name} failed validation. Import the ${parsed.length} valid trade(s)?`)) {
+            setImportResult({ message: 'Import cancelled.', errors });
+            return;
+        }
+        const summary = tradeSimulatorService.importTrades(parsed, duplicateMode);
+        setImportResult({
+            message: `Imported ${file.name}: ${summary.added} added, ${summary.replaced} replaced, ${summary.skipped} duplicate(s) skipped.`,
+            errors,
+        });
+    };
+
+    const handleCreatePortfolio = () => {
+        const name = window.prompt('Name for the new paper portfolio (e.g. "Aggressive Swing"):');
+        if (name === null) return;
+        const portfolio = tradeSimulatorService.createPortfolio(name);
+        tradeSimulatorService.setActivePortfolio(portfolio.id);
+    };
+
+    const handleRenamePortfolio = () => {
+        const name = window.prompt('Rename portfolio:', activePortfolio.name);
+        if (name) tradeSimulatorService.renamePortfolio(activePortfolio.id, name);
+    };
+
+    const handleDeletePortfolio = () => {
+        if (window.confirm(`Delete the "${activePortfolio.name}" portfolio with all its trades, orders and settings? This action cannot be undone.`)) {
+            const error = tradeSimulatorService.deletePortfolio(activePortfolio.id);
+            if (error) window.alert(error);
+        }
     };
 
     const handleReset = () => {
@@ -356,14 +591,73 @@ export const SimulatedWallet: React.FC = () => {
                 <div className="p-4 border-b border-gray-200">
                     <h2 className="text-xl font-semibold text-gray-900">Simulated Wallet & Strategy</h2>
                     <p className="text-sm text-gray-500">Monitor simulated trades and configure the AI's trading parameters.</p>
+                    <div className="flex flex-wrap items-center gap-2 mt-3">
+                        <label htmlFor="activePortfolio" className="text-sm font-medium text-gray-700">Portfolio</label>
+                        <select id="activePortfolio" value={activePortfolio.id} onChange={e => tradeSimulatorService.setActivePortfolio(e.target.value)} className="bg-gray-100 border border-gray-300 rounded-lg p-2 text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500">
+                            {portfolios.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                        </select>
+                        <button onClick={handleCreatePortfolio} className="px-3 py-2 text-sm bg-purple-600 text-white font-semibold rounded-lg hover:bg-purple-700">New</button>
+                        <button onClick={handleRenamePortfolio} className="px-3 py-2 text-sm bg-gray-100 text-gray-800 font-semibold rounded-lg hover:bg-gray-200">Rename</button>
+                        <button onClick={handleDeletePortfolio} disabled={portfolios.length <= 1} className="px-3 py-2 text-sm bg-red-100 text-red-800 font-semibold rounded-lg hover:bg-red-200 disabled:bg-gray-100 disabled:text-gray-400">Delete</button>
+                    </div>
                 </div>
                 <div className="flex-1 p-4 overflow-y-auto bg-gray-50">
-                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
-                        <MetricCard title="Total Realized P/L" value={formatCurrency(totalPnl)} description="Profit & Loss from all closed trades." />
+                    {riskStatus.halt && (
+                        <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                            <div>
+                                <p className="font-bold text-red-800">Trading halted since {new Date(riskStatus.halt.haltedAt).toLocaleString()}</p>
+                                <p className="text-sm text-red-700">{riskStatus.halt.reason} New entries are blocked until the circuit breaker is reset.</p>
+                            </div>
+                            <button onClick={() => tradeSimulatorService.resetCircuitBreaker()} className="px-4 py-2 bg-red-600 text-white font-semibold rounded-lg hover:bg-red-700 whitespace-nowrap">
+                                Reset Circuit Breaker
+                            </button>
+                        </div>
+                    )}
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+                        <MetricCard title="Account Equity" value={formatCurrency(account.equity)} description={`Cash, reserved margin and ${formatCurrency(account.unrealizedPnl)} unrealized P/L.`} />
+                        <MetricCard title="Available Cash" value={formatCurrency(account.availableCash)} description="Buying power for new trades." />
+                        <MetricCard title="Reserved Margin" value={formatCurrency(account.reservedMargin)} description="Cash locked in open positions." />
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4 mb-6">
+                        <MetricCard title="Total Realized P/L" value={formatCurrency(account.realizedPnl)} description="Profit & Loss from all closed trades, after slippage." />
+                        <MetricCard title="Fees Paid" value={formatCurrency(account.feesPaid)} description="Entry and exit fees charged." />
+                        <MetricCard title="Slippage" value={formatCurrency(account.slippagePaid)} description="Cost of market fills versus the quoted price." />
+                        <MetricCard title="Funding Paid" value={formatCurrency(account.fundingPaid)} description="Net funding settled on closed margin positions." />
                         <MetricCard title="Win Rate" value={`${winRate.toFixed(1)}%`} description={`${winTrades} wins / ${closedTrades.length} total closed trades.`} />
                         <MetricCard title="Open Positions" value={openTrades.length.toString()} description="Currently active simulated trades." />
                     </div>
 
+                    <div className="bg-white p-6 rounded-lg border border-gray-200 shadow-sm mb-6">
+                        <h3 className="text-lg font-bold text-purple-700 mb-4">Equity Curve</h3>
+                        <EquityCurveChart series={equitySeries} />
+                    </div>
+
+                    <div className="bg-white p-6 rounded-lg border border-gray-200 shadow-sm mb-6">
+                        <h3 className="text-lg font-bold text-purple-700 mb-4">Portfolio Comparison</h3>
+                        <PortfolioComparison />
+                    </div>
+
+                    <div className="bg-white p-6 rounded-lg border border-gray-200 shadow-sm mb-6">
+                        <h3 className="text-lg font-bold text-purple-700 mb-4">Strategy Replay</h3>
+                        <StrategyReplay />
+                    </div>
+
+                    <div className="bg-white p-6 rounded-lg border border-gray-200 shadow-sm mb-6">
+                        <h3 className="text-lg font-bold text-purple-700 mb-4">Pipeline Order Intents</h3>
+                        <OrderIntentLog />
+                    </div>
+
+                    <div className="bg-white p-6 rounded-lg border border-gray-200 shadow-sm mb-6">
+                        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+                            <h3 className="text-lg font-bold text-purple-700">Cash Ledger</h3>
+                            <form onSubmit={handleDeposit} className="flex gap-2">
+                                <input type="number" value={depositAmount} onChange={e => setDepositAmount(e.target.value)} placeholder="Amount (USD)" step="any" min="0" className="w-40 bg-gray-100 border border-gray-300 rounded-lg p-2 text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500" />
+                                <button type="submit" className="px-4 py-2 bg-purple-600 text-white font-semibold rounded-lg hover:bg-purple-700">Deposit</button>
+                            </form>
+                        </div>
+                        <CashLedger ledger={ledger} />
+                    </div>
+
                     <div className="bg-white p-6 rounded-lg border border-gray-200 shadow-sm mb-6">
                         <h3 className="text-lg font-bold text-purple-700 mb-4">AI Trading Strategy</h3>
                         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -387,27 +681,174 @@ export const SimulatedWallet: React.FC = () => {
                                 <input id="aiConfidence" name="aiConfidence" type="range" min="50" max="95" step="0.1" value={settings.aiConfidence} onChange={handleSettingsChange} className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer confidence-slider" />
                                 <p className="text-xs text-gray-500 mt-1">Sets the minimum AI confidence to auto-execute a trade from the pipeline.</p>
                             </div>
+                            <div>
+                                <label htmlFor="pipelineSellPolicy" className="block text-sm font-medium text-gray-700 mb-1">Pipeline SELL Decisions</label>
+                                <select id="pipelineSellPolicy" name="pipelineSellPolicy" value={settings.pipelineSellPolicy} onChange={handleSettingsChange} className="w-full bg-gray-100 border border-gray-300 rounded-lg p-2 text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500">
+                                    {(Object.keys(PIPELINE_SELL_POLICY_LABELS) as WalletSettings['pipelineSellPolicy'][]).map(policy => <option key={policy} value={policy}>{PIPELINE_SELL_POLICY_LABELS[policy]}</option>)}
+                                </select>
+                                <p className="text-xs text-gray-500 mt-1">With shorting on, a BUY decision also closes open shorts in the asset before going long.</p>
+                            </div>
+                            <div>
+                                <label htmlFor="pipelineCooldownMinutes" className="block text-sm font-medium text-gray-700 mb-1">Pipeline Cooldown per Asset (minutes)</label>
+                                <input id="pipelineCooldownMinutes" name="pipelineCooldownMinutes" type="number" min="0" step="5" value={settings.pipelineCooldownMinutes} onChange={handleSettingsChange} className="w-full bg-gray-100 border border-gray-300 rounded-lg p-2 text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500" />
+                                <p className="text-xs text-gray-500 mt-1">New pipeline signals on an asset traded more recently than this are skipped. 0 turns it off.</p>
+                            </div>
+                            <div>
+                                <label htmlFor="startingCapital" className="block text-sm font-medium text-gray-700 mb-1">Starting Capital (USD)</label>
+                                <input id="startingCapital" name="startingCapital" type="number" min="0" step="100" value={settings.startingCapital} onChange={handleSettingsChange} className="w-full bg-gray-100 border border-gray-300 rounded-lg p-2 text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500" />
+                                <p className="text-xs text-gray-500 mt-1">Deposited when the wallet is reset. Use Deposit to add cash now.</p>
+                            </div>
+                            <div>
+                                <label htmlFor="feeVenue" className="block text-sm font-medium text-gray-700 mb-1">Fee Schedule</label>
+                                <select id="feeVenue" name="feeVenue" value={settings.feeVenue} onChange={handleSettingsChange} className="w-full bg-gray-100 border border-gray-300 rounded-lg p-2 text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500">
+                                    {(Object.keys(FEE_VENUE_LABELS) as FeeVenue[]).map(venue => <option key={venue} value={venue}>{FEE_VENUE_LABELS[venue]}</option>)}
+                                </select>
+                                {feeTier ? (
+                                    <p className="text-xs text-gray-500 mt-1">{feeTier.name} tier on {formatCurrency(trailingVolume)} traded in 30 days: {feeTier.makerPercent}% maker (limit orders, take profits), {feeTier.takerPercent}% taker (market orders, stops).</p>
+                                ) : (
+                                    <p className="text-xs text-gray-500 mt-1">Charges the flat fee below on every fill.</p>
+                                )}
+                            </div>
+                            <div>
+                                <label htmlFor="feeRatePercent" className="block text-sm font-medium text-gray-700 mb-1">Flat Trading Fee (%)</label>
+                                <input id="feeRatePercent" name="feeRatePercent" type="number" min="0" step="0.01" value={settings.feeRatePercent} onChange={handleSettingsChange} disabled={settings.feeVenue !== 'flat'} className="w-full bg-gray-100 border border-gray-300 rounded-lg p-2 text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:text-gray-400" />
+                                <p className="text-xs text-gray-500 mt-1">Charged on the notional of every entry and exit with the flat-rate schedule.</p>
+                            </div>
+                            <div className="md:col-span-2">
+                                <label className="flex items-center text-sm text-gray-700">
+                                    <input type="checkbox" name="slippageEnabled" checked={settings.slippageEnabled} onChange={handleSettingsChange} className="h-4 w-4 rounded border-gray-300 text-purple-600 focus:ring-purple-500 mr-2" />
+                                    Simulate slippage on market fills
+                                </label>
+                                <p className="text-xs text-gray-500 mt-1">Market entries, stops and manual closes fill away from the quote by half the spread plus a market impact estimate from the asset's 24h volume in Merged Master.</p>
+                            </div>
+                        </div>
+                    </div>
+
+                    <div className="bg-white p-6 rounded-lg border border-gray-200 shadow-sm mb-6">
+                        <h3 className="text-lg font-bold text-purple-700 mb-4">Position Sizing</h3>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                            <div>
+                                <label htmlFor="sizingMode" className="block text-sm font-medium text-gray-700 mb-1">Sizing Mode</label>
+                                <select id="sizingMode" name="sizingMode" value={settings.sizingMode} onChange={handleSettingsChange} className="w-full bg-gray-100 border border-gray-300 rounded-lg p-2 text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500">
+                                    {(Object.keys(SIZING_MODE_LABELS) as SizingMode[]).map(mode => <option key={mode} value={mode}>{SIZING_MODE_LABELS[mode]}</option>)}
+                                </select>
+                            </div>
+                            <div>
+                                <label htmlFor="maxPositionPercent" className="block text-sm font-medium text-gray-700 mb-1">Max Position (% of equity)</label>
+                                <input id="maxPositionPercent" name="maxPositionPercent" type="number" min="1" max="100" step="1" value={settings.maxPositionPercent} onChange={handleSettingsChange} className="w-full bg-gray-100 border border-gray-300 rounded-lg p-2 text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500" />
+                            </div>
+                            {settings.sizingMode === 'fixed_fractional' && (
+                                <div>
+                                    <label htmlFor="riskPerTradePercent" className="block text-sm font-medium text-gray-700 mb-1">Risk per Trade (% of equity)</label>
+                                    <input id="riskPerTradePercent" name="riskPerTradePercent" type="number" min="0.1" step="0.1" value={settings.riskPerTradePercent} onChange={handleSettingsChange} className="w-full bg-gray-100 border border-gray-300 rounded-lg p-2 text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500" />
+                                    <p className="text-xs text-gray-500 mt-1">Size is set so hitting the stop loses this much.</p>
+                                </div>
+                            )}
+                            {settings.sizingMode === 'volatility' && (
+                                <>
+                                    <div>
+                                        <label htmlFor="targetVolatilityPercent" className="block text-sm font-medium text-gray-700 mb-1">Target Move per Candle (% of equity)</label>
+                                        <input id="targetVolatilityPercent" name="targetVolatilityPercent" type="number" min="0.01" step="0.05" value={settings.targetVolatilityPercent} onChange={handleSettingsChange} className="w-full bg-gray-100 border border-gray-300 rounded-lg p-2 text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500" />
+                                    </div>
+                                    <div>
+                                        <label htmlFor="volatilityMeasure" className="block text-sm font-medium text-gray-700 mb-1">Volatility Measure</label>
+                                        <select id="volatilityMeasure" name="volatilityMeasure" value={settings.volatilityMeasure} onChange={handleSettingsChange} className="w-full bg-gray-100 border border-gray-300 rounded-lg p-2 text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500">
+                                            <option value="atr">ATR (14)</option><option value="realized">Realized Volatility</option>
+                                        </select>
+                                    </div>
+                                </>
+                            )}
+                            {settings.sizingMode === 'kelly' && (
+                                <div>
+                                    <label htmlFor="kellyFraction" className="block text-sm font-medium text-gray-700 mb-1">Kelly Fraction</label>
+                                    <input id="kellyFraction" name="kellyFraction" type="number" min="0.05" max="1" step="0.05" value={settings.kellyFraction} onChange={handleSettingsChange} className="w-full bg-gray-100 border border-gray-300 rounded-lg p-2 text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500" />
+                                    <p className="text-xs text-gray-500 mt-1">Uses the win rate of the signal that opens the trade.</p>
+                                </div>
+                            )}
+                        </div>
+                    </div>
+
+                    <div className="bg-white p-6 rounded-lg border border-gray-200 shadow-sm mb-6">
+                        <h3 className="text-lg font-bold text-purple-700 mb-1">Leverage &amp; Margin</h3>
+                        <p className="text-xs text-gray-500 mb-4">Shorts and leveraged longs pay or receive CoinGlass funding and are liquidated when their margin falls to the maintenance level.</p>
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                            <div>
+                                <label htmlFor="defaultLeverage" className="block text-sm font-medium text-gray-700 mb-1">Default Leverage (x)</label>
+                                <input id="defaultLeverage" name="defaultLeverage" type="number" min="1" max={settings.maxLeverage} step="1" value={settings.defaultLeverage} onChange={handleSettingsChange} className="w-full bg-gray-100 border border-gray-300 rounded-lg p-2 text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500" />
+                            </div>
+                            <div>
+                                <label htmlFor="maxLeverage" className="block text-sm font-medium text-gray-700 mb-1">Max Leverage (x)</label>
+                                <input id="maxLeverage" name="maxLeverage" type="number" min="1" max="125" step="1" value={settings.maxLeverage} onChange={handleSettingsChange} className="w-full bg-gray-100 border border-gray-300 rounded-lg p-2 text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500" />
+                            </div>
+                            <div>
+                                <label htmlFor="maintenanceMarginPercent" className="block text-sm font-medium text-gray-700 mb-1">Maintenance Margin (%)</label>
+                                <input id="maintenanceMarginPercent" name="maintenanceMarginPercent" type="number" min="0" max="50" step="0.1" value={settings.maintenanceMarginPercent} onChange={handleSettingsChange} className="w-full bg-gray-100 border border-gray-300 rounded-lg p-2 text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500" />
+                            </div>
+                        </div>
+                    </div>
+
+                    <div className="bg-white p-6 rounded-lg border border-gray-200 shadow-sm mb-6">
+                        <h3 className="text-lg font-bold text-purple-700 mb-1">Risk Limits</h3>
+                        <p className="text-xs text-gray-500 mb-4">
+                            Set a limit to 0 to disable it. Today: <span className={`font-mono ${riskStatus.dailyPnl >= 0 ? 'text-green-600' : 'text-red-600'}`}>{formatCurrency(riskStatus.dailyPnl)}</span> · This week: <span className={`font-mono ${riskStatus.weeklyPnl >= 0 ? 'text-green-600' : 'text-red-600'}`}>{formatCurrency(riskStatus.weeklyPnl)}</span> · Gross exposure: <span className="font-mono">{formatCurrency(riskStatus.grossExposure)}</span>
+                        </p>
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                            <div>
+                                <label htmlFor="maxOpenPositions" className="block text-sm font-medium text-gray-700 mb-1">Max Open Positions</label>
+                                <input id="maxOpenPositions" name="maxOpenPositions" type="number" min="0" step="1" value={settings.maxOpenPositions} onChange={handleSettingsChange} className="w-full bg-gray-100 border border-gray-300 rounded-lg p-2 text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500" />
+                            </div>
+                            <div>
+                                <label htmlFor="maxAssetExposurePercent" className="block text-sm font-medium text-gray-700 mb-1">Max Exposure per Asset (% of equity)</label>
+                                <input id="maxAssetExposurePercent" name="maxAssetExposurePercent" type="number" min="0" step="5" value={settings.maxAssetExposurePercent} onChange={handleSettingsChange} className="w-full bg-gray-100 border border-gray-300 rounded-lg p-2 text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500" />
+                            </div>
+                            <div>
+                                <label htmlFor="maxGrossExposurePercent" className="block text-sm font-medium text-gray-700 mb-1">Max Gross Exposure (% of equity)</label>
+                                <input id="maxGrossExposurePercent" name="maxGrossExposurePercent" type="number" min="0" step="10" value={settings.maxGrossExposurePercent} onChange={handleSettingsChange} className="w-full bg-gray-100 border border-gray-300 rounded-lg p-2 text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500" />
+                            </div>
+                            <div>
+                                <label htmlFor="dailyLossLimitPercent" className="block text-sm font-medium text-gray-700 mb-1">Daily Loss Limit (%)</label>
+                                <input id="dailyLossLimitPercent" name="dailyLossLimitPercent" type="number" min="0" step="0.5" value={settings.dailyLossLimitPercent} onChange={handleSettingsChange} className="w-full bg-gray-100 border border-gray-300 rounded-lg p-2 text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500" />
+                            </div>
+                            <div>
+                                <label htmlFor="weeklyLossLimitPercent" className="block text-sm font-medium text-gray-700 mb-1">Weekly Loss Limit (%)</label>
+                                <input id="weeklyLossLimitPercent" name="weeklyLossLimitPercent" type="number" min="0" step="0.5" value={settings.weeklyLossLimitPercent} onChange={handleSettingsChange} className="w-full bg-gray-100 border border-gray-300 rounded-lg p-2 text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500" />
+                            </div>
+                        </div>
+                    </div>
+
+                    <div className="bg-white p-6 rounded-lg border border-gray-200 shadow-sm mb-6">
+                        <h3 className="text-lg font-bold text-purple-700 mb-1">Exit Management</h3>
+                        <p className="text-xs text-gray-500 mb-4">Applied to trades opened from now on.</p>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                            <div>
+                                <label htmlFor="trailingStopMode" className="block text-sm font-medium text-gray-700 mb-1">Trailing Stop</label>
+                                <select id="trailingStopMode" name="trailingStopMode" value={settings.trailingStopMode} onChange={handleSettingsChange} className="w-full bg-gray-100 border border-gray-300 rounded-lg p-2 text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500">
+                                    <option value="off">Off</option><option value="percent">Percent</option><option value="atr">ATR Multiple</option>
+                                </select>
+                            </div>
+                            <div>
+                                <label htmlFor="trailingStopValue" className="block text-sm font-medium text-gray-700 mb-1">{settings.trailingStopMode === 'atr' ? 'Trail Distance (x ATR)' : 'Trail Distance (%)'}</label>
+                                <input id="trailingStopValue" name="trailingStopValue" type="number" min="0" step="0.1" value={settings.trailingStopValue} onChange={handleSettingsChange} disabled={settings.trailingStopMode === 'off'} className="w-full bg-gray-100 border border-gray-300 rounded-lg p-2 text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:opacity-50" />
+                            </div>
+                            <div className="flex items-center">
+                                <input id="scaleOutEnabled" name="scaleOutEnabled" type="checkbox" checked={settings.scaleOutEnabled} onChange={handleSettingsChange} className="h-4 w-4 rounded border-gray-300 text-purple-600 focus:ring-purple-500" />
+                                <label htmlFor="scaleOutEnabled" className="ml-2 block text-sm text-gray-700">Scale out at Target 1 and Target 2</label>
+                            </div>
+                            <div>
+                                <label htmlFor="scaleOutPercent" className="block text-sm font-medium text-gray-700 mb-1">Closed at Target 1 (%)</label>
+                                <input id="scaleOutPercent" name="scaleOutPercent" type="number" min="1" max="100" step="1" value={settings.scaleOutPercent} onChange={handleSettingsChange} disabled={!settings.scaleOutEnabled} className="w-full bg-gray-100 border border-gray-300 rounded-lg p-2 text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:opacity-50" />
+                            </div>
+                            <div className="flex items-center md:col-span-2">
+                                <input id="breakevenAfterT1" name="breakevenAfterT1" type="checkbox" checked={settings.breakevenAfterT1} onChange={handleSettingsChange} className="h-4 w-4 rounded border-gray-300 text-purple-600 focus:ring-purple-500" />
+                                <label htmlFor="breakevenAfterT1" className="ml-2 block text-sm text-gray-700">Move stop to breakeven after Target 1 fills</label>
+                            </div>
                         </div>
                     </div>
 
                      <div className="bg-white p-6 rounded-lg border border-gray-200 shadow-sm mb-6">
                         <h3 className="text-lg font-bold text-purple-700 mb-4">System & Notifications</h3>
                          <div className="space-y-4">
-                             <div>
-                                <label htmlFor="webhookUrl" className="block text-sm font-medium text-gray-700 mb-1">Webhook URL (for trade alerts)</label>
-                                <div className="flex gap-2">
-                                     <input id="webhookUrl" name="webhookUrl" type="text" placeholder="https://example.com/webhook" value={settings.webhookUrl} onChange={handleSettingsChange} className="flex-grow bg-gray-100 border border-gray-300 rounded-lg p-2 text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500" />
-                                     <button onClick={handleTestWebhook} disabled={isTestingWebhook || !settings.webhookUrl} className="px-4 py-2 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 disabled:bg-gray-400">
-                                         {isTestingWebhook ? <LoadingSpinner /> : 'Test'}
-                                     </button>
-                                </div>
-                                {webhookSuccess === true && <p className="text-xs text-green-600 mt-1">Test signal sent successfully!</p>}
-                                {webhookSuccess === false && <p className="text-xs text-red-600 mt-1">Please enter a valid URL.</p>}
-                             </div>
-                             <div className="flex items-center">
-                                 <input id="webhookEnabled" name="webhookEnabled" type="checkbox" checked={settings.webhookEnabled} onChange={handleSettingsChange} className="h-4 w-4 rounded border-gray-300 text-purple-600 focus:ring-purple-500" />
-                                 <label htmlFor="webhookEnabled" className="ml-2 block text-sm text-gray-700">Enable Webhook Notifications</label>
-                             </div>
+                             <WebhookEndpoints />
                              <div>
                                  <button onClick={handleReset} className="px-4 py-2 bg-red-100 text-red-800 font-semibold rounded-lg hover:bg-red-200">
                                     Reset Wallet & Settings
@@ -416,6 +857,76 @@ export const SimulatedWallet: React.FC = () => {
                          </div>
                     </div>
 
+                    <div className="bg-white p-4 rounded-lg border border-gray-200 shadow-sm mb-6">
+                        <h3 className="text-lg font-bold text-purple-700 mb-4">Webhook Deliveries</h3>
+                        <WebhookDeliveryLog />
+                    </div>
+
+                    <div className="bg-white p-6 rounded-lg border border-gray-200 shadow-sm mb-6">
+                        <h3 className="text-lg font-bold text-purple-700 mb-4">Realized Gains by Tax Lot</h3>
+                        <RealizedGainsReport />
+                    </div>
+
+                    <div className="bg-white p-4 rounded-lg border border-gray-200 shadow-sm mb-6">
+                        <h3 className="text-lg font-bold text-purple-700 mb-4">Trade History Export & Import</h3>
+                        <div className="space-y-4">
+                            <div className="flex flex-wrap gap-2">
+                                <button onClick={() => handleExport('csv')} disabled={trades.length === 0} className="px-4 py-2 bg-purple-600 text-white font-semibold rounded-lg hover:bg-purple-700 disabled:bg-gray-400">Export CSV</button>
+                                <button onClick={() => handleExport('json')} disabled={trades.length === 0} className="px-4 py-2 bg-purple-600 text-white font-semibold rounded-lg hover:bg-purple-700 disabled:bg-gray-400">Export JSON</button>
+                            </div>
+                            <div className="flex flex-col sm:flex-row sm:items-end gap-2">
+                                <div>
+                                    <label htmlFor="duplicateMode" className="block text-sm font-medium text-gray-700 mb-1">When a trade ID already exists</label>
+                                    <select id="duplicateMode" value={duplicateMode} onChange={e => setDuplicateMode(e.target.value as DuplicateTradeMode)} className="bg-gray-100 border border-gray-300 rounded-lg p-2 text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500">
+                                        <option value="skip">Skip the imported trade</option>
+                                        <option value="overwrite">Overwrite the existing trade</option>
+                                        <option value="keep_both">Keep both (import under a new ID)</option>
+                                    </select>
+                                </div>
+                                <label className="px-4 py-2 bg-gray-100 text-gray-800 font-semibold rounded-lg hover:bg-gray-200 cursor-pointer text-center">
+                                    Import CSV / JSON
+                                    <input type="file" accept=".csv,.json,text/csv,application/json" onChange={handleImport} className="hidden" />
+                                </label>
+                            </div>
+                            {importResult && (
+                                <div className="text-sm">
+                                    <p className="text-gray-800">{importResult.message}</p>
+                                    {importResult.errors.length > 0 && (
+                                        <ul className="mt-1 max-h-32 overflow-y-auto text-xs text-red-600 space-y-0.5">
+                                            {importResult.errors.map((error, index) => (
+                                                <li key={index}>{error.row > 0 ? `Row ${error.row}${error.id ? ` (${error.id})` : ''}: ` : ''}{error.message}</li>
+                                            ))}
+                                        </ul>
+                                    )}
+                                </div>
+                            )}
+                            <details className="text-xs text-gray-600">
+                                <summary className="cursor-pointer font-medium text-gray-700">CSV column reference</summary>
+                                <p className="mt-1">JSON exports keep every field, including history, exit rules and chart snapshots. CSV keeps the columns below; imports need id, symbol, direction, status, entry_price, size_usd and open_time.</p>
+                                <table className="mt-2 w-full text-left">
+                                    <tbody>
+                                        {TRADE_CSV_COLUMNS.map(column => (
+                                            <tr key={column.name} className="border-t border-gray-200">
+                                                <td className="py-1 pr-2 font-mono text-gray-800">{column.name}</td>
+                                                <td className="py-1">{column.description}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </details>
+                        </div>
+                    </div>
+
+                    <div className="bg-white p-4 rounded-lg border border-gray-200 shadow-sm mb-6">
+                        <h3 className="text-lg font-bold text-purple-700 mb-4">Pending Orders ({pendingOrders.length})</h3>
+                        <PendingOrdersTable orders={pendingOrders} />
+                    </div>
+
+                    <div className="bg-white p-4 rounded-lg border border-gray-200 shadow-sm mb-6">
+                        <h3 className="text-lg font-bold text-purple-700 mb-4">Rejected Orders ({rejections.length})</h3>
+                        <RejectedOrdersTable rejections={rejections} />
+                    </div>
+
                     {/* Mobile View Toggle */}
                     <div className="sm:hidden mb-4">
                         <div className="flex bg-gray-200 p-1 rounded-lg">
@@ -427,7 +938,7 @@ export const SimulatedWallet: React.FC = () => {
                     {/* Open Positions (Mobile) */}
                     <div className={`sm:hidden space-y-4 ${view !== 'open' ? 'hidden' : ''}`}>
                          <h3 className="text-lg font-bold text-purple-700">Open Positions</h3>
-                        {openTrades.length > 0 ? openTrades.map(t => <OpenPositionCard key={t.id} trade={t} onViewChart={() => setTradeForChart(t)} />)
+                        {openTrades.length > 0 ? openTrades.map(t => <OpenPositionCard key={t.id} trade={t} onViewChart={() => setTradeForChart(t)} onManage={() => setTradeToManage(t.id)} />)
                          : <p className="text-gray-500 text-center py-4">No open trades.</p>}
                     </div>
 
@@ -446,11 +957,11 @@ export const SimulatedWallet: React.FC = () => {
                                 <thead className="bg-gray-50 text-xs text-gray-500 uppercase">
                                     <tr>
                                         <th className="p-3">Asset</th><th className="p-3">Size</th><th className="p-3">Side</th><th className="p-3">Entry</th>
-                                        <th className="p-3">Take Profit</th><th className="p-3">Stop Loss</th><th className="p-3">P/L</th><th className="p-3">Opened</th><th className="p-3 text-center">Chart</th>
+                                        <th className="p-3">Take Profit</th><th className="p-3">Stop Loss</th><th className="p-3">P/L</th><th className="p-3">Opened</th><th className="p-3 text-center">Actions</th>
                                     </tr>
                                 </thead>
                                 <tbody>
-                                    {openTrades.length > 0 ? openTrades.map(t => <TradeRow key={t.id} trade={t} type="open" onViewChart={() => setTradeForChart(t)} />)
+                                    {openTrades.length > 0 ? openTrades.map(t => <TradeRow key={t.id} trade={t} type="open" onViewChart={() => setTradeForChart(t)} onManage={() => setTradeToManage(t.id)} />)
                                      : <tr><td colSpan={9} className="text-center p-4 text-gray-500">No open trades.</td></tr>}
                                 </tbody>
                             </table>
@@ -465,19 +976,25 @@ export const SimulatedWallet: React.FC = () => {
                                     <tr>
                                         <th className="p-3">Asset</th><th className="p-3">Size</th><th className="p-3">Side</th><th className="p-3">Entry</th>
                                         <th className="p-3">Close Price</th><th className="p-3">P/L</th><th className="p-3">Opened</th><th className="p-3">Closed</th>
-                                        <th className="p-3">Reason</th><th className="p-3">Duration</th><th className="p-3 text-center">Chart</th>
+                                        <th className="p-3">Reason</th><th className="p-3">Duration</th><th className="p-3 text-center">Actions</th>
                                     </tr>
                                 </thead>
                                 <tbody>
-                                    {closedTrades.length > 0 ? closedTrades.slice(0, 50).map(t => <TradeRow key={t.id} trade={t} type="closed" onViewChart={() => setTradeForChart(t)} />)
+                                    {closedTrades.length > 0 ? closedTrades.slice(0, 50).map(t => <TradeRow key={t.id} trade={t} type="closed" onViewChart={() => setTradeForChart(t)} onManage={() => setTradeToManage(t.id)} />)
                                      : <tr><td colSpan={11} className="text-center p-4 text-gray-500">No closed trades.</td></tr>}
                                 </tbody>
                             </table>
                         </div>
                     </div>
+
+                    <div className="mt-6 bg-white p-4 rounded-lg border border-gray-200 shadow-sm">
+                        <h3 className="text-lg font-bold text-purple-700 mb-4">Trade Journal</h3>
+                        <TradeJournal trades={trades} onManage={setTradeToManage} />
+                    </div>
                 </div>
             </div>
             {tradeForChart && <CryptoChartModal trade={tradeForChart} onClose={() => setTradeForChart(null)} />}
+            {tradeToManage && <TradeManageModal tradeId={tradeToManage} onClose={() => setTradeToManage(null)} />}
             <style>{`
                  .confidence-slider {
                     -webkit-appearance: none; appearance: none; width: 100%; height: 6px;
@@ -2,8 +2,11 @@ import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react'
 import { LoadingSpinner } from './LoadingSpinner';
 import { BrainIcon, HistoryIcon, TargetIcon, BellIcon, TrashIcon, AlertTriangleIcon, CloseIcon, TrendingUpIcon, TrendingDownIcon, LineChartIcon, RefreshIcon } from './Icons';
 import { fetchLivePricing, CryptoPrice } from '../services/cryptoService';
-import { tradeSimulatorService, Trade } from '../services/tradeSimulatorService';
+import { tradeSimulatorService, Trade, PendingOrder, OrderType } from '../services/tradeSimulatorService';
 import { TradingChart } from './TradingChart';
+import { PendingOrdersTable } from './PendingOrdersTable';
+import { TradeManageModal } from './TradeManageModal';
+import { volatilityService } from '../services/volatilityService';
 
 // --- TYPE DEFINITIONS & HELPERS ---
 interface PriceAlert {
@@ -113,10 +116,56 @@ const LiveTradeBlotterSkeleton: React.FC = () => (
 
 // --- SUB-COMPONENTS ---
 
+// Comma- or space-separated tag input; the simulator normalizes case and '#' prefixes.
+const parseTags = (input: string): string[] => input.split(/[\s,]+/).filter(Boolean);
+
+const OrderTicket: React.FC<{ coin: CryptoPrice; leverage: number; notes: string; tags: string }> = ({ coin, leverage, notes, tags }) => {
+    const [orderType, setOrderType] = useState<OrderType>('limit');
+    const [direction, setDirection] = useState<'buy' | 'sell'>('buy');
+    const [triggerPrice, setTriggerPrice] = useState('');
+    const [expiryHours, setExpiryHours] = useState('');
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const price = parseFloat(triggerPrice);
+        const hours = parseFloat(expiryHours);
+        const expiresAt = !isNaN(hours) && hours > 0 ? Date.now() + hours * 60 * 60 * 1000 : null;
+        const order = tradeSimulatorService.placeOrder(coin, direction, orderType, price, { timeInForce: expiresAt ? 'GTD' : 'GTC', expiresAt, leverage, notes, tags: parseTags(tags) });
+        if (order) {
+            setTriggerPrice('');
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="bg-white p-4 rounded-lg border border-gray-200 shadow-sm space-y-3">
+            <h4 className="text-md font-bold text-purple-700">Queue Order</h4>
+            <div className="grid grid-cols-2 gap-2">
+                <select value={orderType} onChange={e => setOrderType(e.target.value as OrderType)} className="bg-gray-100 border border-gray-300 rounded-md p-2 text-sm text-gray-800 focus:outline-none focus:ring-1 focus:ring-purple-500">
+                    <option value="limit">Limit</option>
+                    <option value="stop">Stop Entry</option>
+                </select>
+                <select value={direction} onChange={e => setDirection(e.target.value as 'buy' | 'sell')} className="bg-gray-100 border border-gray-300 rounded-md p-2 text-sm text-gray-800 focus:outline-none focus:ring-1 focus:ring-purple-500">
+                    <option value="buy">Buy</option>
+                    <option value="sell">Sell</option>
+                </select>
+                <input type="number" value={triggerPrice} onChange={e => setTriggerPrice(e.target.value)} placeholder={`Trigger (now ${formatCurrency(coin.price)})`} step="any" min="0" required className="bg-gray-100 border border-gray-300 rounded-md p-2 text-sm text-gray-800 focus:outline-none focus:ring-1 focus:ring-purple-500 placeholder:text-gray-400" />
+                <input type="number" value={expiryHours} onChange={e => setExpiryHours(e.target.value)} placeholder="Expires in (h), blank = GTC" step="any" min="0" className="bg-gray-100 border border-gray-300 rounded-md p-2 text-sm text-gray-800 focus:outline-none focus:ring-1 focus:ring-purple-500 placeholder:text-gray-400" />
+            </div>
+            <button type="submit" className="w-full px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white font-semibold rounded-lg transition-colors">
+                Place {orderType === 'limit' ? 'Limit' : 'Stop'} {direction === 'buy' ? 'Buy' : 'Sell'}
+            </button>
+        </form>
+    );
+};
+
 const ActiveMonitor: React.FC<{ coin: CryptoPrice | null }> = React.memo(({ coin }) => {
     const [logoError, setLogoError] = useState(false);
     const prevPriceRef = useRef<number | null>(null);
     const [priceColor, setPriceColor] = useState('text-gray-800');
+    const [leverage, setLeverage] = useState(() => tradeSimulatorService.getSettings().defaultLeverage);
+    const [entryError, setEntryError] = useState<string | null>(null);
+    const [notes, setNotes] = useState('');
+    const [tags, setTags] = useState('');
 
     useEffect(() => {
         if (coin) {
@@ -132,19 +181,31 @@ const ActiveMonitor: React.FC<{ coin: CryptoPrice | null }> = React.memo(({ coin
 
     useEffect(() => {
         if(coin) setLogoError(false); // Reset on new coin
+        setEntryError(null);
     }, [coin?.id]);
 
+    useEffect(() => {
+        // Volatility sizing reads cached stats synchronously, so fetch them before the user trades.
+        if (coin && tradeSimulatorService.getSettings().sizingMode === 'volatility') {
+            volatilityService.getStats(coin.symbol);
+        }
+    }, [coin?.symbol]);
+
     if (!coin) {
         return <div className="h-full flex items-center justify-center text-gray-500">Awaiting asset for analysis...</div>;
     }
 
-    const handleBuy = () => {
-        tradeSimulatorService.executeTrade(coin, 'buy');
-    };
-    
-    const handleSell = () => {
-        tradeSimulatorService.executeTrade(coin, 'sell');
+    const handleEntry = (direction: 'buy' | 'sell') => {
+        const trade = tradeSimulatorService.executeTrade(coin, direction, { leverage, notes, tags: parseTags(tags) });
+        setEntryError(trade ? null : tradeSimulatorService.getRejectedOrders()[0]?.reason ?? 'The order was rejected.');
+        if (trade) {
+            setNotes('');
+            setTags('');
+        }
     };
+
+    const { maxLeverage } = tradeSimulatorService.getSettings();
+    const fundingRate = tradeSimulatorService.getFundingRate(coin.symbol);
     
     const logoUrl = `https://assets.coincap.io/assets/icons/${coin.symbol.toLowerCase()}@2x.png`;
     const isUp = coin.change24h >= 0;
@@ -176,20 +237,41 @@ const ActiveMonitor: React.FC<{ coin: CryptoPrice | null }> = React.memo(({ coin
                 </div>
             </div>
 
+            <div className="bg-white p-4 rounded-lg border border-gray-200 shadow-sm space-y-2">
+                <label htmlFor="tradeNotes" className="text-md font-bold text-purple-700">Journal</label>
+                <textarea id="tradeNotes" value={notes} onChange={e => setNotes(e.target.value)} rows={2} placeholder="Why are you taking this trade?" className="w-full bg-gray-100 border border-gray-300 rounded-md p-2 text-sm text-gray-800 focus:outline-none focus:ring-1 focus:ring-purple-500 placeholder:text-gray-400" />
+                <input type="text" value={tags} onChange={e => setTags(e.target.value)} placeholder="Tags, e.g. breakout, news" aria-label="Trade tags" className="w-full bg-gray-100 border border-gray-300 rounded-md p-2 text-sm text-gray-800 focus:outline-none focus:ring-1 focus:ring-purple-500 placeholder:text-gray-400" />
+                <p className="text-xs text-gray-500">Saved with the next trade or queued order.</p>
+            </div>
+
             <div className="grid grid-cols-2 gap-3">
                 <button
-                    onClick={handleBuy}
+                    onClick={() => handleEntry('buy')}
                     className="w-full py-3 bg-green-600 text-white text-lg font-bold rounded-lg hover:bg-green-700 transition-colors shadow-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500"
                 >
                     BUY
                 </button>
                 <button
-                    onClick={handleSell}
+                    onClick={() => handleEntry('sell')}
                     className="w-full py-3 bg-red-600 text-white text-lg font-bold rounded-lg hover:bg-red-700 transition-colors shadow-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
                 >
                     SELL
                 </button>
             </div>
+            {entryError && <p className="text-sm text-red-600 bg-red-50 border border-red-200 rounded-md p-2">Rejected: {entryError}</p>}
+
+            <div className="bg-white p-4 rounded-lg border border-gray-200 shadow-sm">
+                <div className="flex justify-between items-center mb-2">
+                    <label htmlFor="leverage" className="text-md font-bold text-purple-700">Leverage</label>
+                    <span className="font-mono font-semibold text-gray-800">{leverage}x</span>
+                </div>
+                <input id="leverage" type="range" min="1" max={maxLeverage} step="1" value={Math.min(leverage, maxLeverage)} onChange={e => setLeverage(parseInt(e.target.value, 10))} className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-purple-600" />
+                <p className="text-xs text-gray-500 mt-2">
+                    Funding (CoinGlass): {fundingRate !== undefined ? `${fundingRate.toFixed(4)}% / 8h` : 'unavailable'} · applies to shorts and leveraged longs
+                </p>
+            </div>
+
+            <OrderTicket coin={coin} leverage={leverage} notes={notes} tags={tags} />
 
             <div className="bg-white p-4 rounded-lg border border-gray-200 shadow-sm">
                 <h4 className="text-md font-bold text-purple-700 mb-3">Simulated Signal Metrics</h4>
@@ -216,7 +298,7 @@ const ActiveMonitor: React.FC<{ coin: CryptoPrice | null }> = React.memo(({ coin
     );
 });
 
-const LiveTradeRow: React.FC<{ trade: Trade }> = React.memo(({ trade }) => {
+const LiveTradeRow: React.FC<{ trade: Trade; onManage: (tradeId: string) => void }> = React.memo(({ trade, onManage }) => {
     const [logoError, setLogoError] = useState(false);
     useEffect(() => { setLogoError(false); }, [trade.coin.symbol]);
     
@@ -241,10 +323,13 @@ const LiveTradeRow: React.FC<{ trade: Trade }> = React.memo(({ trade }) => {
                 </div>
             </td>
             <td className="p-2">
-                <span className={`font-semibold ${isBuy ? 'text-green-700' : 'text-red-700'}`}>{trade.direction.toUpperCase()}</span>
+                <span className={`font-semibold ${isBuy ? 'text-green-700' : 'text-red-700'}`}>{trade.direction.toUpperCase()}{(trade.leverage ?? 1) > 1 && ` ${trade.leverage}x`}</span>
             </td>
             <td className="p-2 font-mono text-gray-600">{formatCurrency(trade.entryPrice)}</td>
             <td className="p-2 font-mono text-gray-600">{formatCurrency(trade.sizeUSD, true)}</td>
+            <td className="p-2 text-right">
+                <button onClick={() => onManage(trade.id)} className="px-2 py-1 text-xs font-semibold text-purple-700 bg-purple-100 hover:bg-purple-200 rounded-md">Manage</button>
+            </td>
         </tr>
     );
 });
@@ -400,6 +485,8 @@ export const SpotLive: React.FC = () => {
     const [activeCoin, setActiveCoin] = useState<CryptoPrice | null>(null);
     const [allCoins, setAllCoins] = useState<CryptoPrice[]>([]);
     const [trades, setTrades] = useState<Trade[]>([]);
+    const [pendingOrders, setPendingOrders] = useState<PendingOrder[]>([]);
+    const [tradeToManage, setTradeToManage] = useState<string | null>(null);
     const [isLoading, setIsLoading] = useState(true);
     const [alerts, setAlerts] = useState<PriceAlert[]>([]);
     const [notificationBannerAlert, setNotificationBannerAlert] = useState<PriceAlert | null>(null);
@@ -482,6 +569,7 @@ export const SpotLive: React.FC = () => {
         const updateTrades = () => {
             const latestTrades = tradeSimulatorService.getAllTrades();
             setTrades(latestTrades);
+            setPendingOrders([...tradeSimulatorService.getPendingOrders()]);
         };
         tradeSimulatorService.subscribe(updateTrades);
         updateTrades();
@@ -495,6 +583,8 @@ export const SpotLive: React.FC = () => {
             .sort((a, b) => b.openTimestamp - a.openTimestamp)[0] || null;
     }, [trades, activeCoin]);
 
+    const livePriceMap = useMemo(() => new Map(allCoins.map(c => [c.id, c.price])), [allCoins]);
+
     const handleRefresh = () => {
         fetchData();
     };
@@ -566,22 +656,28 @@ export const SpotLive: React.FC = () => {
                                            <th className="p-2">Side</th>
                                            <th className="p-2">Price</th>
                                            <th className="p-2">Size</th>
+                                           <th className="p-2"></th>
                                        </tr>
                                    </thead>
                                    <tbody>
                                        {trades.filter(t => t.status === 'open').length > 0 ? (
-                                           trades.filter(t => t.status === 'open').slice(0, 10).map(trade => <LiveTradeRow key={trade.id} trade={trade} />)
+                                           trades.filter(t => t.status === 'open').slice(0, 10).map(trade => <LiveTradeRow key={trade.id} trade={trade} onManage={setTradeToManage} />)
                                        ) : (
-                                           <tr><td colSpan={4} className="text-center p-4 text-gray-500">Awaiting trades...</td></tr>
+                                           <tr><td colSpan={5} className="text-center p-4 text-gray-500">Awaiting trades...</td></tr>
                                        )}
                                    </tbody>
                                </table>
                            )}
                         </div>
+                        <h3 className="text-lg font-bold text-purple-700 mt-4 mb-2">Pending Orders ({pendingOrders.length})</h3>
+                        <div className="max-h-64 overflow-y-auto bg-white rounded-lg border border-gray-200 shadow-sm">
+                            <PendingOrdersTable orders={pendingOrders} livePrices={livePriceMap} compact />
+                        </div>
                     </div>
 
                 </div>
             </div>
+            {tradeToManage && <TradeManageModal tradeId={tradeToManage} onClose={() => setTradeToManage(null)} />}
              <style>{`
                 @keyframes fade-in-down { from { opacity: 0; transform: translateY(-8px); } to { opacity: 1; transform: translateY(0); } }
                 .animate-fade-in-down { animation: fade-in-down 0.5s ease-out forwards; }
@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { tradeSimulatorService, AmbiguousBarRule } from '../services/tradeSimulatorService';
+import { signalsService, getSignalStatus } from '../services/signalsService';
+import { runReplay, createSignalRuleStrategy, getSignalSymbols, getSignalWarmupDays, ReplayResult, AMBIGUOUS_BAR_RULE_LABELS } from '../services/replayService';
+import { EquityCurveChart } from './EquityCurveChart';
+import { LoadingSpinner } from './LoadingSpinner';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const inputClass = "w-full bg-gray-100 border border-gray-300 rounded-lg p-2 text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500";
+
+const formatCurrency = (value: number | null | undefined) => {
+    if (value === null || value === undefined || !isFinite(value)) {
+        return '$0.00';
+    }
+    return value.toLocaleString('en-US', {
+        style: 'currency',
+        currency: 'USD',
+        minimumFractionDigits: 2,
+        maximumFractionDigits: 2
+    });
+};
+
+const toDateInput = (timestamp: number) => new Date(timestamp).toISOString().slice(0, 10);
+
+const Stat: React.FC<{ label: string; value: string; className?: string }> = ({ label, value, className = 'text-gray-900' }) => (
+    <div className="bg-gray-50 border border-gray-200 rounded-lg p-3">
+        <p className="text-xs text-gray-500">{label}</p>
+        <p className={`text-lg font-bold ${className}`}>{value}</p>
+    </div>
+);
+
+export const StrategyReplay: React.FC = () => {
+    const [from, setFrom] = useState(() => toDateInput(Date.now() - 7 * DAY_MS));
+    const [to, setTo] = useState(() => toDateInput(Date.now()));
+    const [rule, setRule] = useState<AmbiguousBarRule>('stop_first');
+    const [isRunning, setIsRunning] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [result, setResult] = useState<ReplayResult | null>(null);
+
+    const handleRun = async () => {
+        // Paused and expired signals can still be tested; retired ones are done.
+        const signals = signalsService.getActivatedSignals().filter(signal => getSignalStatus(signal) !== 'retired');
+        const fromMs = new Date(`${from}T00:00:00`).getTime();
+        const toMs = new Date(`${to}T23:59:59`).getTime();
+        if (signals.length === 0) {
+            setError('Activate at least one signal in Jax Signals to replay its rules.');
+            return;
+        }
+        if (!(fromMs < toMs)) {
+            setError('The start date must be before the end date.');
+            return;
+        }
+        setError(null);
+        setIsRunning(true);
+        try {
+            setResult(await runReplay({
+                symbols: getSignalSymbols(signals),
+                from: fromMs,
+                to: toMs,
+                ambiguousBarRule: rule,
+                warmupDays: getSignalWarmupDays(signals),
+                settings: tradeSimulatorService.getSettings(),
+                strategy: createSignalRuleStrategy(signals),
+            }));
+        } catch (e) {
+            console.error("Replay failed:", e);
+            setError('Replay failed. Check the console for details.');
+        } finally {
+            setIsRunning(false);
+        }
+    };
+
+    const report = result?.report;
+
+    return (
+        <div className="space-y-4">
+            <p className="text-sm text-gray-500">
+                Runs the activated signals' rules over historical candles with the current portfolio's settings, in a separate simulated wallet.
+                Stops and targets resolve inside each candle from its high and low.
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-4 gap-3 items-end">
+                <div>
+                    <label htmlFor="replayFrom" className="block text-sm font-medium text-gray-700 mb-1">From</label>
+                    <input id="replayFrom" type="date" value={from} onChange={e => setFrom(e.target.value)} className={inputClass} />
+                </div>
+                <div>
+                    <label htmlFor="replayTo" className="block text-sm font-medium text-gray-700 mb-1">To</label>
+                    <input id="replayTo" type="date" value={to} onChange={e => setTo(e.target.value)} className={inputClass} />
+                </div>
+                <div>
+                    <label htmlFor="replayRule" className="block text-sm font-medium text-gray-700 mb-1">Ambiguous Candles</label>
+                    <select id="replayRule" value={rule} onChange={e => setRule(e.target.value as AmbiguousBarRule)} className={inputClass}>
+                        {(Object.keys(AMBIGUOUS_BAR_RULE_LABELS) as AmbiguousBarRule[]).map(r => <option key={r} value={r}>{AMBIGUOUS_BAR_RULE_LABELS[r]}</option>)}
+                    </select>
+                </div>
+                <button onClick={handleRun} disabled={isRunning} className="px-4 py-2 bg-purple-600 text-white font-semibold rounded-lg hover:bg-purple-700 disabled:bg-gray-400 flex justify-center">
+                    {isRunning ? <LoadingSpinner /> : 'Run Replay'}
+                </button>
+            </div>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            {result && report && (
+                <div className="space-y-4">
+                    <p className="text-xs text-gray-500">
+                        {result.barCount} candles replayed.
+                        {result.missingSymbols.length > 0 && ` No history for ${result.missingSymbols.join(', ')}.`}
+                        {result.rejections.length > 0 && ` ${result.rejections.length} entries rejected by risk limits or sizing.`}
+                    </p>
+                    <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                        <Stat label="Closed Trades" value={report.tradeCount.toString()} />
+                        <Stat label="Net P/L" value={formatCurrency(report.netPnl)} className={report.netPnl >= 0 ? 'text-green-600' : 'text-red-600'} />
+                        <Stat label="Win Rate" value={`${report.winRate.toFixed(1)}%`} />
+                        <Stat label="Max Drawdown" value={`${report.maxDrawdownPercent.toFixed(2)}%`} />
+                        <Stat label="Ending Equity" value={formatCurrency(result.account.equity)} />
+                    </div>
+                    <EquityCurveChart series={[{ label: 'Replay Equity', points: result.equityCurve, color: 'rgba(59, 130, 246, 1)' }]} />
+                    <div className="overflow-x-auto max-h-80 overflow-y-auto">
+                        <table className="w-full text-sm text-left">
+                            <thead className="bg-gray-50 text-xs text-gray-500 uppercase sticky top-0">
+                                <tr>
+                                    <th className="p-3">Opened</th><th className="p-3">Asset</th><th className="p-3">Side</th><th className="p-3">Entry</th><th className="p-3">Exit</th><th className="p-3">Reason</th><th className="p-3">P/L</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {result.trades.length > 0 ? result.trades.map(trade => (
+                                    <tr key={trade.id} className="border-b border-gray-200">
+                                        <td className="p-3 text-gray-500 whitespace-nowrap">{new Date(trade.openTimestamp).toLocaleString()}</td>
+                                        <td className="p-3 font-semibold text-gray-800">{trade.coin.symbol}</td>
+                                        <td className={`p-3 font-semibold ${trade.direction === 'buy' ? 'text-green-600' : 'text-red-600'}`}>{trade.direction.toUpperCase()}</td>
+                                        <td className="p-3 font-mono text-gray-700">{formatCurrency(trade.entryPrice)}</td>
+                                        <td className="p-3 font-mono text-gray-700">{trade.closePrice !== null ? formatCurrency(trade.closePrice) : 'Open'}</td>
+                                        <td className="p-3 text-gray-700">{trade.closeReason ?? '—'}</td>
+                                        <td className={`p-3 font-mono ${(trade.pnl ?? 0) >= 0 ? 'text-green-600' : 'text-red-600'}`}>{formatCurrency(trade.pnl)}</td>
+                                    </tr>
+                                )) : <tr><td colSpan={7} className="text-center p-4 text-gray-500">No signal fired in this range.</td></tr>}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,133 @@
+import React, { useState, useMemo } from 'react';
+import { tradeSimulatorService, Trade } from '../services/tradeSimulatorService';
+
+interface TradeJournalProps {
+    trades: Trade[];
+    onManage: (tradeId: string) => void;
+}
+
+const formatCurrency = (value: number | null | undefined) => {
+    if (value === null || value === undefined || !isFinite(value)) {
+        return '$0.00';
+    }
+    return value.toLocaleString('en-US', {
+        style: 'currency',
+        currency: 'USD',
+        minimumFractionDigits: 2,
+        maximumFractionDigits: 2
+    });
+};
+
+const hasJournal = (trade: Trade) => Boolean(trade.notes || trade.review || trade.chartSnapshot || trade.tags?.length);
+
+const matchesSearch = (trade: Trade, query: string) => {
+    if (!query) return true;
+    const haystack = [
+        trade.coin.symbol,
+        trade.coin.name,
+        trade.notes,
+        trade.review,
+        trade.closeReason,
+        trade.signalId,
+        ...(trade.tags ?? []),
+    ].filter(Boolean).join(' ').toLowerCase();
+    return query.toLowerCase().split(/\s+/).every(term => haystack.includes(term));
+};
+
+const JournalEntry: React.FC<{ trade: Trade; onManage: () => void; onTagClick: (tag: string) => void }> = ({ trade, onManage, onTagClick }) => {
+    const isOpen = trade.status === 'open';
+    const pnl = trade.pnl ?? 0;
+    return (
+        <div className="border border-gray-200 rounded-lg p-3 bg-white">
+            <div className="flex justify-between items-start gap-2">
+                <div>
+                    <p className="font-bold text-gray-800">
+                        {trade.coin.symbol} <span className={trade.direction === 'buy' ? 'text-green-600' : 'text-red-600'}>{trade.direction.toUpperCase()}</span>
+                        <span className="ml-2 text-xs font-normal text-gray-500">{new Date(trade.openTimestamp).toLocaleString()}</span>
+                    </p>
+                    <p className="text-xs text-gray-500">
+                        {isOpen ? 'Open' : `Closed · ${trade.closeReason ?? 'N/A'}`} · <span className={pnl >= 0 ? 'text-green-600' : 'text-red-600'}>{formatCurrency(pnl)}</span>
+                    </p>
+                </div>
+                <button onClick={onManage} className="px-3 py-1 text-xs font-semibold rounded-md bg-gray-100 hover:bg-gray-200 text-gray-700 whitespace-nowrap">
+                    {isOpen || trade.review ? 'Edit' : 'Write Review'}
+                </button>
+            </div>
+            {trade.tags && trade.tags.length > 0 && (
+                <div className="flex flex-wrap gap-1 mt-2">
+                    {trade.tags.map(tag => (
+                        <button key={tag} onClick={() => onTagClick(tag)} className="px-2 py-0.5 text-xs rounded-full bg-purple-100 text-purple-800 hover:bg-purple-200">#{tag}</button>
+                    ))}
+                </div>
+            )}
+            <div className="flex gap-3 mt-2">
+                <div className="flex-1 min-w-0 space-y-2">
+                    {trade.notes && <p className="text-sm text-gray-800 whitespace-pre-line">{trade.notes}</p>}
+                    {trade.review && (
+                        <div className="text-sm bg-gray-50 border-l-4 border-purple-300 p-2">
+                            <p className="text-xs font-semibold text-gray-500 mb-0.5">Review</p>
+                            <p className="text-gray-800 whitespace-pre-line">{trade.review}</p>
+                        </div>
+                    )}
+                    {!trade.notes && !trade.review && <p className="text-sm text-gray-400 italic">No notes recorded.</p>}
+                </div>
+                {trade.chartSnapshot && (
+                    <button onClick={onManage} className="flex-shrink-0" aria-label={`Open ${trade.coin.symbol} chart snapshot`}>
+                        <img src={trade.chartSnapshot} alt={`${trade.coin.symbol} chart snapshot`} className="w-32 h-20 object-cover rounded-md border border-gray-200" />
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export const TradeJournal: React.FC<TradeJournalProps> = ({ trades, onManage }) => {
+    const [search, setSearch] = useState('');
+    const [selectedTags, setSelectedTags] = useState<string[]>([]);
+    const [journaledOnly, setJournaledOnly] = useState(true);
+
+    // Recomputed with `trades` so newly added tags show up as filters.
+    const allTags = useMemo(() => tradeSimulatorService.getJournalTags(), [trades]);
+
+    const entries = useMemo(() => trades
+        .filter(t => !journaledOnly || hasJournal(t))
+        .filter(t => selectedTags.every(tag => t.tags?.includes(tag)))
+        .filter(t => matchesSearch(t, search.trim()))
+        .sort((a, b) => b.openTimestamp - a.openTimestamp), [trades, journaledOnly, selectedTags, search]);
+
+    const toggleTag = (tag: string) => {
+        setSelectedTags(current => current.includes(tag) ? current.filter(t => t !== tag) : [...current, tag]);
+    };
+
+    return (
+        <div className="space-y-3">
+            <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                <input type="search" value={search} onChange={e => setSearch(e.target.value)} placeholder="Search notes, reviews, assets..." aria-label="Search journal" className="flex-grow bg-gray-100 border border-gray-300 rounded-lg p-2 text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500" />
+                <label className="flex items-center text-sm text-gray-700 whitespace-nowrap">
+                    <input type="checkbox" checked={journaledOnly} onChange={e => setJournaledOnly(e.target.checked)} className="h-4 w-4 rounded border-gray-300 text-purple-600 focus:ring-purple-500 mr-2" />
+                    Only trades with journal entries
+                </label>
+            </div>
+            {allTags.length > 0 && (
+                <div className="flex flex-wrap items-center gap-1">
+                    <span className="text-xs text-gray-500 mr-1">Filter by tag:</span>
+                    {allTags.map(tag => (
+                        <button
+                            key={tag}
+                            onClick={() => toggleTag(tag)}
+                            className={`px-2 py-0.5 text-xs rounded-full border ${selectedTags.includes(tag) ? 'bg-purple-600 text-white border-purple-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-100'}`}
+                        >
+                            #{tag}
+                        </button>
+                    ))}
+                    {selectedTags.length > 0 && <button onClick={() => setSelectedTags([])} className="text-xs text-purple-600 hover:underline ml-1">Clear</button>}
+                </div>
+            )}
+            <div className="space-y-2 max-h-[32rem] overflow-y-auto">
+                {entries.length > 0
+                    ? entries.map(trade => <JournalEntry key={trade.id} trade={trade} onManage={() => onManage(trade.id)} onTagClick={tag => !selectedTags.includes(tag) && toggleTag(tag)} />)
+                    : <p className="text-center p-4 text-sm text-gray-500">No journal entries match.</p>}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,256 @@
+import React, { useState, useEffect } from 'react';
+import { tradeSimulatorService, Trade } from '../services/tradeSimulatorService';
+import { SIZING_MODE_LABELS } from '../services/positionSizingService';
+import { CloseIcon } from './Icons';
+
+interface TradeManageModalProps {
+  tradeId: string;
+  onClose: () => void;
+}
+
+const formatCurrency = (value: number | null | undefined) => {
+    if (value === null || value === undefined || !isFinite(value)) {
+        return 'N/A';
+    }
+    const fractionDigits = (Math.abs(value) > 0 && Math.abs(value) < 1) ? 6 : 2;
+    return value.toLocaleString('en-US', {
+        style: 'currency',
+        currency: 'USD',
+        minimumFractionDigits: 2,
+        maximumFractionDigits: Math.max(2, fractionDigits)
+    });
+};
+
+const MAX_SNAPSHOT_BYTES = 1024 * 1024; // Keeps localStorage from filling up with screenshots
+
+const findTrade = (tradeId: string): Trade | null => tradeSimulatorService.getAllTrades().find(t => t.id === tradeId) ?? null;
+
+export const TradeManageModal: React.FC<TradeManageModalProps> = ({ tradeId, onClose }) => {
+  const [trade, setTrade] = useState<Trade | null>(() => findTrade(tradeId));
+  const [takeProfit, setTakeProfit] = useState('');
+  const [stopLoss, setStopLoss] = useState('');
+  const [addAmount, setAddAmount] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [notes, setNotes] = useState(() => trade?.notes ?? '');
+  const [tags, setTags] = useState(() => (trade?.tags ?? []).join(', '));
+  const [review, setReview] = useState(() => trade?.review ?? '');
+  const [journalSaved, setJournalSaved] = useState(false);
+
+  useEffect(() => {
+    const updateTrade = () => {
+        const latest = findTrade(tradeId);
+        setTrade(latest ? { ...latest } : null);
+    };
+    tradeSimulatorService.subscribe(updateTrade);
+    updateTrade();
+    return () => tradeSimulatorService.unsubscribe(updateTrade);
+  }, [tradeId]);
+
+  useEffect(() => {
+    if (!trade) return;
+    const { takeProfitPrice, stopLossPrice } = tradeSimulatorService.getTakeProfitStopLoss(trade);
+    setTakeProfit(takeProfitPrice.toString());
+    setStopLoss(stopLossPrice.toString());
+  }, [trade?.takeProfitPrice, trade?.stopLossPrice]);
+
+  if (!trade) return null;
+
+  const isOpen = trade.status === 'open';
+  const history = [...(trade.history ?? [])].reverse();
+
+  const handleSaveExits = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(tradeSimulatorService.updateTradeExits(trade.id, {
+        takeProfitPrice: parseFloat(takeProfit),
+        stopLossPrice: parseFloat(stopLoss),
+    }));
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = tradeSimulatorService.addToPosition(trade.id, parseFloat(addAmount));
+    setError(result);
+    if (!result) setAddAmount('');
+  };
+
+  const handleSaveJournal = (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = tradeSimulatorService.updateJournal(trade.id, {
+        notes,
+        tags: tags.split(/[\s,]+/).filter(Boolean),
+        ...(isOpen ? {} : { review }),
+    });
+    setError(result);
+    setJournalSaved(!result);
+    if (!result) setTimeout(() => setJournalSaved(false), 2000);
+  };
+
+  const handleSnapshotUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (file.size > MAX_SNAPSHOT_BYTES) {
+        setError('Snapshot images must be under 1 MB.');
+        return;
+    }
+    const reader = new FileReader();
+    reader.onload = () => setError(tradeSimulatorService.updateJournal(trade.id, { chartSnapshot: reader.result as string }));
+    reader.readAsDataURL(file);
+  };
+
+  const handleClose = () => {
+    if (window.confirm(`Close the ${trade.coin.symbol} position at ${formatCurrency(trade.lastPrice ?? trade.entryPrice)}?`)) {
+        tradeSimulatorService.closeTradeManually(trade.id);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 backdrop-blur-sm"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="manage-trade-title"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-2xl max-h-[85vh] bg-white border border-gray-200 rounded-lg shadow-2xl flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 flex justify-between items-center border-b border-gray-200 flex-shrink-0">
+          <div>
+            <h2 id="manage-trade-title" className="text-xl font-semibold text-gray-900">Manage {trade.coin.symbol} {trade.direction.toUpperCase()}</h2>
+            <p className="text-sm text-gray-500">
+              Entry {formatCurrency(trade.entryPrice)} · Size {formatCurrency(trade.sizeUSD)} · Last {formatCurrency(trade.lastPrice)} · P/L {formatCurrency(trade.pnl)}
+            </p>
+            <p className="text-xs text-gray-500">
+              Fees {formatCurrency((trade.entryFee ?? 0) + (trade.exitFee ?? 0))} · Slippage {formatCurrency((trade.entrySlippage ?? 0) + (trade.exitSlippage ?? 0))} (included in P/L){trade.feeTier && ` · ${trade.feeTier} tier, ${trade.entryLiquidity ?? 'taker'} entry`}
+            </p>
+            {trade.pipelineRow && (
+              <p className="text-xs text-gray-500">
+                Opened by pipeline row {trade.pipelineRow.rowNumber}: {trade.pipelineRow.decision} {trade.pipelineRow.asset} at {(trade.pipelineRow.score * 100).toFixed(0)}% ({trade.pipelineRow.timestamp})
+              </p>
+            )}
+            {trade.signalEventId && (
+              <p className="text-xs text-gray-500">
+                Opened by signal event {trade.signalEventId}
+              </p>
+            )}
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-800" aria-label="Close trade manager">
+            <CloseIcon />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4 bg-gray-50">
+          {error && <p className="text-sm text-red-600 bg-red-50 border border-red-200 rounded-md p-2">{error}</p>}
+
+          {trade.sizing && (
+            <div className="bg-white p-4 rounded-lg border border-gray-200 shadow-sm">
+              <h3 className="text-md font-bold text-purple-700 mb-2">Position Sizing</h3>
+              <p className="text-sm text-gray-800">{trade.sizing.explanation} = <span className="font-mono font-semibold">{formatCurrency(trade.sizing.sizeUSD)}</span></p>
+              <p className="text-xs text-gray-500 mt-1">Mode: {SIZING_MODE_LABELS[trade.sizing.mode]} · Equity at entry {formatCurrency(trade.sizing.equity)}</p>
+              {trade.sizing.fallback && <p className="text-xs text-yellow-700 mt-1">Fell back to fixed sizing: {trade.sizing.fallback}</p>}
+            </div>
+          )}
+
+          {trade.liquidationPrice !== undefined && (
+            <div className="bg-white p-4 rounded-lg border border-gray-200 shadow-sm">
+              <h3 className="text-md font-bold text-purple-700 mb-2">Margin</h3>
+              <div className="grid grid-cols-2 gap-2 text-sm">
+                <p><span className="text-gray-500">Leverage:</span> <span className="font-mono text-gray-800">{trade.leverage ?? 1}x</span></p>
+                <p><span className="text-gray-500">Margin:</span> <span className="font-mono text-gray-800">{formatCurrency(trade.marginUSD ?? trade.sizeUSD)}</span></p>
+                <p><span className="text-gray-500">Liquidation:</span> <span className="font-mono text-red-900">{formatCurrency(trade.liquidationPrice)}</span></p>
+                <p><span className="text-gray-500">Funding {(trade.fundingPaid ?? 0) < 0 ? 'received' : 'paid'}:</span> <span className="font-mono text-gray-800">{formatCurrency(Math.abs(trade.fundingPaid ?? 0))}</span></p>
+              </div>
+            </div>
+          )}
+
+          {isOpen ? (
+            <>
+              <form onSubmit={handleSaveExits} className="bg-white p-4 rounded-lg border border-gray-200 shadow-sm">
+                <h3 className="text-md font-bold text-purple-700 mb-3">Exits</h3>
+                <div className="grid grid-cols-2 gap-3">
+                  <label className="text-sm text-gray-700">
+                    Take Profit
+                    <input type="number" value={takeProfit} onChange={e => setTakeProfit(e.target.value)} step="any" min="0" className="mt-1 w-full bg-gray-100 border border-gray-300 rounded-lg p-2 text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500" />
+                  </label>
+                  <label className="text-sm text-gray-700">
+                    Stop Loss
+                    <input type="number" value={stopLoss} onChange={e => setStopLoss(e.target.value)} step="any" min="0" className="mt-1 w-full bg-gray-100 border border-gray-300 rounded-lg p-2 text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500" />
+                  </label>
+                </div>
+                <p className="text-xs text-gray-500 mt-2">Max hold: {trade.maxDurationHours ?? 'N/A'}h · Opened under {trade.riskTolerance ?? 'N/A'} / {trade.investmentStyle ?? 'N/A'}</p>
+                <button type="submit" className="mt-3 px-4 py-2 bg-purple-600 text-white font-semibold rounded-lg hover:bg-purple-700">Save Exits</button>
+              </form>
+
+              <form onSubmit={handleAdd} className="bg-white p-4 rounded-lg border border-gray-200 shadow-sm">
+                <h3 className="text-md font-bold text-purple-700 mb-3">Add to Position</h3>
+                <div className="flex gap-2">
+                  <input type="number" value={addAmount} onChange={e => setAddAmount(e.target.value)} placeholder="Amount (USD)" step="any" min="0" className="flex-grow bg-gray-100 border border-gray-300 rounded-lg p-2 text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500" />
+                  <button type="submit" className="px-4 py-2 bg-green-600 text-white font-semibold rounded-lg hover:bg-green-700">Add</button>
+                </div>
+              </form>
+
+              <button onClick={handleClose} className="w-full px-4 py-2 bg-red-100 text-red-800 font-semibold rounded-lg hover:bg-red-200">
+                Close Position at Market
+              </button>
+            </>
+          ) : (
+            <p className="text-sm text-gray-600">This trade closed {trade.closeTimestamp ? new Date(trade.closeTimestamp).toLocaleString() : ''} ({trade.closeReason ?? 'N/A'}).</p>
+          )}
+
+          <form onSubmit={handleSaveJournal} className="bg-white p-4 rounded-lg border border-gray-200 shadow-sm space-y-3">
+            <h3 className="text-md font-bold text-purple-700">Journal</h3>
+            <label className="block text-sm text-gray-700">
+              Notes & Rationale
+              <textarea value={notes} onChange={e => setNotes(e.target.value)} rows={3} placeholder="Why was this trade taken?" className="mt-1 w-full bg-gray-100 border border-gray-300 rounded-lg p-2 text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500" />
+            </label>
+            <label className="block text-sm text-gray-700">
+              Tags
+              <input type="text" value={tags} onChange={e => setTags(e.target.value)} placeholder="breakout, news" className="mt-1 w-full bg-gray-100 border border-gray-300 rounded-lg p-2 text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500" />
+            </label>
+            {!isOpen && (
+              <label className="block text-sm text-gray-700">
+                Post-Trade Review
+                <textarea value={review} onChange={e => setReview(e.target.value)} rows={3} placeholder="What went right or wrong? Would you take it again?" className="mt-1 w-full bg-gray-100 border border-gray-300 rounded-lg p-2 text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500" />
+                {trade.reviewedAt && <span className="block text-xs text-gray-500 mt-1">Last reviewed {new Date(trade.reviewedAt).toLocaleString()}</span>}
+              </label>
+            )}
+            <div>
+              <p className="text-sm text-gray-700 mb-1">Chart Snapshot</p>
+              {trade.chartSnapshot ? (
+                <div className="space-y-2">
+                  <img src={trade.chartSnapshot} alt={`${trade.coin.symbol} chart snapshot`} className="w-full rounded-md border border-gray-200" />
+                  <button type="button" onClick={() => setError(tradeSimulatorService.updateJournal(trade.id, { chartSnapshot: null }))} className="text-xs text-red-600 hover:underline">Remove snapshot</button>
+                </div>
+              ) : (
+                <p className="text-xs text-gray-500 mb-1">Use "Snapshot to Journal" on the live chart, or attach an image.</p>
+              )}
+              <input type="file" accept="image/*" onChange={handleSnapshotUpload} className="text-xs text-gray-600" aria-label="Attach chart snapshot" />
+            </div>
+            <div className="flex items-center gap-3">
+              <button type="submit" className="px-4 py-2 bg-purple-600 text-white font-semibold rounded-lg hover:bg-purple-700">Save Journal</button>
+              {journalSaved && <span className="text-sm text-green-600">Saved.</span>}
+            </div>
+          </form>
+
+          <div className="bg-white p-4 rounded-lg border border-gray-200 shadow-sm">
+            <h3 className="text-md font-bold text-purple-700 mb-3">History</h3>
+            {history.length > 0 ? (
+              <ul className="space-y-2">
+                {history.map((entry, index) => (
+                  <li key={`${entry.timestamp}-${index}`} className="text-sm border-b border-gray-100 pb-2">
+                    <p className="text-xs text-gray-500">{new Date(entry.timestamp).toLocaleString()}</p>
+                    <p className="text-gray-800">{entry.description}</p>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-gray-500">No history recorded for this trade.</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
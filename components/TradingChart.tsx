@@ -3,6 +3,7 @@ import Highcharts from 'highcharts/highstock';
 import HighchartsReact from 'highcharts-react-official';
 import { fetchRawOhlcvData } from '../services/cryptoService';
 import type { CryptoPrice } from '../services/cryptoService';
+import { tradeSimulatorService } from '../services/tradeSimulatorService';
 import type { Trade } from '../services/tradeSimulatorService';
 import { LoadingSpinner } from './LoadingSpinner';
 
@@ -32,11 +33,36 @@ const formatPlotLine = (value: number, label: string, color: string) => ({
     },
 });
 
+// Rasterizes the chart's SVG so the journal stores a compact JPEG rather than the full chart markup.
+const svgToSnapshot = (svg: SVGSVGElement, maxWidth = 800): Promise<string> => new Promise((resolve, reject) => {
+    const { width, height } = svg.getBoundingClientRect();
+    const scale = Math.min(1, maxWidth / width);
+    const image = new Image();
+    image.onload = () => {
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(width * scale);
+        canvas.height = Math.round(height * scale);
+        const ctx = canvas.getContext('2d');
+        if (!ctx) {
+            reject(new Error('Canvas is not available.'));
+            return;
+        }
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+        resolve(canvas.toDataURL('image/jpeg', 0.8));
+    };
+    image.onerror = () => reject(new Error('Could not render the chart.'));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(new XMLSerializer().serializeToString(svg))}`;
+});
+
 export const TradingChart: React.FC<TradingChartProps> = ({ coin, trade, allCoins, onCoinChange }) => {
     const [ohlc, setOhlc] = useState<number[][]>([]);
     const [volume, setVolume] = useState<number[][]>([]);
     const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
+    const [snapshotStatus, setSnapshotStatus] = useState<string | null>(null);
+    const chartComponentRef = useRef<HighchartsReact.RefObject>(null);
 
     useEffect(() => {
         setIsLoading(true);
@@ -81,6 +107,15 @@ export const TradingChart: React.FC<TradingChartProps> = ({ coin, trade, allCoin
             if (trade.stopLossPrice) {
                 lines.push(formatPlotLine(trade.stopLossPrice, 'Stop Loss', '#ef4444')); // red-500
             }
+            if (trade.liquidationPrice) {
+                lines.push(formatPlotLine(trade.liquidationPrice, 'Liquidation', '#7f1d1d')); // red-900
+            }
+            if (trade.trailingStopPrice) {
+                lines.push(formatPlotLine(trade.trailingStopPrice, 'Trailing Stop', '#f97316')); // orange-500
+            }
+            trade.exitRules?.ladder.filter(level => !level.filled).forEach(level => {
+                lines.push(formatPlotLine(level.price, level.label, '#10b981')); // emerald-500
+            });
         }
         return lines;
     }, [trade]);
@@ -157,9 +192,23 @@ export const TradingChart: React.FC<TradingChartProps> = ({ coin, trade, allCoin
         credits: { enabled: false },
     }), [ohlc, volume, coin, plotLines]);
     
+    const handleSnapshot = async () => {
+        const svg = chartComponentRef.current?.chart.container.querySelector('svg');
+        if (!trade || !svg) return;
+        try {
+            const snapshot = await svgToSnapshot(svg);
+            const result = tradeSimulatorService.updateJournal(trade.id, { chartSnapshot: snapshot });
+            setSnapshotStatus(result ?? 'Snapshot saved to the trade journal.');
+        } catch (err) {
+            console.error("Chart snapshot error:", err);
+            setSnapshotStatus('Failed to capture the chart.');
+        }
+        setTimeout(() => setSnapshotStatus(null), 3000);
+    };
+
     return (
         <div className="h-full w-full flex flex-col">
-            <div className="flex-shrink-0 mb-2">
+            <div className="flex-shrink-0 mb-2 flex flex-wrap items-center gap-2">
                 <select
                     value={coin.id}
                     onChange={(e) => {
@@ -170,6 +219,12 @@ export const TradingChart: React.FC<TradingChartProps> = ({ coin, trade, allCoin
                 >
                     {allCoins.map(c => <option key={c.id} value={c.id}>{c.name} ({c.symbol})</option>)}
                 </select>
+                {trade && !isLoading && !error && (
+                    <button onClick={handleSnapshot} className="px-3 py-1.5 text-sm font-semibold rounded-md bg-gray-100 hover:bg-gray-200 text-gray-700 border border-gray-300">
+                        Snapshot to Journal
+                    </button>
+                )}
+                {snapshotStatus && <span className="text-xs text-gray-500">{snapshotStatus}</span>}
             </div>
             <div className="flex-grow h-full w-full relative">
                 {isLoading && <div className="absolute inset-0 flex items-center justify-center bg-white/50 z-10"><LoadingSpinner /></div>}
@@ -179,6 +234,7 @@ export const TradingChart: React.FC<TradingChartProps> = ({ coin, trade, allCoin
                         highcharts={Highcharts}
                         constructorType={'stockChart'}
                         options={chartOptions}
+                        ref={chartComponentRef}
                     />
                 )}
             </div>
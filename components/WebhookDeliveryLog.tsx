@@ -0,0 +1,89 @@
+import React, { useState, useEffect } from 'react';
+import { webhookService, WebhookDelivery, WebhookDeliveryStatus } from '../services/webhookService';
+
+const STATUS_STYLES: Record<WebhookDeliveryStatus, string> = {
+    pending: 'bg-yellow-100 text-yellow-800',
+    delivered: 'bg-green-100 text-green-800',
+    failed: 'bg-red-100 text-red-800',
+};
+
+const DeliveryRow: React.FC<{ delivery: WebhookDelivery }> = ({ delivery }) => {
+    const [expanded, setExpanded] = useState(false);
+    const lastAttempt = delivery.attempts[delivery.attempts.length - 1];
+
+    return (
+        <>
+            <tr className="border-b border-gray-200 hover:bg-gray-50 cursor-pointer" onClick={() => setExpanded(e => !e)}>
+                <td className="p-3 text-gray-500 whitespace-nowrap">{new Date(delivery.createdAt).toLocaleString()}</td>
+                <td className="p-3 text-gray-700">
+                    <span className="font-mono">{delivery.event}</span>
+                    {delivery.endpointName && <span className="block text-[10px] text-gray-500">to {delivery.endpointName}</span>}
+                </td>
+                <td className="p-3">
+                    <span className={`px-2 py-1 text-xs font-semibold rounded-md ${STATUS_STYLES[delivery.status]}`}>{delivery.status}</span>
+                    {delivery.status === 'pending' && delivery.nextAttemptAt && (
+                        <span className="block text-[10px] text-gray-500 mt-1">next try {new Date(delivery.nextAttemptAt).toLocaleTimeString()}</span>
+                    )}
+                </td>
+                <td className="p-3 font-mono text-gray-700">{lastAttempt ? lastAttempt.statusCode ?? 'No response' : '—'}</td>
+                <td className="p-3 text-gray-700">{delivery.attempts.length}</td>
+                <td className="p-3 text-center">
+                    <button
+                        onClick={e => { e.stopPropagation(); webhookService.redeliver(delivery.id); }}
+                        className="px-3 py-1 text-xs font-semibold rounded-md bg-gray-100 hover:bg-gray-200 text-gray-700"
+                    >
+                        Redeliver
+                    </button>
+                </td>
+            </tr>
+            {expanded && (
+                <tr className="border-b border-gray-200 bg-gray-50">
+                    <td colSpan={6} className="p-3 text-xs text-gray-700 space-y-2">
+                        <p><span className="text-gray-500">Delivery / idempotency key:</span> <span className="font-mono">{delivery.id}</span></p>
+                        <p><span className="text-gray-500">URL:</span> <span className="font-mono break-all">{delivery.url}</span> · {delivery.attempts.some(attempt => attempt.signature) ? 'Signed' : 'Unsigned'}</p>
+                        <ul className="space-y-0.5">
+                            {delivery.attempts.map((attempt, index) => (
+                                <li key={index} className="font-mono">
+                                    #{index + 1} {new Date(attempt.timestamp).toLocaleTimeString()} · {attempt.statusCode ?? 'no response'} · {attempt.durationMs}ms{attempt.error ? ` · ${attempt.error}` : ''}
+                                </li>
+                            ))}
+                        </ul>
+                        <pre className="bg-white border border-gray-200 rounded p-2 overflow-x-auto max-h-40">{delivery.body}</pre>
+                    </td>
+                </tr>
+            )}
+        </>
+    );
+};
+
+export const WebhookDeliveryLog: React.FC = () => {
+    const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+
+    useEffect(() => {
+        const updateDeliveries = () => setDeliveries([...webhookService.getDeliveries()]);
+        webhookService.subscribe(updateDeliveries);
+        updateDeliveries();
+        return () => webhookService.unsubscribe(updateDeliveries);
+    }, []);
+
+    return (
+        <div className="space-y-2">
+            <div className="overflow-x-auto max-h-96 overflow-y-auto">
+                <table className="w-full text-sm text-left">
+                    <thead className="bg-gray-50 text-xs text-gray-500 uppercase sticky top-0">
+                        <tr>
+                            <th className="p-3">Time</th><th className="p-3">Event</th><th className="p-3">Status</th><th className="p-3">HTTP</th><th className="p-3">Attempts</th><th className="p-3 text-center">Actions</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {deliveries.length > 0 ? deliveries.slice(0, 50).map(delivery => <DeliveryRow key={delivery.id} delivery={delivery} />)
+                            : <tr><td colSpan={6} className="text-center p-4 text-gray-500">No webhook deliveries yet.</td></tr>}
+                    </tbody>
+                </table>
+            </div>
+            {deliveries.length > 0 && (
+                <button onClick={() => webhookService.clearDeliveries()} className="text-xs text-gray-500 hover:text-red-600 hover:underline">Clear log</button>
+            )}
+        </div>
+    );
+};
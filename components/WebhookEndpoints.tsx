@@ -0,0 +1,139 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { webhookService, WebhookEndpoint, WebhookEventType, WebhookFormat, WEBHOOK_EVENT_LABELS } from '../services/webhookService';
+import { renderWebhookBody, SAMPLE_WEBHOOK_EVENT, WEBHOOK_FORMAT_LABELS } from '../services/webhookTemplates';
+import { LoadingSpinner } from './LoadingSpinner';
+
+const inputClass = "w-full bg-gray-100 border border-gray-300 rounded-lg p-2 text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500";
+
+const generateSecret = () => Array.from(crypto.getRandomValues(new Uint8Array(32))).map(b => b.toString(16).padStart(2, '0')).join('');
+
+const EndpointEditor: React.FC<{ endpoint: WebhookEndpoint }> = ({ endpoint }) => {
+    const [draft, setDraft] = useState<WebhookEndpoint>(endpoint);
+    const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null);
+    const [isTesting, setIsTesting] = useState(false);
+
+    // The service also notifies on every delivery, so only reset the draft when the saved endpoint really changed.
+    const savedJson = JSON.stringify(endpoint);
+    useEffect(() => setDraft(endpoint), [savedJson]);
+
+    const isDirty = JSON.stringify(draft) !== savedJson;
+    const preview = useMemo(() => renderWebhookBody(draft.format, SAMPLE_WEBHOOK_EVENT, draft.template).body, [draft.format, draft.template]);
+
+    const update = (changes: Partial<WebhookEndpoint>) => setDraft(d => ({ ...d, ...changes }));
+
+    const toggleEvent = (event: WebhookEventType) => {
+        update({ events: draft.events.includes(event) ? draft.events.filter(e => e !== event) : [...draft.events, event] });
+    };
+
+    const handleSave = () => {
+        const { id, ...changes } = draft;
+        const error = webhookService.updateEndpoint(id, { ...changes, maxAttempts: Math.max(1, Math.round(changes.maxAttempts) || 1) });
+        setMessage(error ? { ok: false, text: error } : { ok: true, text: 'Saved.' });
+    };
+
+    const handleTest = async () => {
+        setIsTesting(true);
+        setMessage(null);
+        const delivery = await webhookService.testEndpoint(endpoint.id);
+        setIsTesting(false);
+        const lastAttempt = delivery?.attempts[delivery.attempts.length - 1];
+        if (!delivery) {
+            setMessage({ ok: false, text: 'Please save a valid URL first.' });
+        } else if (delivery.status === 'delivered') {
+            setMessage({ ok: true, text: `Test event delivered (HTTP ${lastAttempt?.statusCode}).` });
+        } else {
+            const retrying = delivery.status === 'pending' ? ' Retrying in the background.' : '';
+            setMessage({ ok: false, text: `Test failed: ${lastAttempt?.error ?? 'no response'}.${retrying}` });
+        }
+    };
+
+    const handleRemove = () => {
+        if (window.confirm(`Remove the "${endpoint.name}" webhook endpoint?`)) {
+            webhookService.removeEndpoint(endpoint.id);
+        }
+    };
+
+    return (
+        <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+            <div className="flex flex-col sm:flex-row gap-2">
+                <input type="text" value={draft.name} onChange={e => update({ name: e.target.value })} aria-label="Endpoint name" className={`${inputClass} sm:w-48`} />
+                <input type="text" value={draft.url} onChange={e => update({ url: e.target.value })} placeholder="https://example.com/webhook" aria-label="Endpoint URL" className={inputClass} />
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Payload Format</label>
+                    <select value={draft.format} onChange={e => update({ format: e.target.value as WebhookFormat })} className={inputClass}>
+                        {(Object.keys(WEBHOOK_FORMAT_LABELS) as WebhookFormat[]).map(format => <option key={format} value={format}>{WEBHOOK_FORMAT_LABELS[format]}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Delivery Attempts</label>
+                    <input type="number" min="1" max="10" step="1" value={draft.maxAttempts} onChange={e => update({ maxAttempts: parseInt(e.target.value, 10) })} className={inputClass} />
+                </div>
+            </div>
+            {draft.format === 'custom' && (
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Template</label>
+                    <textarea value={draft.template} onChange={e => update({ template: e.target.value })} rows={3} className={`${inputClass} font-mono text-xs`} />
+                    <p className="text-xs text-gray-500 mt-1">Use placeholders like {'{{type}}'}, {'{{trade.coin.symbol}}'}, {'{{trade.pnl}}'}, {'{{signalEvent.signal.title}}'} or {'{{experiment.title}}'}. JSON templates are sent as application/json.</p>
+                </div>
+            )}
+            <details className="text-xs text-gray-600">
+                <summary className="cursor-pointer font-medium text-gray-700">Preview (sample trade_close)</summary>
+                <pre className="mt-1 bg-gray-50 border border-gray-200 rounded p-2 overflow-x-auto max-h-40 whitespace-pre-wrap break-all">{preview}</pre>
+            </details>
+            <div>
+                <p className="text-sm font-medium text-gray-700 mb-1">Events</p>
+                <div className="flex flex-wrap gap-x-4 gap-y-1">
+                    {(Object.keys(WEBHOOK_EVENT_LABELS) as (keyof typeof WEBHOOK_EVENT_LABELS)[]).map(event => (
+                        <label key={event} className="flex items-center text-sm text-gray-700">
+                            <input type="checkbox" checked={draft.events.includes(event)} onChange={() => toggleEvent(event)} className="h-4 w-4 rounded border-gray-300 text-purple-600 focus:ring-purple-500 mr-2" />
+                            {WEBHOOK_EVENT_LABELS[event]}
+                        </label>
+                    ))}
+                </div>
+            </div>
+            <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Signing Secret</label>
+                <div className="flex gap-2">
+                    <input type="password" autoComplete="off" placeholder="Leave empty to send unsigned" value={draft.secret} onChange={e => update({ secret: e.target.value })} className={`${inputClass} font-mono`} />
+                    <button onClick={() => update({ secret: generateSecret() })} className="px-4 py-2 bg-gray-100 text-gray-800 font-semibold rounded-lg hover:bg-gray-200">Generate</button>
+                    <button onClick={() => navigator.clipboard?.writeText(draft.secret)} disabled={!draft.secret} className="px-4 py-2 bg-gray-100 text-gray-800 font-semibold rounded-lg hover:bg-gray-200 disabled:text-gray-400">Copy</button>
+                </div>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+                <label className="flex items-center text-sm text-gray-700 mr-2">
+                    <input type="checkbox" checked={draft.enabled} onChange={e => update({ enabled: e.target.checked })} className="h-4 w-4 rounded border-gray-300 text-purple-600 focus:ring-purple-500 mr-2" />
+                    Enabled
+                </label>
+                <button onClick={handleSave} disabled={!isDirty} className="px-4 py-2 bg-purple-600 text-white font-semibold rounded-lg hover:bg-purple-700 disabled:bg-gray-400">Save</button>
+                <button onClick={handleTest} disabled={isTesting || isDirty || !endpoint.url} className="px-4 py-2 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 disabled:bg-gray-400">
+                    {isTesting ? <LoadingSpinner /> : 'Test'}
+                </button>
+                <button onClick={handleRemove} className="px-4 py-2 bg-red-100 text-red-800 font-semibold rounded-lg hover:bg-red-200">Remove</button>
+                {message && <span className={`text-xs ${message.ok ? 'text-green-600' : 'text-red-600'}`}>{message.text}</span>}
+            </div>
+        </div>
+    );
+};
+
+export const WebhookEndpoints: React.FC = () => {
+    const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([]);
+
+    useEffect(() => {
+        const updateEndpoints = () => setEndpoints(webhookService.getEndpoints().map(e => ({ ...e })));
+        webhookService.subscribe(updateEndpoints);
+        updateEndpoints();
+        return () => webhookService.unsubscribe(updateEndpoints);
+    }, []);
+
+    return (
+        <div className="space-y-3">
+            {endpoints.length > 0
+                ? endpoints.map(endpoint => <EndpointEditor key={endpoint.id} endpoint={endpoint} />)
+                : <p className="text-sm text-gray-500">No webhook endpoints configured.</p>}
+            <button onClick={() => webhookService.addEndpoint()} className="px-4 py-2 bg-gray-100 text-gray-800 font-semibold rounded-lg hover:bg-gray-200">Add Endpoint</button>
+            <p className="text-xs text-gray-500">Signed payloads carry X-Jax-Signature: sha256=HMAC(secret, "timestamp.body"), with the timestamp in X-Jax-Timestamp. Each event has a stable Idempotency-Key. Failed deliveries are retried with exponential backoff (2s, 4s, 8s...); client errors other than 408/429 are not retried.</p>
+        </div>
+    );
+};
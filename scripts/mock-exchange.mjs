@@ -0,0 +1,327 @@
+// A local, in-memory exchange that speaks a subset of the Coinbase Advanced Trade REST API, for building and
+// testing the live-execution path without real keys. Spot only, USD quoted. Start it with `npm run mock-exchange`.
+//
+// Brokerage endpoints (under /api/v3/brokerage) need the HMAC headers the app's exchange adapter sends:
+// CB-ACCESS-KEY, CB-ACCESS-TIMESTAMP (seconds) and CB-ACCESS-SIGN, the hex HMAC-SHA256 of
+// timestamp + method + path (with query) + body keyed with the secret.
+//
+// Mock controls, unauthenticated:
+//   POST /mock/prices  {"prices": {"BTC": 61000}}  moves prices and matches resting orders
+//   POST /mock/reset                                 restores the starting balances and prices
+//   GET  /mock/state                                 dumps balances, prices, orders and fills
+//
+// Environment: MOCK_EXCHANGE_PORT (8787), MOCK_EXCHANGE_KEY (mock-key), MOCK_EXCHANGE_SECRET (mock-secret),
+// MOCK_EXCHANGE_USD (100000), MOCK_EXCHANGE_TICK_MS (5000; random-walk interval for prices, 0 turns it off).
+
+import { createServer } from 'node:http';
+import { createHmac, randomUUID, timingSafeEqual } from 'node:crypto';
+
+const PORT = Number(process.env.MOCK_EXCHANGE_PORT ?? 8787);
+const API_KEY = process.env.MOCK_EXCHANGE_KEY ?? 'mock-key';
+const API_SECRET = process.env.MOCK_EXCHANGE_SECRET ?? 'mock-secret';
+const STARTING_USD = Number(process.env.MOCK_EXCHANGE_USD ?? 100000);
+const TICK_MS = Number(process.env.MOCK_EXCHANGE_TICK_MS ?? 5000);
+const API_PREFIX = '/api/v3/brokerage';
+const MAX_CLOCK_SKEW_SECONDS = 30;
+// Coinbase's Intro 2 tier.
+const MAKER_FEE = 0.004;
+const TAKER_FEE = 0.006;
+const BASE_UNITS = 1e8; // Base sizes are whole multiples of 0.00000001
+const STARTING_PRICES = { BTC: 60000, ETH: 3000, SOL: 150, XRP: 0.6, DOGE: 0.15 };
+
+let state;
+
+const reset = () => {
+    state = {
+        prices: { ...STARTING_PRICES },
+        accounts: new Map([['USD', { available: STARTING_USD, hold: 0 }]]),
+        orders: new Map(), // By order ID, oldest first
+        fills: [],
+    };
+};
+
+const account = currency => {
+    if (!state.accounts.has(currency)) state.accounts.set(currency, { available: 0, hold: 0 });
+    return state.accounts.get(currency);
+};
+
+const baseOf = productId => productId.split('-')[0];
+const amount = value => value.toFixed(8);
+
+const toExchangeOrder = order => ({
+    order_id: order.id,
+    client_order_id: order.clientOrderId,
+    product_id: order.productId,
+    user_id: 'mock-user',
+    side: order.side,
+    order_type: order.type,
+    status: order.status,
+    order_configuration: order.configuration,
+    created_time: order.createdAt,
+    completion_percentage: order.status === 'FILLED' ? '100' : '0',
+    filled_size: amount(order.filledSize),
+    filled_value: amount(order.filledValue),
+    average_filled_price: order.filledSize > 0 ? amount(order.filledValue / order.filledSize) : '0',
+    number_of_fills: String(order.fillCount),
+    total_fees: amount(order.fees),
+    reject_reason: order.rejectReason ?? '',
+});
+
+// Base size in whole increments, so balances stay exact at the precision they're reported in.
+const orderSize = (order, price) => Math.floor((order.baseSize ?? order.quoteSize / price) * BASE_UNITS) / BASE_UNITS;
+
+// Fills the whole order at `price`, moving held funds (resting orders) or available funds (immediate fills).
+const fill = (order, price, liquidity) => {
+    const base = account(baseOf(order.productId));
+    const usd = account('USD');
+    const size = orderSize(order, price);
+    const value = size * price;
+    const fee = value * (liquidity === 'MAKER' ? MAKER_FEE : TAKER_FEE);
+    if (order.side === 'BUY') {
+        usd.hold -= order.heldAmount;
+        usd.available += order.heldAmount - value - fee;
+        base.available += size;
+    } else {
+        base.hold -= order.heldAmount;
+        base.available += order.heldAmount - size;
+        usd.available += value - fee;
+    }
+    order.heldAmount = 0;
+    order.status = 'FILLED';
+    order.filledSize = size;
+    order.filledValue = value;
+    order.fees = fee;
+    order.fillCount = 1;
+    state.fills.push({
+        entry_id: randomUUID(),
+        trade_id: randomUUID(),
+        order_id: order.id,
+        trade_time: new Date().toISOString(),
+        trade_type: 'FILL',
+        price: amount(price),
+        size: amount(size),
+        commission: amount(fee),
+        product_id: order.productId,
+        side: order.side,
+        liquidity_indicator: liquidity,
+        size_in_quote: false,
+    });
+    console.log(`Filled ${order.side} ${amount(size)} ${order.productId} at ${price} (${liquidity}, fee ${fee.toFixed(2)})`);
+};
+
+// Whether the account can fund the order right now, including the taker fee on a buy.
+const canFund = (order, price) => {
+    const size = orderSize(order, price);
+    if (order.side === 'BUY') return account('USD').available >= size * price * (1 + TAKER_FEE);
+    return account(baseOf(order.productId)).available >= size;
+};
+
+const isMarketable = (order, price) => order.side === 'BUY' ? price <= order.limitPrice : price >= order.limitPrice;
+
+const matchOrders = () => {
+    state.orders.forEach(order => {
+        if (order.status !== 'OPEN') return;
+        const price = state.prices[baseOf(order.productId)];
+        if (order.stopPrice !== undefined && !order.triggered) {
+            const crossed = order.stopDirection === 'STOP_DIRECTION_STOP_UP' ? price >= order.stopPrice : price <= order.stopPrice;
+            if (!crossed) return;
+            order.triggered = true;
+            if (isMarketable(order, price)) return fill(order, price, 'TAKER');
+        }
+        if (isMarketable(order, price)) fill(order, order.limitPrice, 'MAKER');
+    });
+};
+
+const reject = (order, reason) => {
+    order.status = 'FAILED';
+    order.rejectReason = reason;
+    return { success: false, failure_reason: reason, order_id: order.id, error_response: { error: reason, message: reason } };
+};
+
+const createOrder = body => {
+    const existing = [...state.orders.values()].find(o => o.clientOrderId === body.client_order_id);
+    if (existing) return { success: existing.status !== 'FAILED', order_id: existing.id, success_response: { order_id: existing.id, product_id: existing.productId, side: existing.side, client_order_id: existing.clientOrderId } };
+
+    const configuration = body.order_configuration ?? {};
+    const market = configuration.market_market_ioc;
+    const limit = configuration.limit_limit_gtc;
+    const stop = configuration.stop_limit_stop_limit_gtc;
+    const order = {
+        id: randomUUID(),
+        clientOrderId: body.client_order_id ?? randomUUID(),
+        productId: body.product_id,
+        side: body.side,
+        type: market ? 'MARKET' : limit ? 'LIMIT' : 'STOP_LIMIT',
+        configuration,
+        status: 'OPEN',
+        createdAt: new Date().toISOString(),
+        baseSize: Number((market ?? limit ?? stop ?? {}).base_size) || undefined,
+        quoteSize: Number(market?.quote_size) || undefined,
+        limitPrice: Number((limit ?? stop)?.limit_price) || undefined,
+        stopPrice: stop ? Number(stop.stop_price) : undefined,
+        stopDirection: stop?.stop_direction,
+        heldAmount: 0,
+        filledSize: 0,
+        filledValue: 0,
+        fees: 0,
+        fillCount: 0,
+    };
+    state.orders.set(order.id, order);
+
+    const price = state.prices[baseOf(order.productId ?? '')];
+    if (price === undefined || !String(order.productId).endsWith('-USD')) return reject(order, 'INVALID_PRODUCT_ID');
+    if (order.side !== 'BUY' && order.side !== 'SELL') return reject(order, 'INVALID_SIDE');
+    if (!market && !limit && !stop) return reject(order, 'UNSUPPORTED_ORDER_CONFIGURATION');
+    if (!(order.baseSize > 0) && !(order.quoteSize > 0)) return reject(order, 'INVALID_SIZE');
+    if (!market && !(order.limitPrice > 0)) return reject(order, 'INVALID_LIMIT_PRICE');
+    if (stop && !(order.stopPrice > 0)) return reject(order, 'INVALID_STOP_PRICE');
+
+    if (market) {
+        if (!canFund(order, price)) return reject(order, 'INSUFFICIENT_FUND');
+        fill(order, price, 'TAKER');
+    } else {
+        // Resting orders hold the funds they could need: quote plus the taker fee for buys, base for sells.
+        const held = order.side === 'BUY' ? order.baseSize * order.limitPrice * (1 + TAKER_FEE) : order.baseSize;
+        const funding = account(order.side === 'BUY' ? 'USD' : baseOf(order.productId));
+        if (funding.available < held) return reject(order, 'INSUFFICIENT_FUND');
+        funding.available -= held;
+        funding.hold += held;
+        order.heldAmount = held;
+        if (!stop && isMarketable(order, price)) fill(order, price, 'TAKER');
+        else matchOrders();
+    }
+    console.log(`Order ${order.id} ${order.side} ${order.productId} ${order.type}: ${order.status}`);
+    return { success: true, order_id: order.id, success_response: { order_id: order.id, product_id: order.productId, side: order.side, client_order_id: order.clientOrderId } };
+};
+
+const cancelOrders = orderIds => ({
+    results: (orderIds ?? []).map(orderId => {
+        const order = state.orders.get(orderId);
+        if (!order) return { success: false, failure_reason: 'UNKNOWN_CANCEL_ORDER', order_id: orderId };
+        if (order.status !== 'OPEN') return { success: false, failure_reason: 'INVALID_CANCEL_REQUEST', order_id: orderId };
+        const funding = account(order.side === 'BUY' ? 'USD' : baseOf(order.productId));
+        funding.hold -= order.heldAmount;
+        funding.available += order.heldAmount;
+        order.heldAmount = 0;
+        order.status = 'CANCELLED';
+        return { success: true, failure_reason: 'UNKNOWN_CANCEL_FAILURE_REASON', order_id: orderId };
+    }),
+});
+
+const toAccounts = () => [...state.accounts.entries()].map(([currency, { available, hold }]) => ({
+    uuid: `mock-${currency.toLowerCase()}`,
+    name: `${currency} Wallet`,
+    currency,
+    available_balance: { value: amount(available), currency },
+    hold: { value: amount(hold), currency },
+    active: true,
+    type: currency === 'USD' ? 'ACCOUNT_TYPE_FIAT' : 'ACCOUNT_TYPE_CRYPTO',
+}));
+
+const isAuthorized = (req, path, body) => {
+    const key = req.headers['cb-access-key'];
+    const timestamp = req.headers['cb-access-timestamp'];
+    const signature = req.headers['cb-access-sign'];
+    if (key !== API_KEY || typeof timestamp !== 'string' || typeof signature !== 'string') return false;
+    if (Math.abs(Date.now() / 1000 - Number(timestamp)) > MAX_CLOCK_SKEW_SECONDS) return false;
+    const expected = createHmac('sha256', API_SECRET).update(`${timestamp}${req.method}${path}${body}`).digest('hex');
+    return expected.length === signature.length && timingSafeEqual(Buffer.from(expected), Buffer.from(signature));
+};
+
+const route = (req, url, body) => {
+    const { pathname, searchParams } = url;
+    const json = body ? JSON.parse(body) : {};
+
+    if (pathname === '/mock/prices' && req.method === 'POST') {
+        Object.entries(json.prices ?? {}).forEach(([symbol, price]) => {
+            if (Number(price) > 0) state.prices[symbol.toUpperCase()] = Number(price);
+        });
+        matchOrders();
+        return [200, { prices: state.prices }];
+    }
+    if (pathname === '/mock/reset' && req.method === 'POST') {
+        reset();
+        return [200, { ok: true }];
+    }
+    if (pathname === '/mock/state' && req.method === 'GET') {
+        return [200, { prices: state.prices, accounts: toAccounts(), orders: [...state.orders.values()].map(toExchangeOrder), fills: state.fills }];
+    }
+
+    if (!pathname.startsWith(API_PREFIX)) return [404, { error: 'NOT_FOUND', message: `No route for ${pathname}` }];
+    if (!isAuthorized(req, `${pathname}${url.search}`, body)) return [401, { error: 'UNAUTHENTICATED', message: 'Invalid API key or signature.' }];
+    const path = pathname.slice(API_PREFIX.length);
+
+    if (path === '/accounts' && req.method === 'GET') {
+        const accounts = toAccounts();
+        return [200, { accounts, has_next: false, cursor: '', size: accounts.length }];
+    }
+    if (path.startsWith('/products/') && req.method === 'GET') {
+        const productId = decodeURIComponent(path.slice('/products/'.length));
+        const price = state.prices[baseOf(productId)];
+        if (price === undefined) return [404, { error: 'NOT_FOUND', message: `Unknown product ${productId}` }];
+        return [200, { product_id: productId, price: String(price), base_currency_id: baseOf(productId), quote_currency_id: 'USD' }];
+    }
+    if (path === '/orders' && req.method === 'POST') return [200, createOrder(json)];
+    if (path === '/orders/batch_cancel' && req.method === 'POST') return [200, cancelOrders(json.order_ids)];
+    if (path === '/orders/historical/batch' && req.method === 'GET') {
+        const statuses = searchParams.getAll('order_status');
+        const productId = searchParams.get('product_id');
+        const orders = [...state.orders.values()]
+            .filter(o => (statuses.length === 0 || statuses.includes(o.status)) && (!productId || o.productId === productId))
+            .reverse()
+            .map(toExchangeOrder);
+        return [200, { orders, has_next: false, cursor: '' }];
+    }
+    if (path === '/orders/historical/fills' && req.method === 'GET') {
+        const orderId = searchParams.get('order_id');
+        const fills = state.fills.filter(f => !orderId || f.order_id === orderId).slice().reverse();
+        return [200, { fills, cursor: '' }];
+    }
+    if (path.startsWith('/orders/historical/') && req.method === 'GET') {
+        const order = state.orders.get(decodeURIComponent(path.slice('/orders/historical/'.length)));
+        if (!order) return [404, { error: 'NOT_FOUND', message: 'Order not found.' }];
+        return [200, { order: toExchangeOrder(order) }];
+    }
+    return [404, { error: 'NOT_FOUND', message: `No route for ${req.method} ${pathname}` }];
+};
+
+const CORS_HEADERS = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, CB-ACCESS-KEY, CB-ACCESS-SIGN, CB-ACCESS-TIMESTAMP',
+};
+
+reset();
+
+const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+        if (req.method === 'OPTIONS') {
+            res.writeHead(204, CORS_HEADERS);
+            return res.end();
+        }
+        let status;
+        let payload;
+        try {
+            [status, payload] = route(req, new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`), body);
+        } catch (error) {
+            [status, payload] = [400, { error: 'INVALID_ARGUMENT', message: error instanceof Error ? error.message : String(error) }];
+        }
+        res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(payload));
+    });
+});
+
+if (TICK_MS > 0) {
+    setInterval(() => {
+        Object.keys(state.prices).forEach(symbol => {
+            state.prices[symbol] *= 1 + (Math.random() - 0.5) * 0.002;
+        });
+        matchOrders();
+    }, TICK_MS).unref();
+}
+
+server.listen(PORT, () => {
+    console.log(`Mock exchange listening on http://localhost:${PORT} (key "${API_KEY}", secret "${API_SECRET}")`);
+});
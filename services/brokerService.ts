@@ -0,0 +1,303 @@
+import { fetchLivePricing, CryptoPrice } from './cryptoService';
+import { tradeSimulatorService, TradeSimulatorService, Trade, PendingOrder } from './tradeSimulatorService';
+import type { Liquidity } from './executionCostService';
+import { CoinbaseAdvancedAdapter, ExchangeConnectionConfig } from './coinbaseAdvancedAdapter';
+
+export type BrokerOrderType = 'market' | 'limit' | 'stop';
+export type BrokerOrderStatus = 'open' | 'filled' | 'cancelled' | 'rejected';
+
+export interface BrokerOrderRequest {
+    clientOrderId: string; // Idempotency key: placing the same ID again returns the original order
+    symbol: string; // Base asset, e.g. 'BTC'; always quoted in USD
+    side: 'buy' | 'sell';
+    type: BrokerOrderType;
+    sizeUSD: number; // Quote notional
+    price?: number; // Limit price, or the trigger of a stop; required unless the order is a market order
+}
+
+export interface BrokerOrder {
+    id: string;
+    clientOrderId: string;
+    symbol: string;
+    side: 'buy' | 'sell';
+    type: BrokerOrderType;
+    status: BrokerOrderStatus;
+    sizeUSD: number;
+    price: number | null;
+    filledSizeUSD: number;
+    averageFillPrice: number | null;
+    createdAt: number;
+    reason?: string; // Why the order was rejected
+}
+
+export interface BrokerPosition {
+    symbol: string;
+    side: 'long' | 'short';
+    quantity: number; // Base units
+    averageEntryPrice: number | null; // null when the venue doesn't report it
+}
+
+export interface BrokerBalance {
+    currency: string;
+    available: number;
+    hold: number; // Reserved by open orders, or by margin on the paper wallet
+}
+
+export interface BrokerFill {
+    id: string;
+    orderId: string;
+    symbol: string;
+    side: 'buy' | 'sell';
+    price: number;
+    quantity: number;
+    fee: number;
+    liquidity: Liquidity;
+    timestamp: number;
+}
+
+/**
+ * One execution venue. The paper adapter follows the simulator's margin model, where a sell opens a short;
+ * on a spot exchange a sell can only reduce holdings. closePosition flattens a symbol on either.
+ */
+export interface BrokerAdapter {
+    readonly name: string;
+    placeOrder(request: BrokerOrderRequest): Promise<BrokerOrder>;
+    cancelOrder(orderId: string): Promise<boolean>;
+    closePosition(symbol: string): Promise<boolean>;
+    getOpenOrders(): Promise<BrokerOrder[]>;
+    getPositions(): Promise<BrokerPosition[]>;
+    getBalances(): Promise<BrokerBalance[]>;
+    getFills(): Promise<BrokerFill[]>;
+}
+
+const findLiveCoin = async (symbol: string): Promise<CryptoPrice | undefined> =>
+    (await fetchLivePricing()).find(coin => coin.symbol.toUpperCase() === symbol.toUpperCase());
+
+const getUnits = (trade: Trade, simulator: TradeSimulatorService) =>
+    (trade.sizeUSD / trade.entryPrice) * simulator.getRemainingFraction(trade);
+
+// `fill` is the trade a filled order opened, for its fill size and price.
+const toBrokerOrder = (order: PendingOrder, clientOrderId: string, sizeUSD: number, fill?: Trade): BrokerOrder => ({
+    id: order.id,
+    clientOrderId,
+    symbol: order.coin.symbol.toUpperCase(),
+    side: order.direction,
+    type: order.type,
+    status: order.status === 'pending' ? 'open' : order.status === 'filled' ? 'filled' : order.status === 'rejected' ? 'rejected' : 'cancelled',
+    sizeUSD: order.sizeUSD ?? sizeUSD,
+    price: order.triggerPrice,
+    filledSizeUSD: fill?.sizeUSD ?? 0,
+    averageFillPrice: fill?.entryPrice ?? null,
+    createdAt: order.createdAt,
+    reason: order.statusReason,
+});
+
+// Executes against the current paper portfolio. Market orders fill at the live price like any simulator entry.
+export class PaperBrokerAdapter implements BrokerAdapter {
+    readonly name = 'Paper wallet';
+    // By client order ID, for this session. Stored before the first await, so a repeat that arrives while the
+    // original is still being placed gets the same order instead of opening a second one.
+    private placed = new Map<string, Promise<BrokerOrder>>();
+
+    constructor(
+        private simulator: TradeSimulatorService = tradeSimulatorService,
+        private resolveCoin: (symbol: string) => Promise<CryptoPrice | undefined> = findLiveCoin,
+    ) {}
+
+    placeOrder(request: BrokerOrderRequest): Promise<BrokerOrder> {
+        const existing = this.placed.get(request.clientOrderId);
+        if (existing) return existing.then(order => this.refresh(order));
+
+        const placing = this.submit(request);
+        this.placed.set(request.clientOrderId, placing);
+        // A placement that threw never reached the simulator, so it may be tried again.
+        placing.catch(() => this.placed.delete(request.clientOrderId));
+        return placing;
+    }
+
+    private async submit(request: BrokerOrderRequest): Promise<BrokerOrder> {
+        const symbol = request.symbol.toUpperCase();
+        const base: BrokerOrder = {
+            id: `paper-${request.clientOrderId}`,
+            clientOrderId: request.clientOrderId,
+            symbol,
+            side: request.side,
+            type: request.type,
+            status: 'rejected',
+            sizeUSD: request.sizeUSD,
+            price: request.price ?? null,
+            filledSizeUSD: 0,
+            averageFillPrice: null,
+            createdAt: Date.now(),
+        };
+        const coin = await this.resolveCoin(symbol);
+        let order: BrokerOrder;
+        if (!coin) {
+            order = { ...base, reason: `No live price for ${symbol}.` };
+        } else if (!(request.sizeUSD > 0)) {
+            order = { ...base, reason: 'Size must be a positive amount.' };
+        } else if (request.type === 'market') {
+            const trade = this.simulator.executeTrade(coin, request.side, { sizeUSD: request.sizeUSD, notes: `Broker order ${request.clientOrderId}.`, tags: ['broker'] });
+            order = trade
+                ? { ...base, id: trade.id, status: 'filled', filledSizeUSD: trade.sizeUSD, averageFillPrice: trade.entryPrice }
+                : { ...base, reason: this.simulator.getRejectedOrders()[0]?.reason ?? 'Rejected by the simulator.' };
+        } else {
+            const pending = this.simulator.placeOrder(coin, request.side, request.type, request.price ?? NaN, { sizeUSD: request.sizeUSD, notes: `Broker order ${request.clientOrderId}.`, tags: ['broker'] });
+            order = pending ? toBrokerOrder(pending, request.clientOrderId, request.sizeUSD) : { ...base, reason: 'Invalid trigger price.' };
+        }
+        return order;
+    }
+
+    // A resting order may have filled, been cancelled or expired since it was placed; report where it is now.
+    private refresh(order: BrokerOrder): BrokerOrder {
+        if (order.status !== 'open') return order;
+        const live = this.simulator.getAllOrders().find(o => o.id === order.id);
+        if (!live) return order;
+        const fill = live.filledTradeId ? this.simulator.getTradeById(live.filledTradeId) : undefined;
+        const current = toBrokerOrder(live, order.clientOrderId, order.sizeUSD, fill);
+        this.placed.set(order.clientOrderId, Promise.resolve(current));
+        return current;
+    }
+
+    async cancelOrder(orderId: string): Promise<boolean> {
+        const order = this.simulator.getPendingOrders().find(o => o.id === orderId);
+        if (!order) return false;
+        this.simulator.cancelOrder(orderId);
+        return true;
+    }
+
+    async closePosition(symbol: string): Promise<boolean> {
+        const open = this.simulator.getAllTrades().filter(t => t.status === 'open' && t.coin.symbol.toUpperCase() === symbol.toUpperCase());
+        return open.map(trade => this.simulator.closeTradeManually(trade.id)).some(Boolean);
+    }
+
+    async getOpenOrders(): Promise<BrokerOrder[]> {
+        const placed = await Promise.allSettled(this.placed.values());
+        const clientIds = new Map(placed.flatMap(result => result.status === 'fulfilled' ? [[result.value.id, result.value.clientOrderId] as const] : []));
+        return this.simulator.getPendingOrders().map(order => toBrokerOrder(order, clientIds.get(order.id) ?? order.id, 0));
+    }
+
+    async getPositions(): Promise<BrokerPosition[]> {
+        const positions = new Map<string, BrokerPosition & { cost: number }>();
+        this.simulator.getAllTrades().filter(t => t.status === 'open').forEach(trade => {
+            const side = trade.direction === 'buy' ? 'long' : 'short';
+            const key = `${trade.coin.symbol.toUpperCase()}:${side}`;
+            const position = positions.get(key) ?? { symbol: trade.coin.symbol.toUpperCase(), side, quantity: 0, averageEntryPrice: null, cost: 0 };
+            const units = getUnits(trade, this.simulator);
+            position.quantity += units;
+            position.cost += units * trade.entryPrice;
+            position.averageEntryPrice = position.quantity > 0 ? position.cost / position.quantity : null;
+            positions.set(key, position);
+        });
+        return [...positions.values()].map(({ cost, ...position }) => position);
+    }
+
+    async getBalances(): Promise<BrokerBalance[]> {
+        const { availableCash, reservedMargin } = this.simulator.getAccountSummary();
+        return [{ currency: 'USD', available: availableCash, hold: reservedMargin }];
+    }
+
+    // Entries, scale-outs and closes of every trade, newest first.
+    async getFills(): Promise<BrokerFill[]> {
+        const fills: BrokerFill[] = [];
+        this.simulator.getAllTrades().forEach(trade => {
+            const symbol = trade.coin.symbol.toUpperCase();
+            const totalUnits = trade.sizeUSD / trade.entryPrice;
+            const exitSide = trade.direction === 'buy' ? 'sell' : 'buy';
+            fills.push({ id: `${trade.id}-entry`, orderId: trade.id, symbol, side: trade.direction, price: trade.entryPrice, quantity: totalUnits, fee: trade.entryFee ?? 0, liquidity: trade.entryLiquidity ?? 'taker', timestamp: trade.openTimestamp });
+            (trade.partialFills ?? []).forEach((fill, index) => {
+                fills.push({ id: `${trade.id}-fill-${index}`, orderId: trade.id, symbol, side: exitSide, price: fill.price, quantity: totalUnits * fill.fraction, fee: fill.fee, liquidity: 'maker', timestamp: fill.timestamp });
+            });
+            const remaining = getUnits(trade, this.simulator);
+            if (trade.status === 'closed' && trade.closePrice !== null && remaining > 0) {
+                const partialFees = (trade.partialFills ?? []).reduce((acc, fill) => acc + fill.fee, 0);
+                fills.push({
+                    id: `${trade.id}-close`,
+                    orderId: trade.id,
+                    symbol,
+                    side: exitSide,
+                    price: trade.closePrice,
+                    quantity: remaining,
+                    fee: Math.max(0, (trade.exitFee ?? 0) - partialFees),
+                    liquidity: trade.closeReason === 'Take Profit' ? 'maker' : 'taker',
+                    timestamp: trade.closeTimestamp ?? trade.openTimestamp,
+                });
+            }
+        });
+        return fills.sort((a, b) => b.timestamp - a.timestamp);
+    }
+}
+
+export type BrokerConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'error';
+
+export interface BrokerConnection {
+    status: BrokerConnectionStatus;
+    baseUrl: string | null;
+    connectedAt: number | null;
+    error: string | null;
+    balances: BrokerBalance[]; // As of connecting
+}
+
+/**
+ * Holds the exchange connection. Credentials are kept in memory only; nothing about the exchange is persisted.
+ * Until an exchange is connected, the paper adapter is the active one.
+ */
+class BrokerService {
+    private paper = new PaperBrokerAdapter();
+    private exchange: BrokerAdapter | null = null;
+    private connection: BrokerConnection = { status: 'disconnected', baseUrl: null, connectedAt: null, error: null, balances: [] };
+    private listeners: (() => void)[] = [];
+
+    subscribe(listener: () => void) {
+        this.listeners.push(listener);
+    }
+
+    unsubscribe(listener: () => void) {
+        this.listeners = this.listeners.filter(l => l !== listener);
+    }
+
+    private notifyListeners() {
+        this.listeners.forEach(l => l());
+    }
+
+    private setConnection(update: Partial<BrokerConnection>) {
+        this.connection = { ...this.connection, ...update };
+        this.notifyListeners();
+    }
+
+    getConnection(): BrokerConnection {
+        return this.connection;
+    }
+
+    getPaperAdapter(): BrokerAdapter {
+        return this.paper;
+    }
+
+    getAdapter(): BrokerAdapter {
+        return this.exchange ?? this.paper;
+    }
+
+    // Checks the credentials by reading balances before the adapter is used for anything else.
+    async connectExchange(config: ExchangeConnectionConfig): Promise<boolean> {
+        this.exchange = null;
+        this.setConnection({ status: 'connecting', baseUrl: config.baseUrl, connectedAt: null, error: null, balances: [] });
+        const adapter = new CoinbaseAdvancedAdapter(config);
+        try {
+            const balances = await adapter.getBalances();
+            this.exchange = adapter;
+            this.setConnection({ status: 'connected', connectedAt: Date.now(), balances });
+            return true;
+        } catch (error) {
+            console.error("Failed to connect to the exchange:", error);
+            this.setConnection({ status: 'error', error: error instanceof Error ? error.message : String(error) });
+            return false;
+        }
+    }
+
+    disconnect() {
+        this.exchange = null;
+        this.setConnection({ status: 'disconnected', baseUrl: null, connectedAt: null, error: null, balances: [] });
+    }
+}
+
+export const brokerService = new BrokerService();
@@ -0,0 +1,229 @@
+import type { BrokerAdapter, BrokerOrderRequest, BrokerOrder, BrokerOrderStatus, BrokerOrderType, BrokerPosition, BrokerBalance, BrokerFill } from './brokerService';
+
+export interface ExchangeConnectionConfig {
+    baseUrl: string; // e.g. the local mock exchange at DEFAULT_MOCK_EXCHANGE_URL
+    apiKey: string;
+    apiSecret: string;
+}
+
+// Where `npm run mock-exchange` listens by default.
+export const DEFAULT_MOCK_EXCHANGE_URL = 'http://localhost:8787';
+
+const API_PREFIX = '/api/v3/brokerage';
+const QUOTE_CURRENCY = 'USD';
+// Stops are sent as stop-limits with the limit this far past the trigger, so they still fill when price gaps through it.
+const STOP_LIMIT_SLACK = 0.01;
+
+// The subset of Coinbase Advanced Trade order fields the adapter reads.
+interface ExchangeOrder {
+    order_id: string;
+    client_order_id: string;
+    product_id: string;
+    side: 'BUY' | 'SELL';
+    order_type: 'MARKET' | 'LIMIT' | 'STOP_LIMIT';
+    status: 'PENDING' | 'OPEN' | 'FILLED' | 'CANCELLED' | 'EXPIRED' | 'FAILED';
+    order_configuration: {
+        market_market_ioc?: { quote_size?: string; base_size?: string };
+        limit_limit_gtc?: { base_size: string; limit_price: string };
+        stop_limit_stop_limit_gtc?: { base_size: string; limit_price: string; stop_price: string };
+    };
+    created_time: string;
+    filled_value: string;
+    average_filled_price: string;
+    reject_reason?: string;
+}
+
+interface ExchangeFill {
+    entry_id: string;
+    order_id: string;
+    product_id: string;
+    side: 'BUY' | 'SELL';
+    price: string;
+    size: string;
+    commission: string;
+    liquidity_indicator: 'MAKER' | 'TAKER';
+    trade_time: string;
+}
+
+interface ExchangeAccount {
+    currency: string;
+    available_balance: { value: string; currency: string };
+    hold: { value: string; currency: string };
+}
+
+const STATUS_MAP: Record<ExchangeOrder['status'], BrokerOrderStatus> = {
+    PENDING: 'open',
+    OPEN: 'open',
+    FILLED: 'filled',
+    CANCELLED: 'cancelled',
+    EXPIRED: 'cancelled',
+    FAILED: 'rejected',
+};
+
+const TYPE_MAP: Record<ExchangeOrder['order_type'], BrokerOrderType> = {
+    MARKET: 'market',
+    LIMIT: 'limit',
+    STOP_LIMIT: 'stop',
+};
+
+const toHex = (buffer: ArrayBuffer) => Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Signs a request the way Coinbase's HMAC API keys did: hex HMAC-SHA256 of timestamp + method + path + body.
+ * The mock exchange verifies this scheme; production Coinbase keys now need JWT auth, which this adapter doesn't do yet.
+ */
+export const signExchangeRequest = async (secret: string, timestamp: string, method: string, path: string, body: string): Promise<string> => {
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+    return toHex(await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}${method}${path}${body}`)));
+};
+
+const productId = (symbol: string) => `${symbol.toUpperCase()}-${QUOTE_CURRENCY}`;
+const symbolOf = (product: string) => product.split('-')[0];
+
+const toBrokerOrder = (order: ExchangeOrder): BrokerOrder => {
+    const { market_market_ioc: market, limit_limit_gtc: limit, stop_limit_stop_limit_gtc: stop } = order.order_configuration;
+    const price = limit ? Number(limit.limit_price) : stop ? Number(stop.stop_price) : null;
+    const baseSize = Number(limit?.base_size ?? stop?.base_size ?? market?.base_size ?? 0);
+    const averageFillPrice = Number(order.average_filled_price) || null;
+    return {
+        id: order.order_id,
+        clientOrderId: order.client_order_id,
+        symbol: symbolOf(order.product_id),
+        side: order.side === 'BUY' ? 'buy' : 'sell',
+        type: TYPE_MAP[order.order_type],
+        status: STATUS_MAP[order.status],
+        sizeUSD: market?.quote_size ? Number(market.quote_size) : baseSize * (price ?? averageFillPrice ?? 0),
+        price,
+        filledSizeUSD: Number(order.filled_value) || 0,
+        averageFillPrice,
+        createdAt: new Date(order.created_time).getTime(),
+        reason: order.reject_reason || undefined,
+    };
+};
+
+// Talks to a Coinbase Advanced Trade style REST API. Spot only: there is no shorting, and positions are non-USD balances.
+export class CoinbaseAdvancedAdapter implements BrokerAdapter {
+    readonly name = 'Coinbase Advanced (REST)';
+
+    constructor(private config: ExchangeConnectionConfig) {}
+
+    private async request<T>(method: 'GET' | 'POST', path: string, payload?: unknown): Promise<T> {
+        const body = payload === undefined ? '' : JSON.stringify(payload);
+        const timestamp = Math.floor(Date.now() / 1000).toString();
+        const signature = await signExchangeRequest(this.config.apiSecret, timestamp, method, `${API_PREFIX}${path}`, body);
+        const response = await fetch(`${this.config.baseUrl.replace(/\/+$/, '')}${API_PREFIX}${path}`, {
+            method,
+            headers: {
+                'Content-Type': 'application/json',
+                'CB-ACCESS-KEY': this.config.apiKey,
+                'CB-ACCESS-SIGN': signature,
+                'CB-ACCESS-TIMESTAMP': timestamp,
+            },
+            body: body || undefined,
+        });
+        const text = await response.text();
+        const data = text ? JSON.parse(text) : {};
+        if (!response.ok) {
+            throw new Error(`Exchange returned ${response.status}: ${data.message ?? data.error ?? response.statusText}`);
+        }
+        return data as T;
+    }
+
+    private async getOrder(orderId: string): Promise<BrokerOrder> {
+        const { order } = await this.request<{ order: ExchangeOrder }>('GET', `/orders/historical/${encodeURIComponent(orderId)}`);
+        return toBrokerOrder(order);
+    }
+
+    async placeOrder(request: BrokerOrderRequest): Promise<BrokerOrder> {
+        const baseSize = request.price ? (request.sizeUSD / request.price).toFixed(8) : '0';
+        const orderConfiguration = request.type === 'market'
+            ? { market_market_ioc: { quote_size: request.sizeUSD.toFixed(2) } }
+            : request.type === 'limit'
+                ? { limit_limit_gtc: { base_size: baseSize, limit_price: String(request.price) } }
+                : {
+                    stop_limit_stop_limit_gtc: {
+                        base_size: baseSize,
+                        limit_price: String((request.price ?? 0) * (request.side === 'buy' ? 1 + STOP_LIMIT_SLACK : 1 - STOP_LIMIT_SLACK)),
+                        stop_price: String(request.price),
+                        stop_direction: request.side === 'buy' ? 'STOP_DIRECTION_STOP_UP' : 'STOP_DIRECTION_STOP_DOWN',
+                    },
+                };
+        const result = await this.request<{ success: boolean; success_response?: { order_id: string }; error_response?: { message?: string; error?: string } }>('POST', '/orders', {
+            client_order_id: request.clientOrderId,
+            product_id: productId(request.symbol),
+            side: request.side === 'buy' ? 'BUY' : 'SELL',
+            order_configuration: orderConfiguration,
+        });
+        if (!result.success || !result.success_response) {
+            return {
+                id: '',
+                clientOrderId: request.clientOrderId,
+                symbol: request.symbol.toUpperCase(),
+                side: request.side,
+                type: request.type,
+                status: 'rejected',
+                sizeUSD: request.sizeUSD,
+                price: request.price ?? null,
+                filledSizeUSD: 0,
+                averageFillPrice: null,
+                createdAt: Date.now(),
+                reason: result.error_response?.message ?? result.error_response?.error ?? 'Rejected by the exchange.',
+            };
+        }
+        return this.getOrder(result.success_response.order_id);
+    }
+
+    async cancelOrder(orderId: string): Promise<boolean> {
+        const { results } = await this.request<{ results: { success: boolean; order_id: string }[] }>('POST', '/orders/batch_cancel', { order_ids: [orderId] });
+        return results.some(r => r.order_id === orderId && r.success);
+    }
+
+    // Sells the whole available balance of the asset at market.
+    async closePosition(symbol: string): Promise<boolean> {
+        const account = (await this.getBalances()).find(b => b.currency === symbol.toUpperCase());
+        if (!account || account.available <= 0) return false;
+        const result = await this.request<{ success: boolean }>('POST', '/orders', {
+            client_order_id: `close-${symbol.toUpperCase()}-${Date.now()}`,
+            product_id: productId(symbol),
+            side: 'SELL',
+            order_configuration: { market_market_ioc: { base_size: account.available.toFixed(8) } },
+        });
+        return result.success;
+    }
+
+    async getOpenOrders(): Promise<BrokerOrder[]> {
+        const { orders } = await this.request<{ orders: ExchangeOrder[] }>('GET', '/orders/historical/batch?order_status=OPEN');
+        return orders.map(toBrokerOrder);
+    }
+
+    async getPositions(): Promise<BrokerPosition[]> {
+        return (await this.getBalances())
+            .filter(b => b.currency !== QUOTE_CURRENCY && b.available + b.hold > 0)
+            .map(b => ({ symbol: b.currency, side: 'long', quantity: b.available + b.hold, averageEntryPrice: null }));
+    }
+
+    async getBalances(): Promise<BrokerBalance[]> {
+        const { accounts } = await this.request<{ accounts: ExchangeAccount[] }>('GET', '/accounts');
+        return accounts.map(account => ({
+            currency: account.currency,
+            available: Number(account.available_balance.value) || 0,
+            hold: Number(account.hold.value) || 0,
+        }));
+    }
+
+    async getFills(): Promise<BrokerFill[]> {
+        const { fills } = await this.request<{ fills: ExchangeFill[] }>('GET', '/orders/historical/fills');
+        return fills.map(fill => ({
+            id: fill.entry_id,
+            orderId: fill.order_id,
+            symbol: symbolOf(fill.product_id),
+            side: fill.side === 'BUY' ? 'buy' : 'sell',
+            price: Number(fill.price),
+            quantity: Number(fill.size),
+            fee: Number(fill.commission) || 0,
+            liquidity: fill.liquidity_indicator === 'MAKER' ? 'maker' : 'taker',
+            timestamp: new Date(fill.trade_time).getTime(),
+        }));
+    }
+}
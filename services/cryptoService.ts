@@ -7,6 +7,7 @@ export interface CryptoPrice {
   price: number;
   change24h: number;
   marketCap?: number;
+  volume24h?: number; // USD traded over 24h, from mergedMaster
 }
 
 export interface HistoricalData {
@@ -76,6 +77,7 @@ export const fetchLivePricing = async (): Promise<CryptoPrice[]> => {
         price: coin.price ?? 0,
         change24h: coin.price_change_percentage_24h ?? coin['24h'] ?? 0,
         marketCap: coin.market_cap ?? 0,
+        volume24h: coin.volume ?? 0,
     })).filter(p => p.price > 0 && p.symbol !== 'N/A');
     
   } catch (error) {
@@ -158,6 +160,25 @@ export const getGlobalLiquidity = async (): Promise<GlobalLiquidity | null> => {
     }
 };
 
+/**
+ * Gets the latest perpetual funding rate per symbol from the 'coinGlass' sheet,
+ * as a percent per 8-hour funding interval (positive means longs pay shorts).
+ */
+export const fetchFundingRates = async (): Promise<Map<string, number>> => {
+    const rates = new Map<string, number>();
+    try {
+        const rawData = await googleSheetService.fetchData<any>('coinGlass');
+        normalizeHeaders(rawData).forEach(row => {
+            const symbol = String(row.symbol ?? row.coin ?? '').toUpperCase();
+            const rate = parseFloat(String(row.funding_rate ?? row.fundingrate ?? row.avg_funding_rate ?? ''));
+            if (symbol && !isNaN(rate)) rates.set(symbol, rate);
+        });
+    } catch (error) {
+        console.warn("Could not retrieve funding rates from Google Sheet.", error);
+    }
+    return rates;
+};
+
 
 // --- HISTORICAL DATA (UNCHANGED) ---
 
@@ -185,9 +206,10 @@ const fetchOhlcvForDay = async (coinSymbol: string, date: Date): Promise<OhlcvDa
     }
 };
 
-export const fetchRawOhlcvData = async (coinSymbol: string, days: number): Promise<OhlcvData[]> => {
+// Candles for the `days` calendar days ending on `endDate` (today by default), oldest first.
+export const fetchRawOhlcvData = async (coinSymbol: string, days: number, endDate: Date = new Date()): Promise<OhlcvData[]> => {
     const datesToFetch = Array.from({ length: days }, (_, i) => {
-        const d = new Date();
+        const d = new Date(endDate);
         d.setDate(d.getDate() - i);
         return d;
     });
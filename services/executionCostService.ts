@@ -0,0 +1,97 @@
+import type { DataSourceKey } from './googleSheetService';
+
+// Venues match the exchange data sources; 'flat' charges the wallet's own fee rate on every fill.
+export type FeeVenue = Extract<DataSourceKey, 'coinbase' | 'okx'> | 'flat';
+export type Liquidity = 'maker' | 'taker';
+
+export interface FeeTier {
+    name: string;
+    minVolumeUSD: number; // Trailing 30-day traded notional needed for the tier
+    makerPercent: number;
+    takerPercent: number;
+}
+
+export interface FeeQuote {
+    venue: FeeVenue;
+    tier: string;
+    liquidity: Liquidity;
+    ratePercent: number;
+}
+
+export interface SlippageEstimate {
+    bps: number; // Total adverse move from the quoted price, in basis points
+    halfSpreadBps: number;
+    impactBps: number;
+    volume24hUSD: number | null; // null when the asset's volume is unknown
+}
+
+export const FEE_VENUE_LABELS: Record<FeeVenue, string> = {
+    coinbase: 'Coinbase Advanced',
+    okx: 'OKX (spot)',
+    flat: 'Flat rate',
+};
+
+// Published spot schedules, lowest tier first. Tiers are picked by the portfolio's own 30-day volume.
+export const FEE_SCHEDULES: Record<Exclude<FeeVenue, 'flat'>, FeeTier[]> = {
+    coinbase: [
+        { name: 'Intro 1', minVolumeUSD: 0, makerPercent: 0.6, takerPercent: 1.2 },
+        { name: 'Intro 2', minVolumeUSD: 10_000, makerPercent: 0.4, takerPercent: 0.6 },
+        { name: 'Advanced 1', minVolumeUSD: 50_000, makerPercent: 0.25, takerPercent: 0.4 },
+        { name: 'Advanced 2', minVolumeUSD: 100_000, makerPercent: 0.125, takerPercent: 0.25 },
+        { name: 'Advanced 3', minVolumeUSD: 1_000_000, makerPercent: 0.075, takerPercent: 0.15 },
+        { name: 'VIP 1', minVolumeUSD: 15_000_000, makerPercent: 0.06, takerPercent: 0.125 },
+        { name: 'VIP 2', minVolumeUSD: 75_000_000, makerPercent: 0.035, takerPercent: 0.075 },
+        { name: 'VIP 3', minVolumeUSD: 250_000_000, makerPercent: 0, takerPercent: 0.05 },
+    ],
+    okx: [
+        { name: 'Regular', minVolumeUSD: 0, makerPercent: 0.08, takerPercent: 0.1 },
+        { name: 'VIP 1', minVolumeUSD: 5_000_000, makerPercent: 0.045, takerPercent: 0.05 },
+        { name: 'VIP 2', minVolumeUSD: 10_000_000, makerPercent: 0.04, takerPercent: 0.045 },
+        { name: 'VIP 3', minVolumeUSD: 20_000_000, makerPercent: 0.03, takerPercent: 0.04 },
+        { name: 'VIP 4', minVolumeUSD: 100_000_000, makerPercent: 0.02, takerPercent: 0.035 },
+        { name: 'VIP 5', minVolumeUSD: 200_000_000, makerPercent: 0, takerPercent: 0.03 },
+    ],
+};
+
+// Square-root market impact: impact = coefficient * sqrt(order notional / 24h volume).
+// The coefficient is roughly a daily volatility for liquid crypto.
+const IMPACT_COEFFICIENT = 0.05;
+const MAX_SLIPPAGE_BPS = 500;
+const UNKNOWN_VOLUME_SLIPPAGE_BPS = 25;
+
+// Thinner markets quote wider spreads.
+const halfSpreadBps = (volume24hUSD: number): number => {
+    if (volume24hUSD >= 1_000_000_000) return 1;
+    if (volume24hUSD >= 100_000_000) return 3;
+    if (volume24hUSD >= 10_000_000) return 10;
+    return 30;
+};
+
+export const getFeeTier = (venue: FeeVenue, volume30dUSD: number): FeeTier | null => {
+    if (venue === 'flat') return null;
+    const tiers = FEE_SCHEDULES[venue];
+    return [...tiers].reverse().find(tier => volume30dUSD >= tier.minVolumeUSD) ?? tiers[0];
+};
+
+export const quoteFee = (venue: FeeVenue, liquidity: Liquidity, volume30dUSD: number, flatRatePercent: number): FeeQuote => {
+    const tier = getFeeTier(venue, volume30dUSD);
+    if (!tier) return { venue, tier: 'Flat', liquidity, ratePercent: flatRatePercent };
+    return { venue, tier: tier.name, liquidity, ratePercent: liquidity === 'maker' ? tier.makerPercent : tier.takerPercent };
+};
+
+/**
+ * Expected slippage for a market order of `notionalUSD` on an asset trading `volume24hUSD` a day
+ * (the mergedMaster volume). Unknown volume gets a fixed, conservative estimate.
+ */
+export const estimateSlippage = (notionalUSD: number, volume24hUSD: number | undefined): SlippageEstimate => {
+    if (!volume24hUSD || volume24hUSD <= 0) {
+        return { bps: UNKNOWN_VOLUME_SLIPPAGE_BPS, halfSpreadBps: UNKNOWN_VOLUME_SLIPPAGE_BPS, impactBps: 0, volume24hUSD: null };
+    }
+    const spread = halfSpreadBps(volume24hUSD);
+    const impact = IMPACT_COEFFICIENT * Math.sqrt(Math.max(0, notionalUSD) / volume24hUSD) * 10_000;
+    return { bps: Math.min(MAX_SLIPPAGE_BPS, spread + impact), halfSpreadBps: spread, impactBps: impact, volume24hUSD };
+};
+
+// The price actually paid (buys) or received (sells) after slippage.
+export const applySlippage = (price: number, side: 'buy' | 'sell', bps: number): number =>
+    side === 'buy' ? price * (1 + bps / 10_000) : price * (1 - bps / 10_000);
@@ -1,7 +1,8 @@
 import { GoogleGenAI, Type } from "@google/genai";
 import { SYSTEM_INSTRUCTION } from '../constants';
 import type { LearningPattern } from './learningService';
-import type { AvailableSignal } from './signalsService';
+import type { AvailableSignal, TriggerCondition, TriggerNode } from './signalsService';
+import { TRIGGER_METRIC_LABELS, validateTrigger } from './triggerConditionService';
 import type { BtcHistoryEntry } from './btcHistoryService';
 import type { ChatContext } from '../types';
 
@@ -213,6 +214,74 @@ export const getSmartSignalSearch = async (query: string, signals: AvailableSign
     }
 };
 
+/**
+ * Asks the Gemini model to turn a pattern's description into a signal trigger condition.
+ * The schema allows one AND/OR group of conditions; a single condition comes back unwrapped.
+ * @param pattern The pattern (or experiment) being promoted to a signal.
+ * @returns A validated condition tree for the user to review.
+ */
+export const getTriggerConditionSuggestion = async (pattern: LearningPattern): Promise<TriggerNode> => {
+    let node: TriggerNode;
+    try {
+        const metrics = Object.entries(TRIGGER_METRIC_LABELS).map(([metric, { label, unit }]) => `- ${metric}: ${label} (${unit})`).join('\n');
+        const prompt = `
+        Turn this trading pattern into the market condition that should trigger it.
+        Title: "${pattern.title}"
+        Description: "${pattern.description}"
+        Trigger asset: ${pattern.trigger_asset}; affected asset: ${pattern.affected_asset}; trade: ${pattern.trade_direction}.
+
+        Available metrics, with the unit their threshold is in:
+        ${metrics}
+
+        Use source "trigger_asset" or "affected_asset" for price, volume, funding and moving-average metrics, and "global" for the rest.
+        Set maPeriodDays only for price_vs_ma. Use as few conditions as express the pattern's trigger, not its expected outcome.
+        `;
+
+        const response = await ai.models.generateContent({
+            model: "gemini-2.5-flash",
+            contents: prompt,
+            config: {
+                responseMimeType: "application/json",
+                responseSchema: {
+                    type: Type.OBJECT,
+                    properties: {
+                        combinator: { type: Type.STRING, enum: ['and', 'or'] },
+                        conditions: {
+                            type: Type.ARRAY,
+                            items: {
+                                type: Type.OBJECT,
+                                properties: {
+                                    metric: { type: Type.STRING, enum: Object.keys(TRIGGER_METRIC_LABELS) },
+                                    operator: { type: Type.STRING, enum: ['gt', 'lt'] },
+                                    threshold: { type: Type.NUMBER },
+                                    source: { type: Type.STRING, enum: ['trigger_asset', 'affected_asset', 'global'] },
+                                    maPeriodDays: { type: Type.INTEGER },
+                                },
+                                required: ['metric', 'operator', 'threshold', 'source'],
+                            },
+                        },
+                    },
+                    required: ['combinator', 'conditions'],
+                }
+            }
+        });
+
+        const { combinator, conditions }: { combinator: 'and' | 'or'; conditions: TriggerCondition[] } = JSON.parse(response.text.trim());
+        const cleaned = conditions.map(({ maPeriodDays, ...condition }) => condition.metric === 'price_vs_ma' && maPeriodDays ? { ...condition, maPeriodDays } : condition);
+        node = cleaned.length === 1 ? cleaned[0] : { op: combinator, children: cleaned };
+    } catch (error) {
+        console.error("Gemini API call failed in getTriggerConditionSuggestion:", error);
+        throw new Error(getFriendlyErrorMessage(error));
+    }
+
+    const errors = validateTrigger(node);
+    if (errors.length > 0) {
+        console.error("Gemini returned an invalid trigger condition:", errors, node);
+        throw new Error("The AI suggested a condition that isn't valid. Try again or use the rule builder.");
+    }
+    return node;
+};
+
 /**
  * Asks the Gemini model to refine a tested trading pattern based on its P/L.
  * @param pattern The learning pattern that was tested.
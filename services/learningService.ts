@@ -1,5 +1,6 @@
 import { CryptoPrice } from "./cryptoService";
-import { tradeSimulatorService } from "./tradeSimulatorService";
+import { tradeSimulatorService, Trade } from "./tradeSimulatorService";
+import { webhookService } from "./webhookService";
 import { getRefinedPattern, getRefinedPatternSuggestion } from './geminiService';
 
 export interface LearningPattern {
@@ -42,6 +43,8 @@ class LearningService {
     constructor() {
         this.loadExperiments();
         this.loadLogs();
+        // Running experiments finish when their trade closes, including ones started before a reload.
+        tradeSimulatorService.onTradeEvent('tradeClosed').subscribe(({ trade }) => this.completeExperimentForTrade(trade));
     }
 
     subscribe(listener: () => void) {
@@ -202,12 +205,14 @@ class LearningService {
         this.notifyListeners();
 
         console.log(`Running experiment: ${experiment.title}`);
-        tradeSimulatorService.executeTrade(coinToTrade, experiment.trade_direction);
-        const trades = tradeSimulatorService.getAllTrades();
-        const newTrade = trades.find(t => t.coin.symbol === coinToTrade.symbol && t.status === 'open' && !this.experiments.some(e => e.result?.tradeId === t.id));
+        const newTrade = tradeSimulatorService.executeTrade(coinToTrade, experiment.trade_direction, {
+            signalId: experiment.id,
+            notes: `Experiment "${experiment.title}": ${experiment.description}`,
+            tags: ['experiment', experiment.category],
+        });
 
         if (!newTrade) {
-            const errorMsg = `Failed to find newly created trade for experiment "${experiment.title}".`;
+            const errorMsg = `Trade for experiment "${experiment.title}" was rejected by the simulator.`;
             console.error(errorMsg);
             experiment.status = 'completed';
             experiment.result = { pnl: null, tradeId: 'not-found' };
@@ -218,24 +223,25 @@ class LearningService {
         }
         
         experiment.result = { pnl: null, tradeId: newTrade.id };
-        
-        const checkInterval = setInterval(() => {
-            const trade = tradeSimulatorService.getAllTrades().find(t => t.id === newTrade.id);
-            if (trade && trade.status === 'closed') {
-                clearInterval(checkInterval);
-                const pnl = trade.pnl ?? 0;
-                const resultType = pnl >= 0 ? 'success' : 'failure';
-                const message = `Experiment "${experiment.title}" completed. PNL: ${formatCurrency(pnl)}.`;
-                console.log(message);
-                
-                this.addLog(message, resultType, experiment.id);
-                experiment.status = 'completed';
-                if (experiment.result) experiment.result.pnl = pnl;
-                
-                this.saveExperiments();
-                this.notifyListeners();
-            }
-        }, 5000);
+        this.saveExperiments();
+    }
+
+    private completeExperimentForTrade(trade: Trade) {
+        const experiment = this.experiments.find(exp => exp.status === 'running' && exp.result?.tradeId === trade.id);
+        if (!experiment || !experiment.result) return;
+
+        const pnl = trade.pnl ?? 0;
+        const resultType = pnl >= 0 ? 'success' : 'failure';
+        const message = `Experiment "${experiment.title}" completed. PNL: ${formatCurrency(pnl)}.`;
+        console.log(message);
+
+        this.addLog(message, resultType, experiment.id);
+        experiment.status = 'completed';
+        experiment.result.pnl = pnl;
+        webhookService.dispatch('experiment_completed', { experiment });
+
+        this.saveExperiments();
+        this.notifyListeners();
     }
 }
 
@@ -0,0 +1,182 @@
+import { tradeSimulatorService, getNetPnl, Trade, EquityPoint } from './tradeSimulatorService';
+
+export interface DateRange {
+    from: number | null; // Inclusive, ms since epoch; null = no lower bound
+    to: number | null; // Inclusive; null = now
+}
+
+export interface GroupStats {
+    key: string;
+    trades: number;
+    wins: number;
+    winRate: number; // 0-100
+    netPnl: number;
+}
+
+export interface PerformanceReport {
+    range: DateRange;
+    tradeCount: number;
+    winRate: number; // 0-100
+    netPnl: number; // P/L after fees and funding
+    grossProfit: number;
+    grossLoss: number; // Positive number
+    profitFactor: number | null; // null when there are no losing trades
+    expectancy: number; // Average net P/L per trade
+    avgWin: number;
+    avgLoss: number; // Positive number
+    avgHoldMs: number;
+    startingEquity: number;
+    endingEquity: number;
+    equityCurve: EquityPoint[];
+    maxDrawdown: number; // USD, positive
+    maxDrawdownPercent: number;
+    maxDrawdownDurationMs: number; // Longest time spent below a previous equity peak
+    sharpeRatio: number | null; // Annualized from daily returns; null with too little history
+    sortinoRatio: number | null;
+    byCloseReason: GroupStats[];
+    byAsset: GroupStats[];
+    byDirection: GroupStats[];
+    byInvestmentStyle: GroupStats[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TRADING_DAYS_PER_YEAR = 365; // Crypto trades every day
+
+const groupBy = (trades: Trade[], keyOf: (trade: Trade) => string): GroupStats[] => {
+    const groups = new Map<string, GroupStats>();
+    trades.forEach(trade => {
+        const key = keyOf(trade);
+        const group = groups.get(key) ?? { key, trades: 0, wins: 0, winRate: 0, netPnl: 0 };
+        const netPnl = getNetPnl(trade);
+        group.trades += 1;
+        group.wins += netPnl > 0 ? 1 : 0;
+        group.netPnl += netPnl;
+        groups.set(key, group);
+    });
+    return [...groups.values()]
+        .map(group => ({ ...group, winRate: (group.wins / group.trades) * 100 }))
+        .sort((a, b) => b.trades - a.trades);
+};
+
+// Deepest peak-to-trough fall, and the longest stretch spent under water (open drawdowns run to the last point).
+const calculateDrawdown = (curve: EquityPoint[]): { maxDrawdown: number; maxDrawdownPercent: number; maxDrawdownDurationMs: number } => {
+    let peak = curve[0]?.equity ?? 0;
+    let peakTimestamp = curve[0]?.timestamp ?? 0;
+    let maxDrawdown = 0;
+    let maxDrawdownPercent = 0;
+    let maxDrawdownDurationMs = 0;
+    let underWater = false;
+    curve.forEach(point => {
+        if (point.equity >= peak) {
+            if (underWater) maxDrawdownDurationMs = Math.max(maxDrawdownDurationMs, point.timestamp - peakTimestamp);
+            underWater = false;
+            peak = point.equity;
+            peakTimestamp = point.timestamp;
+            return;
+        }
+        underWater = true;
+        const drawdown = peak - point.equity;
+        maxDrawdown = Math.max(maxDrawdown, drawdown);
+        maxDrawdownPercent = Math.max(maxDrawdownPercent, peak > 0 ? (drawdown / peak) * 100 : 0);
+    });
+    const last = curve[curve.length - 1];
+    if (last && underWater) {
+        maxDrawdownDurationMs = Math.max(maxDrawdownDurationMs, last.timestamp - peakTimestamp);
+    }
+    return { maxDrawdown, maxDrawdownPercent, maxDrawdownDurationMs };
+};
+
+// Equity at the end of each calendar day between the first and last point, carried forward over quiet days.
+const toDailyReturns = (curve: EquityPoint[]): number[] => {
+    if (curve.length < 2) return [];
+    const dayOf = (timestamp: number) => Math.floor(timestamp / DAY_MS);
+    const firstDay = dayOf(curve[0].timestamp);
+    const lastDay = dayOf(curve[curve.length - 1].timestamp);
+    const closes: number[] = [];
+    let index = 0;
+    let equity = curve[0].equity;
+    for (let day = firstDay; day <= lastDay; day++) {
+        while (index < curve.length && dayOf(curve[index].timestamp) <= day) {
+            equity = curve[index].equity;
+            index++;
+        }
+        closes.push(equity);
+    }
+    const returns: number[] = [];
+    for (let i = 1; i < closes.length; i++) {
+        if (closes[i - 1] > 0) returns.push(closes[i] / closes[i - 1] - 1);
+    }
+    return returns;
+};
+
+const calculateRiskAdjustedReturns = (dailyReturns: number[]): { sharpeRatio: number | null; sortinoRatio: number | null } => {
+    if (dailyReturns.length < 2) return { sharpeRatio: null, sortinoRatio: null };
+    const mean = dailyReturns.reduce((acc, r) => acc + r, 0) / dailyReturns.length;
+    const variance = dailyReturns.reduce((acc, r) => acc + (r - mean) ** 2, 0) / (dailyReturns.length - 1);
+    const downsideVariance = dailyReturns.reduce((acc, r) => acc + Math.min(r, 0) ** 2, 0) / dailyReturns.length;
+    const annualize = Math.sqrt(TRADING_DAYS_PER_YEAR);
+    return {
+        sharpeRatio: variance > 0 ? (mean / Math.sqrt(variance)) * annualize : null,
+        sortinoRatio: downsideVariance > 0 ? (mean / Math.sqrt(downsideVariance)) * annualize : null,
+    };
+};
+
+/**
+ * Performance of the trades closed inside `range`. Equity starts from `startingCapital` plus the net P/L of
+ * everything closed before the range; deposits are left out so they don't show up as returns.
+ */
+export const computePerformanceReport = (allTrades: Trade[], range: DateRange, startingCapital: number): PerformanceReport => {
+    const to = range.to ?? Date.now();
+    const closed = allTrades
+        .filter(t => t.status === 'closed' && t.closeTimestamp !== null)
+        .sort((a, b) => (a.closeTimestamp ?? 0) - (b.closeTimestamp ?? 0));
+    const before = closed.filter(t => range.from !== null && (t.closeTimestamp ?? 0) < range.from);
+    const trades = closed.filter(t => (range.from === null || (t.closeTimestamp ?? 0) >= range.from) && (t.closeTimestamp ?? 0) <= to);
+
+    const startingEquity = startingCapital + before.reduce((acc, t) => acc + getNetPnl(t), 0);
+    const curveStart = range.from ?? Math.min(trades[0]?.openTimestamp ?? to, to);
+    const equityCurve: EquityPoint[] = [{ timestamp: curveStart, equity: startingEquity }];
+    trades.forEach(trade => {
+        const previous = equityCurve[equityCurve.length - 1].equity;
+        equityCurve.push({ timestamp: trade.closeTimestamp ?? 0, equity: previous + getNetPnl(trade) });
+    });
+    const endingEquity = equityCurve[equityCurve.length - 1].equity;
+    equityCurve.push({ timestamp: to, equity: endingEquity });
+
+    const netPnls = trades.map(getNetPnl);
+    const wins = netPnls.filter(p => p > 0);
+    const losses = netPnls.filter(p => p <= 0);
+    const grossProfit = wins.reduce((acc, p) => acc + p, 0);
+    const grossLoss = Math.abs(losses.reduce((acc, p) => acc + p, 0));
+    const netPnl = grossProfit - grossLoss;
+    const totalHoldMs = trades.reduce((acc, t) => acc + ((t.closeTimestamp ?? t.openTimestamp) - t.openTimestamp), 0);
+
+    return {
+        range,
+        tradeCount: trades.length,
+        winRate: trades.length > 0 ? (wins.length / trades.length) * 100 : 0,
+        netPnl,
+        grossProfit,
+        grossLoss,
+        profitFactor: grossLoss > 0 ? grossProfit / grossLoss : null,
+        expectancy: trades.length > 0 ? netPnl / trades.length : 0,
+        avgWin: wins.length > 0 ? grossProfit / wins.length : 0,
+        avgLoss: losses.length > 0 ? grossLoss / losses.length : 0,
+        avgHoldMs: trades.length > 0 ? totalHoldMs / trades.length : 0,
+        startingEquity,
+        endingEquity,
+        equityCurve,
+        ...calculateDrawdown(equityCurve),
+        ...calculateRiskAdjustedReturns(toDailyReturns(equityCurve)),
+        byCloseReason: groupBy(trades, t => t.closeReason ?? 'Unknown'),
+        byAsset: groupBy(trades, t => t.coin.symbol),
+        byDirection: groupBy(trades, t => t.direction === 'buy' ? 'Long' : 'Short'),
+        byInvestmentStyle: groupBy(trades, t => t.investmentStyle ?? 'Unknown'),
+    };
+};
+
+/**
+ * Report for the simulated wallet's current trades.
+ */
+export const getPerformanceReport = (range: DateRange = { from: null, to: null }): PerformanceReport =>
+    computePerformanceReport(tradeSimulatorService.getAllTrades(), range, tradeSimulatorService.getSettings().startingCapital);
@@ -0,0 +1,245 @@
+import type { CryptoPrice } from './cryptoService';
+import { tradeSimulatorService, PipelineRowRef, PipelineSellPolicy, Trade } from './tradeSimulatorService';
+
+export type OrderIntentAction = 'open_long' | 'open_short' | 'close_long' | 'close_short';
+export type OrderIntentStatus = 'executed' | 'skipped' | 'rejected';
+
+/**
+ * What the pipeline asked a portfolio to do with one sheet row, and what came of it.
+ * Each row is evaluated at most once per portfolio, however often the pipeline is reloaded.
+ */
+export interface OrderIntent {
+    id: string;
+    portfolioId: string;
+    row: PipelineRowRef;
+    confidence: number; // Row score as a percent
+    threshold: number; // The portfolio's execution threshold at the time
+    actions: OrderIntentAction[]; // Planned from the decision, open positions and sell policy
+    status: OrderIntentStatus;
+    reason: string;
+    tradeIds: string[]; // Trades opened or closed for the intent
+    createdAt: number;
+}
+
+interface PipelineExecutionState {
+    // Latest signal time evaluated per portfolio and asset; older or repeated rows are ignored.
+    lastSignalAt: Record<string, number>;
+    // Last time an intent actually traded per portfolio and asset, for the cooldown.
+    lastExecutedAt: Record<string, number>;
+}
+
+export const PIPELINE_SELL_POLICY_LABELS: Record<PipelineSellPolicy, string> = {
+    ignore: 'Ignore SELL decisions',
+    close_long: 'Close open longs',
+    close_and_short: 'Close longs and open a short',
+};
+
+const INTENTS_STORAGE_KEY = 'jaxspot_order_intents';
+const STATE_STORAGE_KEY = 'jaxspot_pipeline_execution_state';
+const MAX_INTENTS_STORED = 200;
+
+const assetKey = (portfolioId: string, asset: string) => `${portfolioId}:${asset}`;
+
+// Reads the pipeline sheet into BUY/SELL rows with a usable signal timestamp, keeping the sheet order for row numbers.
+export const parsePipelineRows = (rows: any[]): (PipelineRowRef & { signalAt: number })[] =>
+    rows.flatMap((row, index) => {
+        const decision = String(row?.Decision ?? '').trim().toUpperCase();
+        const asset = String(row?.Asset ?? '').trim().toUpperCase();
+        const timestamp = String(row?.Timestamp ?? '').trim();
+        const signalAt = new Date(timestamp).getTime();
+        if ((decision !== 'BUY' && decision !== 'SELL') || !asset || !timestamp || isNaN(signalAt)) return [];
+        const score = Number(row.Score);
+        return [{ rowNumber: index + 1, asset, decision, score: isFinite(score) ? score : 0, timestamp, signalAt }];
+    });
+
+class PipelineExecutionService {
+    private intents: OrderIntent[] = [];
+    private state: PipelineExecutionState = { lastSignalAt: {}, lastExecutedAt: {} };
+    private listeners: (() => void)[] = [];
+
+    constructor() {
+        this.loadIntents();
+        this.loadState();
+    }
+
+    subscribe(listener: () => void) {
+        this.listeners.push(listener);
+    }
+
+    unsubscribe(listener: () => void) {
+        this.listeners = this.listeners.filter(l => l !== listener);
+    }
+
+    private notifyListeners() {
+        this.listeners.forEach(l => l());
+    }
+
+    private loadIntents() {
+        try {
+            const stored = localStorage.getItem(INTENTS_STORAGE_KEY);
+            if (stored) {
+                this.intents = JSON.parse(stored);
+            }
+        } catch (error) {
+            console.error("Failed to load order intents from localStorage:", error);
+            this.intents = [];
+        }
+    }
+
+    private saveIntents() {
+        try {
+            localStorage.setItem(INTENTS_STORAGE_KEY, JSON.stringify(this.intents));
+        } catch (error) {
+            console.error("Failed to save order intents to localStorage:", error);
+        }
+    }
+
+    private loadState() {
+        try {
+            const stored = localStorage.getItem(STATE_STORAGE_KEY);
+            if (stored) {
+                this.state = { ...this.state, ...JSON.parse(stored) };
+            }
+        } catch (error) {
+            console.error("Failed to load pipeline execution state from localStorage:", error);
+        }
+    }
+
+    private saveState() {
+        try {
+            localStorage.setItem(STATE_STORAGE_KEY, JSON.stringify(this.state));
+        } catch (error) {
+            console.error("Failed to save pipeline execution state to localStorage:", error);
+        }
+    }
+
+    getIntents(): OrderIntent[] {
+        return this.intents;
+    }
+
+    clearIntents() {
+        this.intents = [];
+        this.saveIntents();
+        this.notifyListeners();
+    }
+
+    /**
+     * Turns the pipeline sheet into order intents for every portfolio. Only the newest row per asset counts,
+     * and only once: a row whose signal time is not newer than the last one evaluated for that asset is a repeat.
+     * Rows under the portfolio's confidence threshold and SELL rows under the 'ignore' policy are consumed silently;
+     * rows for an asset without a live price are left for a later run.
+     */
+    processPipeline(rows: any[], prices: Map<string, CryptoPrice>) {
+        const latestByAsset = new Map<string, PipelineRowRef & { signalAt: number }>();
+        parsePipelineRows(rows).forEach(row => {
+            const latest = latestByAsset.get(row.asset);
+            if (!latest || row.signalAt >= latest.signalAt) latestByAsset.set(row.asset, row);
+        });
+
+        const created: OrderIntent[] = [];
+        tradeSimulatorService.getPortfolios().forEach(portfolio => tradeSimulatorService.withPortfolio(portfolio.id, () => {
+            latestByAsset.forEach(({ signalAt, ...row }) => {
+                const key = assetKey(portfolio.id, row.asset);
+                if (signalAt <= (this.state.lastSignalAt[key] ?? -Infinity)) return;
+                // Without a live price the row isn't evaluated yet, so it stays unseen until prices load.
+                const coin = prices.get(row.asset);
+                if (!coin) return;
+                this.state.lastSignalAt[key] = signalAt;
+
+                const settings = tradeSimulatorService.getSettings();
+                const confidence = row.score * 100;
+                if (confidence <= settings.aiConfidence) return;
+                if (row.decision === 'SELL' && settings.pipelineSellPolicy === 'ignore') return;
+
+                const intent = this.evaluate(portfolio.id, row, coin, confidence, settings.aiConfidence);
+                if (intent.tradeIds.length > 0) this.state.lastExecutedAt[key] = intent.createdAt;
+                created.push(intent);
+            });
+        }));
+
+        this.saveState();
+        if (created.length === 0) return;
+        this.intents = [...created.reverse(), ...this.intents].slice(0, MAX_INTENTS_STORED);
+        this.saveIntents();
+        this.notifyListeners();
+    }
+
+    // Plans and carries out one row for the current portfolio.
+    private evaluate(portfolioId: string, row: PipelineRowRef, coin: CryptoPrice, confidence: number, threshold: number): OrderIntent {
+        const now = Date.now();
+        const { pipelineSellPolicy, pipelineCooldownMinutes } = tradeSimulatorService.getSettings();
+        const open = tradeSimulatorService.getAllTrades().filter(t => t.status === 'open' && t.coin.id === coin.id);
+        const longs = open.filter(t => t.direction === 'buy');
+        const shorts = open.filter(t => t.direction === 'sell');
+
+        // A BUY only closes shorts under the policy that lets the pipeline open them.
+        const actions: OrderIntentAction[] = [];
+        if (row.decision === 'BUY') {
+            if (pipelineSellPolicy === 'close_and_short' && shorts.length > 0) actions.push('close_short');
+            if (longs.length === 0 && (actions.includes('close_short') || shorts.length === 0)) actions.push('open_long');
+        } else {
+            if (longs.length > 0) actions.push('close_long');
+            if (pipelineSellPolicy === 'close_and_short' && shorts.length === 0) actions.push('open_short');
+        }
+
+        const intent: OrderIntent = {
+            id: `intent-${now}-${Math.random().toString(36).slice(2, 8)}`,
+            portfolioId,
+            row,
+            confidence,
+            threshold,
+            actions,
+            status: 'skipped',
+            reason: '',
+            tradeIds: [],
+            createdAt: now,
+        };
+
+        const lastExecutedAt = this.state.lastExecutedAt[assetKey(portfolioId, row.asset)];
+        if (pipelineCooldownMinutes > 0 && lastExecutedAt !== undefined && now - lastExecutedAt < pipelineCooldownMinutes * 60 * 1000) {
+            intent.reason = `${row.asset} traded by the pipeline ${Math.round((now - lastExecutedAt) / 60000)} min ago (cooldown ${pipelineCooldownMinutes} min).`;
+            return intent;
+        }
+        if (actions.length === 0) {
+            intent.reason = row.decision === 'BUY'
+                ? `A ${longs.length > 0 ? 'long' : 'short'} position in ${row.asset} is already open.`
+                : `No long position in ${row.asset} to close${pipelineSellPolicy === 'close_and_short' ? ' and a short is already open' : ''}.`;
+            return intent;
+        }
+
+        const rowLabel = `Pipeline ${row.decision} (row ${row.rowNumber}, ${row.timestamp}) with ${confidence.toFixed(0)}% confidence (auto-execution threshold ${threshold}%)`;
+        const outcomes: string[] = [];
+        for (const action of actions) {
+            if (action === 'close_long' || action === 'close_short') {
+                const toClose = action === 'close_long' ? longs : shorts;
+                toClose.forEach(trade => {
+                    if (tradeSimulatorService.closeTradeManually(trade.id, 'Signal Exit')) intent.tradeIds.push(trade.id);
+                });
+                outcomes.push(`closed ${toClose.length} ${action === 'close_long' ? 'long' : 'short'}${toClose.length === 1 ? '' : 's'}`);
+                continue;
+            }
+            const direction: Trade['direction'] = action === 'open_long' ? 'buy' : 'sell';
+            const trade = tradeSimulatorService.executeTrade(coin, direction, {
+                signalId: 'pipeline',
+                notes: `${rowLabel}.`,
+                tags: ['pipeline'],
+                pipelineRow: row,
+            });
+            if (trade) {
+                intent.tradeIds.push(trade.id);
+                outcomes.push(`opened ${direction === 'buy' ? 'long' : 'short'}`);
+            } else {
+                const rejection = tradeSimulatorService.getRejectedOrders()[0];
+                intent.status = 'rejected';
+                intent.reason = `Entry rejected: ${rejection?.reason ?? 'see the rejected orders log'}${outcomes.length > 0 ? ` (${outcomes.join(', ')} first)` : ''}`;
+            }
+        }
+        if (intent.status !== 'rejected') {
+            intent.status = 'executed';
+            intent.reason = `${rowLabel}: ${outcomes.join(', ')}.`;
+        }
+        return intent;
+    }
+}
+
+export const pipelineExecutionService = new PipelineExecutionService();
@@ -0,0 +1,181 @@
+import type { InvestmentStyle, RiskTolerance } from './tradeSimulatorService';
+import type { VolatilityStats } from './volatilityService';
+
+export type SizingMode = 'fixed' | 'fixed_fractional' | 'volatility' | 'kelly';
+export type VolatilityMeasure = 'atr' | 'realized';
+
+export interface SizingSettings {
+    sizingMode: SizingMode;
+    riskPerTradePercent: number; // fixed_fractional: equity lost if the stop is hit
+    targetVolatilityPercent: number; // volatility: equity expected to move per candle
+    volatilityMeasure: VolatilityMeasure;
+    kellyFraction: number; // kelly: share of the full Kelly bet to take (0-1)
+    maxPositionPercent: number; // Cap on the margin of any single position, as a percent of equity
+}
+
+export interface TradeOutcomeStats {
+    sampleSize: number;
+    winRate: number; // 0-1
+    avgWin: number;
+    avgLoss: number; // Positive number
+    source: string; // Where the history came from, e.g. a signal id or 'all trades'
+}
+
+export interface SizingBreakdown {
+    mode: SizingMode;
+    sizeUSD: number;
+    equity: number;
+    inputs: Record<string, number>;
+    explanation: string;
+    capped: boolean; // The size hit maxPositionPercent
+    fallback?: string; // Why the requested mode fell back to fixed sizing
+}
+
+export interface SizingRequest {
+    settings: SizingSettings;
+    equity: number;
+    entryPrice: number;
+    stopLossPrice: number;
+    riskTolerance: RiskTolerance;
+    investmentStyle: InvestmentStyle;
+    leverage: number; // sizeUSD is notional; the margin posted is sizeUSD / leverage
+    volatility: VolatilityStats | null;
+    outcomes: TradeOutcomeStats | null;
+}
+
+export const BASE_TRADE_SIZE_USD = 1000;
+
+export const SIZING_MODE_LABELS: Record<SizingMode, string> = {
+    fixed: 'Fixed (style x risk)',
+    fixed_fractional: 'Fixed-Fractional Risk',
+    volatility: 'Volatility Target',
+    kelly: 'Fractional Kelly',
+};
+
+export const MIN_KELLY_SAMPLE_SIZE = 10;
+
+const STYLE_MULTIPLIERS: Record<InvestmentStyle, number> = {
+    'Scalping': 0.5,
+    'Day Trading': 1.0,
+    'Swing Trading': 1.5,
+};
+
+const RISK_MULTIPLIERS: Record<RiskTolerance, number> = {
+    'Conservative': 0.75,
+    'Moderate': 1.0,
+    'Aggressive': 1.5,
+};
+
+const fixedSize = (request: SizingRequest, fallback?: string): SizingBreakdown => {
+    const styleMultiplier = STYLE_MULTIPLIERS[request.investmentStyle];
+    const riskMultiplier = RISK_MULTIPLIERS[request.riskTolerance];
+    // The fixed base is cash committed, so leverage scales the exposure it buys.
+    const { leverage } = request;
+    return {
+        mode: 'fixed',
+        sizeUSD: BASE_TRADE_SIZE_USD * styleMultiplier * riskMultiplier * leverage,
+        equity: request.equity,
+        inputs: { baseSizeUSD: BASE_TRADE_SIZE_USD, styleMultiplier, riskMultiplier, leverage },
+        explanation: `$${BASE_TRADE_SIZE_USD} base x ${styleMultiplier} (${request.investmentStyle}) x ${riskMultiplier} (${request.riskTolerance})${leverage > 1 ? ` x ${leverage}x leverage` : ''}`,
+        capped: false,
+        fallback,
+    };
+};
+
+/**
+ * Full Kelly fraction for a binary bet: f* = W - (1 - W) / R, where R is the payoff ratio.
+ */
+export const kellyCriterion = (winRate: number, avgWin: number, avgLoss: number): number => {
+    if (avgLoss <= 0) return winRate > 0 ? 1 : 0;
+    const payoffRatio = avgWin / avgLoss;
+    if (payoffRatio <= 0) return 0;
+    return winRate - (1 - winRate) / payoffRatio;
+};
+
+const uncappedSize = (request: SizingRequest): SizingBreakdown => {
+    const { settings, equity, entryPrice, stopLossPrice } = request;
+
+    switch (settings.sizingMode) {
+        case 'fixed_fractional': {
+            const stopDistancePercent = Math.abs(entryPrice - stopLossPrice) / entryPrice * 100;
+            if (!(stopDistancePercent > 0)) return fixedSize(request, 'Stop distance is zero.');
+            const riskUSD = equity * settings.riskPerTradePercent / 100;
+            return {
+                mode: 'fixed_fractional',
+                sizeUSD: riskUSD / (stopDistancePercent / 100),
+                equity,
+                inputs: { riskPerTradePercent: settings.riskPerTradePercent, riskUSD, stopDistancePercent },
+                explanation: `Risk ${settings.riskPerTradePercent}% of equity ($${riskUSD.toFixed(2)}) over a ${stopDistancePercent.toFixed(2)}% stop`,
+                capped: false,
+            };
+        }
+        case 'volatility': {
+            const { volatility } = request;
+            const volatilityPercent = volatility
+                ? (settings.volatilityMeasure === 'atr' ? volatility.atrPercent : volatility.realizedVolatility)
+                : 0;
+            if (!(volatilityPercent > 0)) return fixedSize(request, 'Volatility data is not available yet for this asset.');
+            const targetUSD = equity * settings.targetVolatilityPercent / 100;
+            return {
+                mode: 'volatility',
+                sizeUSD: targetUSD / (volatilityPercent / 100),
+                equity,
+                inputs: { targetVolatilityPercent: settings.targetVolatilityPercent, volatilityPercent, targetUSD },
+                explanation: `Target ${settings.targetVolatilityPercent}% of equity ($${targetUSD.toFixed(2)}) per candle at ${volatilityPercent.toFixed(2)}% ${settings.volatilityMeasure === 'atr' ? 'ATR' : 'realized volatility'}`,
+                capped: false,
+            };
+        }
+        case 'kelly': {
+            const { outcomes } = request;
+            if (!outcomes || outcomes.sampleSize < MIN_KELLY_SAMPLE_SIZE) {
+                return fixedSize(request, `Kelly needs at least ${MIN_KELLY_SAMPLE_SIZE} closed trades of history (have ${outcomes?.sampleSize ?? 0}).`);
+            }
+            const fullKelly = kellyCriterion(outcomes.winRate, outcomes.avgWin, outcomes.avgLoss);
+            const appliedFraction = Math.max(0, fullKelly) * settings.kellyFraction;
+            return {
+                mode: 'kelly',
+                sizeUSD: equity * appliedFraction,
+                equity,
+                inputs: {
+                    sampleSize: outcomes.sampleSize,
+                    winRate: outcomes.winRate,
+                    payoffRatio: outcomes.avgLoss > 0 ? outcomes.avgWin / outcomes.avgLoss : 0,
+                    fullKelly,
+                    kellyFraction: settings.kellyFraction,
+                },
+                explanation: `${(outcomes.winRate * 100).toFixed(1)}% win rate over ${outcomes.sampleSize} trades (${outcomes.source}); full Kelly ${(fullKelly * 100).toFixed(1)}% x ${settings.kellyFraction}`,
+                capped: false,
+            };
+        }
+        default:
+            return fixedSize(request);
+    }
+};
+
+/**
+ * Sizes a new position under the selected mode, capped so its margin stays within maxPositionPercent of equity.
+ * Modes that lack the data they need fall back to fixed sizing and say why.
+ */
+export const calculatePositionSize = (request: SizingRequest): SizingBreakdown => {
+    const breakdown = uncappedSize(request);
+    const capUSD = request.equity * request.settings.maxPositionPercent / 100 * request.leverage;
+    if (capUSD > 0 && breakdown.sizeUSD > capUSD) {
+        return { ...breakdown, sizeUSD: capUSD, capped: true, explanation: `${breakdown.explanation}; capped at ${request.settings.maxPositionPercent}% of equity in margin` };
+    }
+    return breakdown;
+};
+
+/**
+ * Win rate and average win/loss from a list of closed-trade P/Ls.
+ */
+export const summarizeOutcomes = (pnls: number[], source: string): TradeOutcomeStats => {
+    const wins = pnls.filter(p => p > 0);
+    const losses = pnls.filter(p => p <= 0);
+    return {
+        sampleSize: pnls.length,
+        winRate: pnls.length > 0 ? wins.length / pnls.length : 0,
+        avgWin: wins.length > 0 ? wins.reduce((a, b) => a + b, 0) / wins.length : 0,
+        avgLoss: losses.length > 0 ? Math.abs(losses.reduce((a, b) => a + b, 0) / losses.length) : 0,
+        source,
+    };
+};
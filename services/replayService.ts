@@ -0,0 +1,211 @@
+import { fetchRawOhlcvData, OhlcvData, CryptoPrice } from './cryptoService';
+import { TradeSimulatorService, SimulatorStorage, AmbiguousBarRule, ReplayBar, WalletSettings, Trade, EquityPoint, AccountSummary, RejectedOrder } from './tradeSimulatorService';
+import { computePerformanceReport, PerformanceReport } from './performanceAnalyticsService';
+import { DEFAULT_SIGNAL_COOLDOWN_MINUTES, AvailableSignal, SignalBacktest, TriggerMetric } from './signalsService';
+import { evaluateTrigger, getFiredBranches, getTriggerConditions, getConditionAsset, getCandleLookbackDays, TriggerMarketData } from './triggerConditionService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Metrics the replay can compute from candles; see createSignalRuleStrategy.
+export const REPLAYABLE_METRICS: TriggerMetric[] = ['price_change_24h', 'volume_change_24h', 'price_vs_ma'];
+// Candles are fetched a day at a time, so promotion backtests stay short.
+export const SIGNAL_BACKTEST_DAYS = 14;
+
+export interface ReplayContext {
+    time: number; // ms since epoch; the open of the bars about to be replayed
+    // Every asset at this bar's open, with change24h measured against the close 24h earlier.
+    prices: Map<string, CryptoPrice>; // Keyed by upper-case symbol
+    // Closed candles up to (not including) the current bar, oldest first.
+    history: (symbol: string) => OhlcvData[];
+    simulator: TradeSimulatorService;
+}
+
+// Called once per bar time, before the bars are replayed, to place entries and orders on the simulator.
+export type ReplayStrategy = (context: ReplayContext) => void;
+
+export interface ReplayConfig {
+    symbols: string[]; // Every asset the strategy reads or trades
+    from: number; // ms since epoch, inclusive
+    to: number; // ms since epoch, inclusive
+    ambiguousBarRule: AmbiguousBarRule;
+    warmupDays?: number; // Days of candles loaded before `from`, for strategies that look back
+    settings?: Partial<WalletSettings>;
+    strategy: ReplayStrategy;
+}
+
+export interface ReplayResult {
+    config: ReplayConfig;
+    barCount: number;
+    missingSymbols: string[]; // Requested symbols with no candles in the range
+    trades: Trade[];
+    rejections: RejectedOrder[];
+    account: AccountSummary;
+    equityCurve: EquityPoint[];
+    report: PerformanceReport;
+}
+
+export const AMBIGUOUS_BAR_RULE_LABELS: Record<AmbiguousBarRule, string> = {
+    stop_first: 'Stop first (pessimistic)',
+    target_first: 'Target first (optimistic)',
+    nearest_first: 'Nearest extreme to the open first',
+};
+
+const createMemoryStorage = (): SimulatorStorage => {
+    const items = new Map<string, string>();
+    return {
+        getItem: key => items.get(key) ?? null,
+        setItem: (key, value) => { items.set(key, value); },
+        removeItem: key => { items.delete(key); },
+    };
+};
+
+const toCoin = (symbol: string, price: number, change24h: number): CryptoPrice => ({
+    id: symbol.toLowerCase(),
+    symbol,
+    name: symbol,
+    price,
+    change24h,
+});
+
+/**
+ * Replays historical candles through an isolated, in-memory simulator on a clock driven by the candles,
+ * so the live wallet and webhooks are untouched. Bars are grouped by time across assets; at each time the
+ * strategy sees the bar opens, then the simulator walks each bar's high/low to resolve stops and targets.
+ *
+ * Sizing and ATR trailing stops use the current volatility stats and funding uses the latest rates,
+ * as no history is kept for either.
+ */
+export const runReplay = async (config: ReplayConfig): Promise<ReplayResult> => {
+    const symbols = [...new Set(config.symbols.map(s => s.toUpperCase()))];
+    // One extra day so change24h is defined from the first bar, plus the strategy's warm-up.
+    const days = Math.ceil((config.to - config.from) / DAY_MS) + 2 + (config.warmupDays ?? 0);
+    const candlesBySymbol = new Map<string, OhlcvData[]>();
+    for (const symbol of symbols) {
+        const candles = await fetchRawOhlcvData(symbol, days, new Date(config.to));
+        candlesBySymbol.set(symbol, candles.filter(c => c.time * 1000 <= config.to));
+    }
+
+    let now = config.from;
+    const simulator = new TradeSimulatorService({ clock: () => now, storage: createMemoryStorage(), emitWebhooks: false });
+    // Re-fund the fresh wallet with the replay's starting capital before applying the rest of the settings.
+    if (config.settings?.startingCapital !== undefined) {
+        simulator.updateSettings({ startingCapital: config.settings.startingCapital });
+        simulator.resetWallet();
+    }
+    if (config.settings) simulator.updateSettings(config.settings);
+
+    const times = [...new Set([...candlesBySymbol.values()].flat().map(c => c.time * 1000).filter(t => t >= config.from))].sort((a, b) => a - b);
+    const cursors = new Map(symbols.map(symbol => [symbol, 0]));
+    const history = (symbol: string) => {
+        const candles = candlesBySymbol.get(symbol.toUpperCase()) ?? [];
+        return candles.slice(0, cursors.get(symbol.toUpperCase()) ?? 0);
+    };
+
+    times.forEach(time => {
+        now = time;
+        const bars = new Map<string, ReplayBar>();
+        const prices = new Map<string, CryptoPrice>();
+        symbols.forEach(symbol => {
+            const candles = candlesBySymbol.get(symbol)!;
+            let cursor = cursors.get(symbol)!;
+            while (cursor < candles.length && candles[cursor].time * 1000 < time) cursor++;
+            cursors.set(symbol, cursor);
+            const bar = candles[cursor]?.time * 1000 === time ? candles[cursor] : undefined;
+            if (!bar) return;
+            // The last close at least 24h before this bar, for a change24h like the live feed's.
+            let reference: OhlcvData | undefined;
+            for (let i = cursor - 1; i >= 0; i--) {
+                if (candles[i].time * 1000 <= time - DAY_MS) { reference = candles[i]; break; }
+            }
+            const change24h = reference ? ((bar.open - reference.close) / reference.close) * 100 : 0;
+            prices.set(symbol, toCoin(symbol, bar.open, change24h));
+            bars.set(symbol.toLowerCase(), bar);
+        });
+
+        config.strategy({ time, prices, history, simulator });
+        simulator.replayBars(bars, config.ambiguousBarRule);
+    });
+
+    const trades = [...simulator.getAllTrades()];
+    const { startingCapital } = simulator.getSettings();
+    return {
+        config,
+        barCount: times.length,
+        missingSymbols: symbols.filter(symbol => !candlesBySymbol.get(symbol)!.some(c => c.time * 1000 >= config.from)),
+        trades,
+        rejections: [...simulator.getRejectedOrders()],
+        account: simulator.getAccountSummary(),
+        equityCurve: simulator.getEquityCurve(),
+        report: computePerformanceReport(trades, { from: config.from, to: config.to }, startingCapital),
+    };
+};
+
+/**
+ * Trades signals the way the live signal checker does: when a signal's condition tree holds, open its trade
+ * on the affected asset, at most once per signal's cooldown and, with hysteresis, only after the condition cleared. Price, volume and moving-average conditions read the
+ * replayed candles; sentiment, dominance, TVL and funding have no history, so conditions on them never hold.
+ */
+export const createSignalRuleStrategy = (signals: AvailableSignal[]): ReplayStrategy => {
+    const lastTriggeredAt = new Map<string, number>();
+    const disarmed = new Set<string>();
+    return ({ time, prices, history, simulator }) => {
+        const data: TriggerMarketData = { now: time, prices, sentiment: null, liquidity: null, fundingRates: new Map(), candles: history };
+        signals.forEach(signal => {
+            const target = prices.get(signal.affected_asset.toUpperCase());
+            if (!target) return;
+            const evaluation = evaluateTrigger(signal.triggerCondition, signal, data);
+            if (disarmed.has(signal.id)) {
+                if (evaluation.available && !evaluation.met) disarmed.delete(signal.id);
+                return;
+            }
+            const cooldownMs = (signal.cooldownMinutes ?? DEFAULT_SIGNAL_COOLDOWN_MINUTES) * 60 * 1000;
+            if (!evaluation.met || time - (lastTriggeredAt.get(signal.id) ?? -Infinity) < cooldownMs) return;
+
+            lastTriggeredAt.set(signal.id, time);
+            if (signal.hysteresis) disarmed.add(signal.id);
+            simulator.executeTrade(target, signal.trade_direction, {
+                signalId: signal.id,
+                notes: `Replay of signal "${signal.title}": ${getFiredBranches(evaluation).join('; ')}.`,
+                tags: ['replay', 'signal'],
+            });
+        });
+    };
+};
+
+// Symbols a set of signals needs candles for, including BTC when a condition reads it as the global asset.
+export const getSignalSymbols = (signals: AvailableSignal[]): string[] =>
+    [...new Set(signals.flatMap(s => [
+        s.trigger_asset,
+        s.affected_asset,
+        ...getTriggerConditions(s.triggerCondition).map(condition => getConditionAsset(condition, s) ?? s.trigger_asset),
+    ]).map(s => s.toUpperCase()))];
+
+// Extra days of candles before the replay starts, so moving averages and volume changes are defined from the first bar.
+export const getSignalWarmupDays = (signals: AvailableSignal[]): number =>
+    Math.max(0, ...signals.flatMap(s => getTriggerConditions(s.triggerCondition).map(getCandleLookbackDays)));
+
+// Replays one signal over the last `days` days, the check a condition passes before the signal goes live.
+export const backtestSignal = async (signal: AvailableSignal, settings?: Partial<WalletSettings>, days = SIGNAL_BACKTEST_DAYS): Promise<SignalBacktest> => {
+    const to = Date.now();
+    const from = to - days * DAY_MS;
+    const { report, missingSymbols } = await runReplay({
+        symbols: getSignalSymbols([signal]),
+        from,
+        to,
+        ambiguousBarRule: 'stop_first',
+        warmupDays: getSignalWarmupDays([signal]),
+        settings,
+        strategy: createSignalRuleStrategy([signal]),
+    });
+    return {
+        from,
+        to,
+        runAt: Date.now(),
+        tradeCount: report.tradeCount,
+        winRate: report.winRate,
+        netPnl: report.netPnl,
+        maxDrawdownPercent: report.maxDrawdownPercent,
+        missingSymbols,
+        unreplayableMetrics: [...new Set(getTriggerConditions(signal.triggerCondition).map(c => c.metric))].filter(metric => !REPLAYABLE_METRICS.includes(metric)),
+    };
+};
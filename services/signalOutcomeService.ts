@@ -0,0 +1,109 @@
+import type { OhlcvData } from './cryptoService';
+import type { SignalEvent } from './signalsService';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export type ForwardHorizon = '1h' | '24h' | '3d' | '7d';
+
+export const FORWARD_HORIZONS: { key: ForwardHorizon; ms: number }[] = [
+    { key: '1h', ms: HOUR_MS },
+    { key: '24h', ms: DAY_MS },
+    { key: '3d', ms: 3 * DAY_MS },
+    { key: '7d', ms: 7 * DAY_MS },
+];
+
+// Excursions are tracked over the longest horizon.
+export const OUTCOME_WINDOW_MS = 7 * DAY_MS;
+// How long past the window an event keeps waiting for late candles before it's closed out with gaps.
+const OUTCOME_GRACE_MS = DAY_MS;
+// Signal scorecards cover this many of a signal's latest events.
+export const SCORECARD_WINDOW = 20;
+
+/**
+ * What happened to the affected asset after an event. Returns and excursions are percentages of the
+ * triggered price, signed in the signal's direction: positive means the trade would have made money.
+ */
+export interface SignalEventOutcome {
+    returns: Partial<Record<ForwardHorizon, number>>; // Filled in as each horizon passes
+    maxFavorableExcursion: number | null; // Best move within the window so far; >= 0
+    maxAdverseExcursion: number | null; // Worst move within the window so far; <= 0
+    updatedAt: number;
+    complete: boolean; // Every horizon is captured, or the data never arrived; no more updates
+}
+
+export interface HorizonScore {
+    horizon: ForwardHorizon;
+    sampleSize: number;
+    hitRate: number; // 0-1; share of events with a positive return
+    averageReturn: number;
+}
+
+export interface SignalScorecard {
+    signalId: string;
+    eventCount: number; // Events in the window, with or without outcomes
+    horizons: HorizonScore[];
+    averageMfe: number | null;
+    averageMae: number | null;
+}
+
+// Past this, an event stops waiting for candles: whatever it has captured is final.
+export const isOutcomeOverdue = (event: SignalEvent, now: number): boolean =>
+    now > new Date(event.triggeredAt).getTime() + OUTCOME_WINDOW_MS + OUTCOME_GRACE_MS;
+
+/**
+ * Updates an event's outcome from candles of its affected asset, oldest first. A horizon's return is the close of
+ * the last candle that opened after the trigger and by the horizon; horizons already captured are kept as they are.
+ */
+export const computeEventOutcome = (event: SignalEvent, candles: OhlcvData[], now: number): SignalEventOutcome => {
+    const start = new Date(event.triggeredAt).getTime();
+    const windowEnd = Math.min(now, start + OUTCOME_WINDOW_MS);
+    const direction = event.signal.trade_direction === 'buy' ? 1 : -1;
+    const toReturn = (price: number) => direction * ((price - event.triggeredPrice) / event.triggeredPrice) * 100;
+    const window = candles.filter(c => c.time * 1000 > start && c.time * 1000 <= windowEnd);
+
+    const returns = { ...event.outcome?.returns };
+    FORWARD_HORIZONS.forEach(({ key, ms }) => {
+        if (returns[key] !== undefined || now < start + ms) return;
+        const candle = [...window].reverse().find(c => c.time * 1000 <= start + ms);
+        if (candle) returns[key] = toReturn(candle.close);
+    });
+
+    let maxFavorableExcursion = event.outcome?.maxFavorableExcursion ?? null;
+    let maxAdverseExcursion = event.outcome?.maxAdverseExcursion ?? null;
+    window.forEach(candle => {
+        const moves = [toReturn(candle.high), toReturn(candle.low)];
+        maxFavorableExcursion = Math.max(maxFavorableExcursion ?? 0, ...moves);
+        maxAdverseExcursion = Math.min(maxAdverseExcursion ?? 0, ...moves);
+    });
+
+    const captured = FORWARD_HORIZONS.every(({ key }) => returns[key] !== undefined);
+    return {
+        returns,
+        maxFavorableExcursion,
+        maxAdverseExcursion,
+        updatedAt: now,
+        complete: captured || isOutcomeOverdue(event, now),
+    };
+};
+
+// Rolling stats over a signal's latest events; `events` may hold any signals' events, newest first.
+export const computeSignalScorecard = (signalId: string, events: SignalEvent[], window = SCORECARD_WINDOW): SignalScorecard => {
+    const recent = events.filter(e => e.signal.id === signalId).slice(0, window);
+    const average = (values: number[]) => values.length > 0 ? values.reduce((acc, v) => acc + v, 0) / values.length : null;
+    return {
+        signalId,
+        eventCount: recent.length,
+        horizons: FORWARD_HORIZONS.map(({ key }) => {
+            const returns = recent.map(e => e.outcome?.returns[key]).filter((r): r is number => r !== undefined);
+            return {
+                horizon: key,
+                sampleSize: returns.length,
+                hitRate: returns.length > 0 ? returns.filter(r => r > 0).length / returns.length : 0,
+                averageReturn: average(returns) ?? 0,
+            };
+        }),
+        averageMfe: average(recent.map(e => e.outcome?.maxFavorableExcursion).filter((v): v is number => v !== null && v !== undefined)),
+        averageMae: average(recent.map(e => e.outcome?.maxAdverseExcursion).filter((v): v is number => v !== null && v !== undefined)),
+    };
+};
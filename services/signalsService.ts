@@ -1,16 +1,38 @@
 // services/signalsService.ts
-import { CryptoPrice, NewsSentiment } from './cryptoService';
+import { CryptoPrice, NewsSentiment, GlobalLiquidity, OhlcvData, fetchFundingRates, fetchRawOhlcvData } from './cryptoService';
 // Fix: Import Experiment type to be used in activateSignalFromExperiment method.
 import type { Experiment } from './learningService';
+import { webhookService } from './webhookService';
+import { tradeSimulatorService, ExitPlan } from './tradeSimulatorService';
+import { computeEventOutcome, isOutcomeOverdue, OUTCOME_WINDOW_MS, SignalEventOutcome } from './signalOutcomeService';
+import { evaluateTrigger, validateTrigger, getFiredBranches, getTriggerConditions, getConditionAsset, getCandleLookbackDays, TriggerMarketData } from './triggerConditionService';
+
+export type TriggerMetric =
+    | 'price_change_24h'
+    | 'sentiment_score'
+    | 'volume_change_24h'
+    | 'btc_dominance'
+    | 'defi_tvl' // In billions of USD
+    | 'funding_rate'
+    | 'price_vs_ma';
 
 // NEW: Define a structured trigger condition
 export interface TriggerCondition {
-    metric: 'price_change_24h' | 'sentiment_score';
+    metric: TriggerMetric;
     operator: 'gt' | 'lt'; // greater than | less than
     threshold: number;
-    source: 'trigger_asset' | 'affected_asset' | 'global';
+    source: 'trigger_asset' | 'affected_asset' | 'global'; // 'global' reads BTC for per-asset metrics
+    maPeriodDays?: number; // price_vs_ma: days of daily closes in the average
+}
+
+// Combines conditions; a NOT group has exactly one child.
+export interface TriggerGroup {
+    op: 'and' | 'or' | 'not';
+    children: TriggerNode[];
 }
 
+export type TriggerNode = TriggerCondition | TriggerGroup;
+
 export interface AvailableSignal {
     id: string;
     title: string;
@@ -18,24 +40,207 @@ export interface AvailableSignal {
     trigger_asset: string;
     affected_asset: string;
     trade_direction: 'buy' | 'sell';
-    triggerCondition: TriggerCondition;
+    triggerCondition: TriggerNode;
+    executionPolicy?: SignalExecutionPolicy; // Unset: events are recorded but nothing trades
+    status?: SignalStatus; // 'active' when unset
+    expiresAt?: number | null; // The signal expires (stops firing) at this time
+    cooldownMinutes?: number; // Minimum gap between events; DEFAULT_SIGNAL_COOLDOWN_MINUTES when unset
+    hysteresis?: boolean; // After an event, wait for the condition to clear before firing again
+    armed?: boolean; // With hysteresis: false from an event until the condition is seen to clear
+    conditionVersion?: number;
+    conditionHistory?: SignalConditionVersion[]; // Oldest first; the last entry is the current condition
+    backtest?: SignalBacktest; // The replay the signal was checked with before it was activated
+}
+
+// A replay of a signal's condition over recent candles. Conditions on metrics without history never hold in it.
+export interface SignalBacktest {
+    from: number;
+    to: number;
+    runAt: number;
+    tradeCount: number;
+    winRate: number; // 0-100
+    netPnl: number;
+    maxDrawdownPercent: number;
+    missingSymbols: string[]; // Assets with no candles in the window
+    unreplayableMetrics: TriggerMetric[];
+}
+
+// Paused signals can be resumed; expired ones too once their expiry is moved. Retired is final.
+export type SignalStatus = 'active' | 'paused' | 'expired' | 'retired';
+
+export interface SignalConditionVersion {
+    version: number;
+    triggerCondition: TriggerNode;
+    changedAt: number;
+    note?: string;
+}
+
+export interface SignalLifecycleSettings {
+    expiresAt: number | null;
+    cooldownMinutes: number;
+    hysteresis: boolean;
+}
+
+// How a signal's events turn into paper trades on the affected asset, in the trade direction.
+export interface SignalExecutionPolicy {
+    enabled: boolean;
+    portfolioId: string;
+    sizeUSD?: number; // Fixed notional; the portfolio's sizing rules when unset
+    takeProfitPercent?: number; // Move from the quoted price; the portfolio's risk settings when unset
+    stopLossPercent?: number;
+    maxConcurrent: number; // Open trades from this signal in the portfolio
 }
 
+// What the execution policy did with an event.
+export interface SignalEventExecution {
+    portfolioId: string;
+    status: 'executed' | 'skipped' | 'rejected';
+    reason: string;
+    tradeId?: string;
+}
+
+// What an archived event keeps of its signal. The rest (description, condition, policy...) is read from the live signal.
+export type SignalSnapshot = Pick<AvailableSignal, 'id' | 'title' | 'trigger_asset' | 'affected_asset' | 'trade_direction'>;
+
 export interface SignalEvent {
     eventId: string;
-    signal: AvailableSignal;
+    signal: SignalSnapshot;
     triggeredPrice: number;
     triggeredAt: string;
+    firedBranches?: string[]; // The conditions (or NOT groups) that held, with their readings
+    outcome?: SignalEventOutcome; // Forward returns and excursions, filled in over the following week
+    execution?: SignalEventExecution; // Only set when the signal had an enabled execution policy
+    conditionVersion?: number; // Version of the signal's condition that fired
     livePrice?: number; // <-- new field
 }
 
+export interface SignalEventQuery {
+    signalId?: string;
+    asset?: string; // Matches the trigger or the affected asset
+    from?: number; // ms since epoch, inclusive
+    to?: number; // ms since epoch, inclusive
+    page?: number; // 1-based
+    pageSize?: number;
+}
+
+export interface SignalEventPage {
+    events: SignalEvent[]; // Newest first
+    total: number; // Events matching the filters, across all pages
+    page: number;
+    pageSize: number;
+    pageCount: number;
+}
+
 type UpdateCallback = () => void;
 
+// Bump when the stored shape of signals or events changes, and migrate older data in loadStored.
+// 2: signals carry a lifecycle status and condition versions.
+// 3: events keep a SignalSnapshot instead of the whole signal.
+export const SIGNALS_SCHEMA_VERSION = 3;
+
+export const DEFAULT_SIGNAL_COOLDOWN_MINUTES = 60;
+
+export const SIGNAL_STATUS_LABELS: Record<SignalStatus, string> = {
+    active: 'Active',
+    paused: 'Paused',
+    expired: 'Expired',
+    retired: 'Retired',
+};
+
+export const getSignalStatus = (signal: AvailableSignal): SignalStatus => signal.status ?? 'active';
+
+export const toSignalSnapshot = ({ id, title, trigger_asset, affected_asset, trade_direction }: SignalSnapshot): SignalSnapshot =>
+    ({ id, title, trigger_asset, affected_asset, trade_direction });
+
+// The signal an experiment becomes, before it has any lifecycle state.
+export const createSignalFromExperiment = (experiment: Experiment, triggerCondition: TriggerNode): AvailableSignal => ({
+    id: experiment.id,
+    title: experiment.title,
+    description: experiment.description,
+    trigger_asset: experiment.trigger_asset,
+    affected_asset: experiment.affected_asset,
+    trade_direction: experiment.trade_direction,
+    triggerCondition,
+});
+
+// Fills in the lifecycle fields of signals from before they existed; the current condition becomes version 1.
+const withLifecycleDefaults = (signal: AvailableSignal, now: number): AvailableSignal => ({
+    ...signal,
+    status: getSignalStatus(signal),
+    conditionVersion: signal.conditionVersion ?? 1,
+    conditionHistory: signal.conditionHistory ?? [{ version: signal.conditionVersion ?? 1, triggerCondition: signal.triggerCondition, changedAt: now }],
+});
+
+const SIGNALS_STORAGE_KEY = 'jaxspot_activated_signals';
+const SIGNAL_EVENTS_STORAGE_KEY = 'jaxspot_signal_events';
+// The archive keeps the newest events up to this many, to stay within the localStorage quota.
+const MAX_STORED_EVENTS = 5000;
+const DEFAULT_EVENT_PAGE_SIZE = 25;
+
+interface StoredSignalData<T> {
+    schemaVersion: number;
+    items: T[];
+}
+
 class SignalsService {
     private activatedSignals: AvailableSignal[] = [];
     private signalEvents: SignalEvent[] = [];
     private subscribers: UpdateCallback[] = [];
     private allCoins: CryptoPrice[] = [];
+    // Keys holding data from a newer schema; they're left untouched rather than overwritten.
+    private readOnlyKeys = new Set<string>();
+    private outcomeRequest: Promise<void> | null = null;
+
+    constructor() {
+        this.activatedSignals = this.loadStored<AvailableSignal>(SIGNALS_STORAGE_KEY, 'activated signals', (signal, version) =>
+            version < 2 ? withLifecycleDefaults(signal, Date.now()) : signal
+        ).filter(signal => signal?.id && signal.triggerCondition);
+        let slimmedEvents = false;
+        this.signalEvents = this.loadStored<SignalEvent>(SIGNAL_EVENTS_STORAGE_KEY, 'signal events', (event, version) => {
+            if (version >= 3 || !event?.signal) return event;
+            slimmedEvents = true;
+            return { ...event, signal: toSignalSnapshot(event.signal) };
+        }).filter(event => event?.eventId && event.signal && event.triggeredAt);
+        // Rewrite the archive straight away: full signal copies are what filled the storage quota.
+        if (slimmedEvents) this.saveEvents();
+        this.expireSignals(Date.now());
+    }
+
+    private loadStored<T>(key: string, label: string, migrate: (item: T, fromVersion: number) => T = item => item): T[] {
+        try {
+            const stored = localStorage.getItem(key);
+            if (!stored) return [];
+            const data: StoredSignalData<T> = JSON.parse(stored);
+            if (data.schemaVersion > SIGNALS_SCHEMA_VERSION) {
+                console.warn(`Stored ${label} use schema version ${data.schemaVersion}, newer than this app supports (${SIGNALS_SCHEMA_VERSION}). They won't be loaded or overwritten.`);
+                this.readOnlyKeys.add(key);
+                return [];
+            }
+            return Array.isArray(data.items) ? data.items.map(item => migrate(item, data.schemaVersion ?? 1)) : [];
+        } catch (error) {
+            console.error(`Failed to load ${label} from localStorage:`, error);
+            return [];
+        }
+    }
+
+    private saveStored<T>(key: string, label: string, items: T[]) {
+        if (this.readOnlyKeys.has(key)) return;
+        try {
+            const data: StoredSignalData<T> = { schemaVersion: SIGNALS_SCHEMA_VERSION, items };
+            localStorage.setItem(key, JSON.stringify(data));
+        } catch (error) {
+            console.error(`Failed to save ${label} to localStorage:`, error);
+        }
+    }
+
+    private saveSignals() {
+        this.saveStored(SIGNALS_STORAGE_KEY, 'activated signals', this.activatedSignals);
+    }
+
+    // Live prices are derived on load, so they're left out of the archive.
+    private saveEvents() {
+        this.saveStored(SIGNAL_EVENTS_STORAGE_KEY, 'signal events', this.signalEvents.map(({ livePrice, ...event }) => event));
+    }
 
     // Inject fresh coin data
     setAllCoins(coins: CryptoPrice[]) {
@@ -58,110 +263,320 @@ class SignalsService {
         return this.activatedSignals;
     }
 
+    // The whole archive, newest first.
     getSignalEvents(): SignalEvent[] {
         return this.signalEvents;
     }
 
+    // One page of the archive, newest first, after filtering by signal, asset and trigger time.
+    queryEvents(query: SignalEventQuery = {}): SignalEventPage {
+        const asset = query.asset?.trim().toUpperCase();
+        const matching = this.signalEvents.filter(event => {
+            if (query.signalId && event.signal.id !== query.signalId) return false;
+            if (asset && event.signal.trigger_asset.toUpperCase() !== asset && event.signal.affected_asset.toUpperCase() !== asset) return false;
+            const triggeredAt = new Date(event.triggeredAt).getTime();
+            if (query.from !== undefined && triggeredAt < query.from) return false;
+            if (query.to !== undefined && triggeredAt > query.to) return false;
+            return true;
+        });
+        const pageSize = Math.max(1, query.pageSize ?? DEFAULT_EVENT_PAGE_SIZE);
+        const pageCount = Math.max(1, Math.ceil(matching.length / pageSize));
+        const page = Math.min(pageCount, Math.max(1, query.page ?? 1));
+        return {
+            events: matching.slice((page - 1) * pageSize, page * pageSize),
+            total: matching.length,
+            page,
+            pageSize,
+            pageCount,
+        };
+    }
+
     addActivatedSignal(signal: AvailableSignal) {
-        this.activatedSignals.push(signal);
+        this.activatedSignals.push(withLifecycleDefaults(signal, Date.now()));
+        this.saveSignals();
+        this.notify();
+    }
+
+    private updateSignal(signalId: string, update: (signal: AvailableSignal) => AvailableSignal) {
+        this.activatedSignals = this.activatedSignals.map(s => s.id === signalId ? update(s) : s);
+        this.saveSignals();
         this.notify();
     }
 
-    // Fix: Implement activateSignalFromExperiment to handle promoting a successful experiment to an active signal.
-    activateSignalFromExperiment(experiment: Experiment) {
+    // Sets or clears (null) a signal's execution policy. Sizes and percents that aren't positive fall back to the portfolio's settings.
+    updateExecutionPolicy(signalId: string, policy: SignalExecutionPolicy | null) {
+        if (!this.activatedSignals.some(s => s.id === signalId)) return;
+        const positive = (value: number | undefined) => value !== undefined && isFinite(value) && value > 0 ? value : undefined;
+        this.updateSignal(signalId, s => {
+            if (!policy) {
+                const { executionPolicy, ...rest } = s;
+                return rest;
+            }
+            return {
+                ...s,
+                executionPolicy: {
+                    enabled: policy.enabled,
+                    portfolioId: policy.portfolioId,
+                    sizeUSD: positive(policy.sizeUSD),
+                    takeProfitPercent: positive(policy.takeProfitPercent),
+                    stopLossPercent: positive(policy.stopLossPercent),
+                    maxConcurrent: Math.max(1, Math.floor(policy.maxConcurrent) || 1),
+                },
+            };
+        });
+    }
+
+    /**
+     * Pauses, resumes or retires a signal, and returns whether the change was allowed. Retired signals stay retired,
+     * and an expired signal only resumes once its expiry has been moved into the future.
+     */
+    setSignalStatus(signalId: string, status: Exclude<SignalStatus, 'expired'>): boolean {
+        const signal = this.activatedSignals.find(s => s.id === signalId);
+        if (!signal || getSignalStatus(signal) === 'retired') return false;
+        if (status === 'active' && signal.expiresAt != null && signal.expiresAt <= Date.now()) return false;
+        // Resuming re-arms hysteresis, since the condition wasn't watched while paused.
+        this.updateSignal(signalId, s => ({ ...s, status, armed: status === 'active' ? true : s.armed }));
+        return true;
+    }
+
+    updateLifecycleSettings(signalId: string, settings: SignalLifecycleSettings) {
+        if (!this.activatedSignals.some(s => s.id === signalId)) return;
+        this.updateSignal(signalId, s => ({
+            ...s,
+            expiresAt: settings.expiresAt,
+            cooldownMinutes: Math.max(0, isFinite(settings.cooldownMinutes) ? settings.cooldownMinutes : DEFAULT_SIGNAL_COOLDOWN_MINUTES),
+            hysteresis: settings.hysteresis,
+            armed: settings.hysteresis ? s.armed : undefined,
+        }));
+        this.expireSignals(Date.now());
+    }
+
+    // Replaces a signal's condition as a new version, keeping the old ones. Returns validation errors; nothing changes if there are any.
+    updateTriggerCondition(signalId: string, triggerCondition: TriggerNode, note?: string): string[] {
+        const signal = this.activatedSignals.find(s => s.id === signalId);
+        if (!signal) return ['Signal not found.'];
+        const errors = validateTrigger(triggerCondition);
+        if (errors.length > 0) return errors;
+        if (JSON.stringify(triggerCondition) === JSON.stringify(signal.triggerCondition)) return [];
+
+        const version = (signal.conditionVersion ?? 1) + 1;
+        this.updateSignal(signalId, s => ({
+            ...s,
+            triggerCondition,
+            conditionVersion: version,
+            conditionHistory: [...(s.conditionHistory ?? []), { version, triggerCondition, changedAt: Date.now(), note: note?.trim() || undefined }],
+            armed: true,
+        }));
+        return [];
+    }
+
+    private expireSignals(now: number) {
+        const expiring = this.activatedSignals.filter(s => getSignalStatus(s) === 'active' && s.expiresAt != null && s.expiresAt <= now);
+        if (expiring.length === 0) return;
+        const ids = new Set(expiring.map(s => s.id));
+        this.activatedSignals = this.activatedSignals.map(s => ids.has(s.id) ? { ...s, status: 'expired' } : s);
+        this.saveSignals();
+        this.notify();
+    }
+
+    // Opens the event's trade in the policy's portfolio, unless the signal already has maxConcurrent trades open there.
+    private executeSignalEvent(event: SignalEvent, policy: SignalExecutionPolicy, coin: CryptoPrice): SignalEventExecution {
+        const { signal } = event;
+        const execution: SignalEventExecution = { portfolioId: policy.portfolioId, status: 'skipped', reason: '' };
+        if (!tradeSimulatorService.getPortfolios().some(p => p.id === policy.portfolioId)) {
+            execution.reason = 'The portfolio in the execution policy no longer exists.';
+            return execution;
+        }
+
+        return tradeSimulatorService.withPortfolio(policy.portfolioId, () => {
+            const open = tradeSimulatorService.getAllTrades().filter(t => t.status === 'open' && t.signalId === signal.id);
+            if (open.length >= policy.maxConcurrent) {
+                execution.reason = `${open.length} trade${open.length === 1 ? '' : 's'} from this signal already open (max ${policy.maxConcurrent}).`;
+                return execution;
+            }
+
+            const side = signal.trade_direction === 'buy' ? 1 : -1;
+            const exitPlan: ExitPlan = {};
+            if (policy.stopLossPercent) exitPlan.stopLoss = coin.price * (1 - side * policy.stopLossPercent / 100);
+            if (policy.takeProfitPercent) exitPlan.target2 = coin.price * (1 + side * policy.takeProfitPercent / 100);
+            const trade = tradeSimulatorService.executeTrade(coin, signal.trade_direction, {
+                signalId: signal.id,
+                signalEventId: event.eventId,
+                sizeUSD: policy.sizeUSD,
+                exitPlan,
+                notes: `Signal "${signal.title}" fired: ${(event.firedBranches ?? []).join('; ')}.`,
+                tags: ['signal'],
+            });
+            if (!trade) {
+                execution.status = 'rejected';
+                execution.reason = `Entry rejected: ${tradeSimulatorService.getRejectedOrders()[0]?.reason ?? 'see the rejected orders log'}`;
+                return execution;
+            }
+            execution.status = 'executed';
+            execution.tradeId = trade.id;
+            execution.reason = `Opened a ${signal.trade_direction === 'buy' ? 'long' : 'short'} on ${coin.symbol}.`;
+            return execution;
+        });
+    }
+
+    /**
+     * Promotes a successful experiment to an active signal, with the condition the user reviewed and the backtest
+     * it was checked against. Returns validation errors; nothing is activated if there are any.
+     */
+    activateSignalFromExperiment(experiment: Experiment, triggerCondition: TriggerNode, backtest: SignalBacktest): string[] {
         if (this.activatedSignals.some(s => s.id === experiment.id)) {
             console.warn(`Signal with ID ${experiment.id} is already activated.`);
-            return;
+            return ['This experiment is already an active signal.'];
         }
-        
-        // MOCK: Create a plausible trigger condition since it's not provided by the experiment.
-        // In a real system, this would be derived from the pattern's analysis.
-        // This example assumes the trigger is based on the trigger_asset's 24h price change.
-        const mockTriggerCondition: TriggerCondition = {
-            metric: 'price_change_24h',
-            operator: 'gt',
-            threshold: 5,
-            source: 'trigger_asset',
-        };
-
-        const newSignal: AvailableSignal = {
-            id: experiment.id,
-            title: experiment.title,
-            description: experiment.description,
-            trigger_asset: experiment.trigger_asset,
-            affected_asset: experiment.affected_asset,
-            trade_direction: experiment.trade_direction,
-            triggerCondition: mockTriggerCondition,
-        };
+        const errors = validateTrigger(triggerCondition);
+        if (errors.length > 0) return errors;
 
+        const newSignal: AvailableSignal = { ...createSignalFromExperiment(experiment, triggerCondition), backtest };
         this.addActivatedSignal(newSignal);
+        webhookService.dispatch('signal_activated', { signal: newSignal });
         console.log(`Activated new signal: ${newSignal.title}`);
+        return [];
     }
 
     addSignalEvent(event: SignalEvent) {
         // Improvement: Add new events to the top of the list for better UX.
         this.signalEvents.unshift(event);
-        if (this.signalEvents.length > 50) { // Cap the number of events to prevent memory issues.
-            this.signalEvents.pop();
+        if (this.signalEvents.length > MAX_STORED_EVENTS) {
+            this.signalEvents.length = MAX_STORED_EVENTS;
         }
+        this.saveEvents();
         this.refreshLivePrices();
     }
     
-    // ENHANCED: Checks for structured signal conditions against live price and sentiment data.
-    checkForSignalTriggers(prices: CryptoPrice[], sentiment: NewsSentiment | null) {
+    // Fills in forward returns and excursions for events still inside their window, from the affected assets' candles.
+    updateEventOutcomes(): Promise<void> {
+        if (!this.outcomeRequest) {
+            this.outcomeRequest = this.refreshEventOutcomes().finally(() => { this.outcomeRequest = null; });
+        }
+        return this.outcomeRequest;
+    }
+
+    private async refreshEventOutcomes() {
+        const now = Date.now();
+        const outcomes = new Map<string, SignalEventOutcome>();
+        const pendingByAsset = new Map<string, SignalEvent[]>();
+        this.signalEvents.filter(event => !event.outcome?.complete).forEach(event => {
+            // Overdue events are closed out with what they have, so fetches only ever span the last outcome window.
+            if (isOutcomeOverdue(event, now)) {
+                outcomes.set(event.eventId, computeEventOutcome(event, [], now));
+                return;
+            }
+            const asset = event.signal.affected_asset.toUpperCase();
+            pendingByAsset.set(asset, [...(pendingByAsset.get(asset) ?? []), event]);
+        });
+        if (outcomes.size === 0 && pendingByAsset.size === 0) return;
+
+        for (const [asset, events] of pendingByAsset) {
+            const starts = events.map(event => new Date(event.triggeredAt).getTime());
+            const end = Math.min(now, Math.max(...starts) + OUTCOME_WINDOW_MS);
+            const days = Math.ceil((end - Math.min(...starts)) / (24 * 60 * 60 * 1000)) + 1;
+            let candles: OhlcvData[];
+            try {
+                candles = await fetchRawOhlcvData(asset, days, new Date(end));
+            } catch (error) {
+                console.error(`Failed to fetch candles for ${asset} signal outcomes:`, error);
+                continue; // Retried on the next refresh; other assets still update.
+            }
+            events.forEach(event => outcomes.set(event.eventId, computeEventOutcome(event, candles, now)));
+        }
+
+        this.signalEvents = this.signalEvents.map(event => outcomes.has(event.eventId) ? { ...event, outcome: outcomes.get(event.eventId) } : event);
+        this.saveEvents();
+        this.notify();
+    }
+
+    // ENHANCED: Evaluates each signal's condition tree against live prices, sentiment, global liquidity,
+    // funding rates and recent candles, and records which branches fired.
+    async checkForSignalTriggers(prices: CryptoPrice[], sentiment: NewsSentiment | null, liquidity: GlobalLiquidity | null = null) {
         this.setAllCoins(prices); // Keep the service's coin data fresh for live updates.
-        const priceMap = new Map(prices.map(p => [p.symbol.toUpperCase(), p]));
-
-        this.activatedSignals.forEach(signal => {
-            const { triggerCondition, trigger_asset, affected_asset, id: signalId } = signal;
-
-            let conditionMet = false;
-            let currentMetricValue: number | undefined;
-
-            if (triggerCondition.metric === 'price_change_24h') {
-                const assetSymbolToCheck = (triggerCondition.source === 'affected_asset' ? affected_asset : trigger_asset).toUpperCase();
-                const triggerAssetData = priceMap.get(assetSymbolToCheck);
-                if (triggerAssetData) {
-                    currentMetricValue = triggerAssetData.change24h;
-                    if (triggerCondition.operator === 'gt') {
-                        conditionMet = currentMetricValue > triggerCondition.threshold;
-                    } else { // 'lt'
-                        conditionMet = currentMetricValue < triggerCondition.threshold;
-                    }
-                }
-            } else if (triggerCondition.metric === 'sentiment_score') {
-                if (sentiment) {
-                    // Sentiment score is global (0-1), threshold is 0-100 for simplicity
-                    currentMetricValue = sentiment.sentiment_score * 100;
-                    if (triggerCondition.operator === 'gt') {
-                        conditionMet = currentMetricValue > triggerCondition.threshold;
-                    } else { // 'lt'
-                        conditionMet = currentMetricValue < triggerCondition.threshold;
-                    }
-                }
+        this.expireSignals(Date.now());
+        const data = await this.loadMarketData(prices, sentiment, liquidity);
+
+        this.activatedSignals.filter(signal => getSignalStatus(signal) === 'active').forEach(signal => {
+            const { affected_asset, id: signalId } = signal;
+            const evaluation = evaluateTrigger(signal.triggerCondition, signal, data);
+            if (signal.hysteresis && signal.armed === false) {
+                // Re-arm only on a reading that shows the condition cleared, not on missing data.
+                if (evaluation.available && !evaluation.met) this.updateSignal(signalId, s => ({ ...s, armed: true }));
+                return;
             }
-            
-            if (conditionMet) {
-                const affectedAssetData = priceMap.get(affected_asset.toUpperCase());
-                if (!affectedAssetData) return;
-
-                // Avoid re-triggering too frequently (1 hour cooldown)
-                const lastEvent = this.signalEvents.find(e => e.signal.id === signalId);
-                if (lastEvent && (Date.now() - new Date(lastEvent.triggeredAt).getTime()) < 60 * 60 * 1000) {
-                    return;
-                }
+            if (!evaluation.met) return;
+
+            const affectedAssetData = data.prices.get(affected_asset.toUpperCase());
+            if (!affectedAssetData) return;
 
-                const newEvent: SignalEvent = {
-                    eventId: `${signalId}-${Date.now()}`,
-                    signal: signal,
-                    triggeredPrice: affectedAssetData.price,
-                    triggeredAt: new Date().toISOString(),
-                };
+            // Avoid re-triggering too frequently
+            const cooldownMs = (signal.cooldownMinutes ?? DEFAULT_SIGNAL_COOLDOWN_MINUTES) * 60 * 1000;
+            const lastEvent = this.signalEvents.find(e => e.signal.id === signalId);
+            if (lastEvent && (data.now - new Date(lastEvent.triggeredAt).getTime()) < cooldownMs) {
+                return;
+            }
 
-                this.addSignalEvent(newEvent);
-                console.log(`--- SIGNAL TRIGGERED ---: ${signal.title} (Condition: ${triggerCondition.metric} on ${triggerCondition.source === 'global' ? 'Global' : triggerCondition.source === 'affected_asset' ? affected_asset : trigger_asset} ${triggerCondition.operator === 'gt' ? '>' : '<'} ${triggerCondition.threshold}, Value: ${currentMetricValue?.toFixed(2)})`);
+            const firedBranches = getFiredBranches(evaluation);
+            const newEvent: SignalEvent = {
+                eventId: `${signalId}-${data.now}`,
+                signal: toSignalSnapshot(signal),
+                triggeredPrice: affectedAssetData.price,
+                triggeredAt: new Date(data.now).toISOString(),
+                firedBranches,
+                conditionVersion: signal.conditionVersion,
+            };
+            if (signal.hysteresis) this.updateSignal(signalId, s => ({ ...s, armed: false }));
+            if (signal.executionPolicy?.enabled) {
+                newEvent.execution = this.executeSignalEvent(newEvent, signal.executionPolicy, affectedAssetData);
             }
+
+            this.addSignalEvent(newEvent);
+            webhookService.dispatch('signal_triggered', { signalEvent: newEvent, signal });
+            console.log(`--- SIGNAL TRIGGERED ---: ${signal.title} (Fired: ${firedBranches.join('; ')})`);
+        });
+
+        await this.updateEventOutcomes();
+    }
+
+    // Fetches only what the activated signals read: funding rates, and candles for each asset over its longest lookback.
+    private async loadMarketData(prices: CryptoPrice[], sentiment: NewsSentiment | null, liquidity: GlobalLiquidity | null): Promise<TriggerMarketData> {
+        const conditions = this.activatedSignals.filter(signal => getSignalStatus(signal) === 'active').flatMap(signal =>
+            getTriggerConditions(signal.triggerCondition).map(condition => ({ signal, condition }))
+        );
+        const lookbacks = new Map<string, number>();
+        conditions.forEach(({ signal, condition }) => {
+            const asset = getConditionAsset(condition, signal);
+            const days = getCandleLookbackDays(condition);
+            if (asset && days > 0) lookbacks.set(asset, Math.max(days, lookbacks.get(asset) ?? 0));
         });
+
+        // A failed fetch leaves only the conditions that read it without data, like any other missing input.
+        const [fundingRates, candles] = await Promise.all([
+            conditions.some(({ condition }) => condition.metric === 'funding_rate')
+                ? fetchFundingRates().catch(error => {
+                    console.error("Failed to fetch funding rates for signal triggers:", error);
+                    return new Map<string, number>();
+                })
+                : Promise.resolve(new Map<string, number>()),
+            Promise.all([...lookbacks].map(async ([symbol, days]): Promise<[string, OhlcvData[]]> => {
+                try {
+                    return [symbol, await fetchRawOhlcvData(symbol, days)];
+                } catch (error) {
+                    console.error(`Failed to fetch ${symbol} candles for signal triggers:`, error);
+                    return [symbol, []];
+                }
+            })),
+        ]);
+        const candlesBySymbol = new Map<string, OhlcvData[]>(candles);
+        return {
+            now: Date.now(),
+            prices: new Map(prices.map(p => [p.symbol.toUpperCase(), p])),
+            sentiment,
+            liquidity,
+            fundingRates,
+            candles: symbol => candlesBySymbol.get(symbol.toUpperCase()) ?? [],
+        };
     }
 
     subscribe(callback: UpdateCallback) {
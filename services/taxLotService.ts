@@ -0,0 +1,266 @@
+import type { Trade } from './tradeSimulatorService';
+import { escapeCsvValue } from './tradeExportService';
+
+export type TaxLotMethod = 'fifo' | 'lifo' | 'hifo';
+export type HoldingTerm = 'short' | 'long';
+
+export const TAX_LOT_METHOD_LABELS: Record<TaxLotMethod, string> = {
+    fifo: 'FIFO (first in, first out)',
+    lifo: 'LIFO (last in, first out)',
+    hifo: 'HIFO (highest cost first)',
+};
+
+// Units of an asset bought at one time and price. Entry fees are part of the cost basis.
+export interface TaxLot {
+    id: string;
+    tradeId: string; // The trade whose entry (or add) bought the lot
+    asset: string; // Upper-case symbol
+    acquiredAt: number;
+    quantity: number; // Units still held
+    originalQuantity: number;
+    costBasis: number; // USD basis of the units still held
+}
+
+// One lot (or part of one) matched against a sale. Proceeds are net of exit fees.
+export interface RealizedGain {
+    asset: string;
+    lotId: string;
+    acquiredTradeId: string;
+    disposedTradeId: string;
+    acquiredAt: number;
+    disposedAt: number;
+    quantity: number;
+    proceeds: number;
+    costBasis: number;
+    gain: number;
+    term: HoldingTerm;
+    isShortSale: boolean; // Shorts are matched within their own trade and are always short term
+}
+
+export interface TaxLotReport {
+    method: TaxLotMethod;
+    realized: RealizedGain[]; // Oldest sale first
+    openLots: TaxLot[];
+}
+
+export interface YearlyGains {
+    year: number;
+    shortTermGain: number;
+    longTermGain: number;
+    netGain: number;
+    proceeds: number;
+    costBasis: number;
+    disposals: number;
+}
+
+interface LotEvent {
+    kind: 'acquire' | 'dispose';
+    tradeId: string;
+    asset: string;
+    timestamp: number;
+    quantity: number;
+    amount: number; // Cost with fees for acquisitions, proceeds net of fees for disposals
+}
+
+// Rounding dust left after matching is ignored rather than reported as unmatched units.
+const QUANTITY_EPSILON = 1e-9;
+
+// Held for more than one year, by calendar date.
+export const getHoldingTerm = (acquiredAt: number, disposedAt: number): HoldingTerm => {
+    const oneYearLater = new Date(acquiredAt);
+    oneYearLater.setFullYear(oneYearLater.getFullYear() + 1);
+    return disposedAt > oneYearLater.getTime() ? 'long' : 'short';
+};
+
+// The opening buy plus every add, rebuilt from the trade history since adds average the entry price.
+const getEntryFills = (trade: Trade): { timestamp: number; quantity: number; notional: number }[] => {
+    const adds = (trade.history ?? []).filter(h => h.action === 'position_added' && h.changes?.sizeUSD && h.changes?.entryPrice);
+    const units = (sizeUSD: number | null, entryPrice: number | null) => (sizeUSD ?? 0) / (entryPrice || 1);
+    const first = adds[0]?.changes;
+    const openingSize = first ? first.sizeUSD.from ?? trade.sizeUSD : trade.sizeUSD;
+    const openingPrice = first ? first.entryPrice.from ?? trade.entryPrice : trade.entryPrice;
+    return [
+        { timestamp: trade.openTimestamp, quantity: openingSize / openingPrice, notional: openingSize },
+        ...adds.map(({ timestamp, changes }) => ({
+            timestamp,
+            quantity: units(changes!.sizeUSD.to, changes!.entryPrice.to) - units(changes!.sizeUSD.from, changes!.entryPrice.from),
+            notional: (changes!.sizeUSD.to ?? 0) - (changes!.sizeUSD.from ?? 0),
+        })),
+    ];
+};
+
+// Partial fills and the final close, each with its share of the exit fees.
+const getExitFills = (trade: Trade): { timestamp: number; quantity: number; price: number; fee: number }[] => {
+    const totalUnits = trade.sizeUSD / trade.entryPrice;
+    const partials = trade.partialFills ?? [];
+    const fills = partials.map(fill => ({ timestamp: fill.timestamp, quantity: totalUnits * fill.fraction, price: fill.price, fee: fill.fee }));
+    const remaining = 1 - partials.reduce((acc, fill) => acc + fill.fraction, 0);
+    if (trade.status === 'closed' && trade.closePrice !== null && remaining > QUANTITY_EPSILON) {
+        const partialFees = partials.reduce((acc, fill) => acc + fill.fee, 0);
+        fills.push({
+            timestamp: trade.closeTimestamp ?? trade.openTimestamp,
+            quantity: totalUnits * remaining,
+            price: trade.closePrice,
+            fee: Math.max(0, (trade.exitFee ?? 0) - partialFees),
+        });
+    }
+    return fills;
+};
+
+const getLongEvents = (trade: Trade): LotEvent[] => {
+    const asset = trade.coin.symbol.toUpperCase();
+    const entries = getEntryFills(trade);
+    const totalNotional = entries.reduce((acc, fill) => acc + fill.notional, 0);
+    return [
+        ...entries.map(fill => ({
+            kind: 'acquire' as const,
+            tradeId: trade.id,
+            asset,
+            timestamp: fill.timestamp,
+            quantity: fill.quantity,
+            amount: fill.notional + (totalNotional > 0 ? (trade.entryFee ?? 0) * (fill.notional / totalNotional) : 0),
+        })),
+        ...getExitFills(trade).map(fill => ({
+            kind: 'dispose' as const,
+            tradeId: trade.id,
+            asset,
+            timestamp: fill.timestamp,
+            quantity: fill.quantity,
+            amount: fill.quantity * fill.price - fill.fee,
+        })),
+    ];
+};
+
+// A short sells borrowed units first, so each cover is matched against its own trade's sale.
+const getShortSaleGains = (trade: Trade): RealizedGain[] => {
+    const totalUnits = trade.sizeUSD / trade.entryPrice;
+    return getExitFills(trade).map(fill => {
+        const share = fill.quantity / totalUnits;
+        const proceeds = fill.quantity * trade.entryPrice - (trade.entryFee ?? 0) * share;
+        const costBasis = fill.quantity * fill.price + fill.fee;
+        return {
+            asset: trade.coin.symbol.toUpperCase(),
+            lotId: `${trade.id}-short`,
+            acquiredTradeId: trade.id,
+            disposedTradeId: trade.id,
+            acquiredAt: trade.openTimestamp,
+            disposedAt: fill.timestamp,
+            quantity: fill.quantity,
+            proceeds,
+            costBasis,
+            gain: proceeds - costBasis,
+            term: 'short',
+            isShortSale: true,
+        };
+    });
+};
+
+const pickLot = (lots: TaxLot[], method: TaxLotMethod): TaxLot => {
+    if (method === 'fifo') return lots[0];
+    if (method === 'lifo') return lots[lots.length - 1];
+    return lots.reduce((best, lot) => lot.costBasis / lot.quantity > best.costBasis / best.quantity ? lot : best);
+};
+
+/**
+ * Lot-level accounting across every trade in a portfolio. Long entries and adds become lots in a pool per asset,
+ * and every sale (scale-outs included) draws on that pool by the chosen method, whichever trade bought the units.
+ * Funding payments are not capital gains and are left out.
+ */
+export const computeTaxLots = (trades: Trade[], method: TaxLotMethod): TaxLotReport => {
+    const events = trades
+        .filter(t => t.direction === 'buy' && t.entryPrice > 0)
+        .flatMap(getLongEvents)
+        // Buys go first on the same timestamp so a sale can always draw on them.
+        .sort((a, b) => a.timestamp - b.timestamp || (a.kind === b.kind ? 0 : a.kind === 'acquire' ? -1 : 1));
+
+    const pools = new Map<string, TaxLot[]>();
+    const realized: RealizedGain[] = [];
+    events.forEach((event, index) => {
+        const pool = pools.get(event.asset) ?? [];
+        pools.set(event.asset, pool);
+        if (event.kind === 'acquire') {
+            pool.push({
+                id: `${event.tradeId}-lot-${index}`,
+                tradeId: event.tradeId,
+                asset: event.asset,
+                acquiredAt: event.timestamp,
+                quantity: event.quantity,
+                originalQuantity: event.quantity,
+                costBasis: event.amount,
+            });
+            return;
+        }
+
+        let remaining = event.quantity;
+        while (remaining > QUANTITY_EPSILON && pool.length > 0) {
+            const lot = pickLot(pool, method);
+            const quantity = Math.min(remaining, lot.quantity);
+            const costBasis = lot.costBasis * (quantity / lot.quantity);
+            const proceeds = event.amount * (quantity / event.quantity);
+            realized.push({
+                asset: event.asset,
+                lotId: lot.id,
+                acquiredTradeId: lot.tradeId,
+                disposedTradeId: event.tradeId,
+                acquiredAt: lot.acquiredAt,
+                disposedAt: event.timestamp,
+                quantity,
+                proceeds,
+                costBasis,
+                gain: proceeds - costBasis,
+                term: getHoldingTerm(lot.acquiredAt, event.timestamp),
+                isShortSale: false,
+            });
+            lot.quantity -= quantity;
+            lot.costBasis -= costBasis;
+            remaining -= quantity;
+            if (lot.quantity <= QUANTITY_EPSILON) pool.splice(pool.indexOf(lot), 1);
+        }
+        if (remaining > QUANTITY_EPSILON) {
+            console.warn(`Sale of ${remaining} ${event.asset} in trade ${event.tradeId} has no lots to match.`);
+        }
+    });
+
+    trades.filter(t => t.direction === 'sell' && t.entryPrice > 0).forEach(trade => realized.push(...getShortSaleGains(trade)));
+    realized.sort((a, b) => a.disposedAt - b.disposedAt);
+    return { method, realized, openLots: [...pools.values()].flat() };
+};
+
+// Calendar years in local time, newest first.
+export const summarizeGainsByYear = (realized: RealizedGain[]): YearlyGains[] => {
+    const years = new Map<number, YearlyGains>();
+    realized.forEach(gain => {
+        const year = new Date(gain.disposedAt).getFullYear();
+        const summary = years.get(year) ?? { year, shortTermGain: 0, longTermGain: 0, netGain: 0, proceeds: 0, costBasis: 0, disposals: 0 };
+        if (gain.term === 'long') summary.longTermGain += gain.gain;
+        else summary.shortTermGain += gain.gain;
+        summary.netGain += gain.gain;
+        summary.proceeds += gain.proceeds;
+        summary.costBasis += gain.costBasis;
+        summary.disposals++;
+        years.set(year, summary);
+    });
+    return [...years.values()].sort((a, b) => b.year - a.year);
+};
+
+const toDate = (timestamp: number) => new Date(timestamp).toISOString().slice(0, 10);
+const toUsd = (value: number) => value.toFixed(2);
+
+// One row per matched lot, in the shape of a capital gains schedule.
+export const exportRealizedGainsCsv = (realized: RealizedGain[], method: TaxLotMethod): string => {
+    const header = ['description', 'date_acquired', 'date_sold', 'proceeds', 'cost_basis', 'gain', 'term', 'short_sale', 'method', 'acquired_trade_id', 'disposed_trade_id'];
+    const rows = realized.map(gain => [
+        `${Number(gain.quantity.toFixed(8))} ${gain.asset}`,
+        toDate(gain.acquiredAt),
+        toDate(gain.disposedAt),
+        toUsd(gain.proceeds),
+        toUsd(gain.costBasis),
+        toUsd(gain.gain),
+        gain.term,
+        gain.isShortSale ? 'yes' : 'no',
+        method,
+        gain.acquiredTradeId,
+        gain.disposedTradeId,
+    ].map(escapeCsvValue).join(','));
+    return [header.join(','), ...rows].join('\r\n');
+};
@@ -0,0 +1,312 @@
+import type { Trade, CloseReason, RiskTolerance, InvestmentStyle } from './tradeSimulatorService';
+import type { SizingMode } from './positionSizingService';
+import type { FeeVenue } from './executionCostService';
+
+export type TradeExportFormat = 'csv' | 'json';
+
+export const TRADE_EXPORT_SCHEMA_VERSION = 1;
+
+// JSON exports are lossless: every stored field of every trade, wrapped with the schema version.
+export interface TradeExportEnvelope {
+    schemaVersion: number;
+    exportedAt: string; // ISO 8601
+    trades: Trade[];
+}
+
+export interface TradeCsvColumn {
+    name: string;
+    description: string;
+    get: (trade: Trade) => string | number | null | undefined;
+}
+
+export interface TradeImportError {
+    row: number; // 1-based; for CSV this is the data row after the header
+    id?: string;
+    message: string;
+}
+
+export interface TradeImportParseResult {
+    trades: Trade[];
+    errors: TradeImportError[];
+}
+
+const toIso = (timestamp: number | null | undefined) =>
+    timestamp === null || timestamp === undefined ? '' : new Date(timestamp).toISOString();
+
+/**
+ * The CSV column schema, in file order. CSV exports are flat: per-trade history, partial fills,
+ * exit rules, chart snapshots and the full sizing breakdown are only kept in JSON exports.
+ */
+export const TRADE_CSV_COLUMNS: TradeCsvColumn[] = [
+    { name: 'id', description: 'Unique trade ID', get: t => t.id },
+    { name: 'symbol', description: 'Asset ticker, e.g. BTC', get: t => t.coin.symbol },
+    { name: 'coin_id', description: 'Asset identifier used for price lookups', get: t => t.coin.id },
+    { name: 'coin_name', description: 'Asset display name', get: t => t.coin.name },
+    { name: 'direction', description: '"buy" (long) or "sell" (short)', get: t => t.direction },
+    { name: 'status', description: '"open" or "closed"', get: t => t.status },
+    { name: 'entry_price', description: 'Average entry price in USD', get: t => t.entryPrice },
+    { name: 'size_usd', description: 'Notional position size in USD at entry', get: t => t.sizeUSD },
+    { name: 'leverage', description: 'Leverage multiple; 1 = unlevered', get: t => t.leverage },
+    { name: 'margin_usd', description: 'Cash posted for the position (size_usd / leverage)', get: t => t.marginUSD },
+    { name: 'open_time', description: 'Entry time, ISO 8601 UTC', get: t => toIso(t.openTimestamp) },
+    { name: 'close_time', description: 'Final exit time, ISO 8601 UTC; empty while open', get: t => toIso(t.closeTimestamp) },
+    { name: 'close_price', description: 'Final exit price in USD; empty while open', get: t => t.closePrice },
+    { name: 'pnl', description: 'P/L in USD including funding, before fees', get: t => t.pnl },
+    { name: 'realized_pnl', description: 'P/L already booked by partial exits', get: t => t.realizedPnl },
+    { name: 'entry_fee', description: 'Fee charged at entry in USD', get: t => t.entryFee },
+    { name: 'exit_fee', description: 'Fees charged on all exits in USD', get: t => t.exitFee },
+    { name: 'funding_paid', description: 'Net funding paid in USD; negative when received', get: t => t.fundingPaid },
+    { name: 'fee_venue', description: 'Fee schedule used: "coinbase", "okx" or "flat"', get: t => t.feeVenue },
+    { name: 'fee_tier', description: 'Venue fee tier at entry', get: t => t.feeTier },
+    { name: 'entry_slippage', description: 'Slippage cost of entries in USD, already in pnl', get: t => t.entrySlippage },
+    { name: 'exit_slippage', description: 'Slippage cost of exits in USD, already in pnl', get: t => t.exitSlippage },
+    { name: 'close_reason', description: 'Why the trade closed, e.g. "Take Profit"', get: t => t.closeReason },
+    { name: 'take_profit', description: 'Take-profit price at entry', get: t => t.takeProfitPrice },
+    { name: 'stop_loss', description: 'Stop-loss price at entry', get: t => t.stopLossPrice },
+    { name: 'liquidation_price', description: 'Liquidation price for margin positions', get: t => t.liquidationPrice },
+    { name: 'risk_tolerance', description: 'Risk tolerance the trade was opened under', get: t => t.riskTolerance },
+    { name: 'investment_style', description: 'Investment style the trade was opened under', get: t => t.investmentStyle },
+    { name: 'max_duration_hours', description: 'Time limit in hours frozen at entry', get: t => t.maxDurationHours },
+    { name: 'signal_id', description: 'Signal or strategy that opened the trade', get: t => t.signalId },
+    { name: 'signal_event_id', description: 'Signal event that auto-opened the trade', get: t => t.signalEventId },
+    { name: 'pipeline_row', description: 'Pipeline sheet row that auto-executed the trade', get: t => t.pipelineRow?.rowNumber },
+    { name: 'pipeline_decision', description: 'Decision on that pipeline row, "BUY" or "SELL"', get: t => t.pipelineRow?.decision },
+    { name: 'pipeline_score', description: 'Score on that pipeline row, 0-1', get: t => t.pipelineRow?.score },
+    { name: 'pipeline_signal_time', description: 'Signal timestamp on that pipeline row, as written', get: t => t.pipelineRow?.timestamp },
+    { name: 'sizing_mode', description: 'Position sizing mode used at entry', get: t => t.sizing?.mode },
+    { name: 'tags', description: 'Journal tags separated by semicolons', get: t => t.tags?.join(';') },
+    { name: 'notes', description: 'Journal notes and entry rationale', get: t => t.notes },
+    { name: 'review', description: 'Post-trade review', get: t => t.review },
+];
+
+export const escapeCsvValue = (value: string | number | null | undefined): string => {
+    if (value === null || value === undefined) return '';
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const exportTradesToCsv = (trades: Trade[]): string => {
+    const header = TRADE_CSV_COLUMNS.map(c => c.name).join(',');
+    const rows = trades.map(trade => TRADE_CSV_COLUMNS.map(c => escapeCsvValue(c.get(trade))).join(','));
+    return [header, ...rows].join('\r\n');
+};
+
+export const exportTradesToJson = (trades: Trade[]): string => {
+    const envelope: TradeExportEnvelope = {
+        schemaVersion: TRADE_EXPORT_SCHEMA_VERSION,
+        exportedAt: new Date().toISOString(),
+        trades,
+    };
+    return JSON.stringify(envelope, null, 2);
+};
+
+// RFC 4180 parsing: quoted fields may contain commas, doubled quotes and line breaks.
+const parseCsv = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows.filter(r => r.some(value => value.trim() !== ''));
+};
+
+const optionalNumber = (value: string | undefined): number | undefined => {
+    if (value === undefined || value.trim() === '') return undefined;
+    const parsed = Number(value);
+    return isFinite(parsed) ? parsed : NaN;
+};
+
+const optionalString = (value: string | undefined): string | undefined =>
+    value === undefined || value.trim() === '' ? undefined : value.trim();
+
+const optionalTimestamp = (value: string | undefined): number | null => {
+    if (value === undefined || value.trim() === '') return null;
+    return new Date(value.trim()).getTime();
+};
+
+const csvRowToTrade = (values: Record<string, string>): Trade => {
+    const entryPrice = optionalNumber(values.entry_price) ?? NaN;
+    const closePrice = optionalNumber(values.close_price) ?? null;
+    const trade: Trade = {
+        id: values.id?.trim() ?? '',
+        coin: {
+            id: optionalString(values.coin_id) ?? (values.symbol ?? '').trim().toLowerCase(),
+            symbol: (values.symbol ?? '').trim().toUpperCase(),
+            name: optionalString(values.coin_name) ?? (values.symbol ?? '').trim().toUpperCase(),
+            price: closePrice ?? entryPrice,
+            change24h: 0,
+        },
+        direction: values.direction?.trim() as Trade['direction'],
+        entryPrice,
+        sizeUSD: optionalNumber(values.size_usd) ?? NaN,
+        openTimestamp: optionalTimestamp(values.open_time) ?? NaN,
+        closeTimestamp: optionalTimestamp(values.close_time),
+        closePrice,
+        pnl: optionalNumber(values.pnl) ?? null,
+        status: values.status?.trim() as Trade['status'],
+        closeReason: optionalString(values.close_reason) as CloseReason | undefined,
+        takeProfitPrice: optionalNumber(values.take_profit),
+        stopLossPrice: optionalNumber(values.stop_loss),
+        entryFee: optionalNumber(values.entry_fee),
+        exitFee: optionalNumber(values.exit_fee),
+        realizedPnl: optionalNumber(values.realized_pnl),
+        maxDurationHours: optionalNumber(values.max_duration_hours),
+        riskTolerance: optionalString(values.risk_tolerance) as RiskTolerance | undefined,
+        investmentStyle: optionalString(values.investment_style) as InvestmentStyle | undefined,
+        signalId: optionalString(values.signal_id),
+        signalEventId: optionalString(values.signal_event_id),
+        leverage: optionalNumber(values.leverage),
+        marginUSD: optionalNumber(values.margin_usd),
+        liquidationPrice: optionalNumber(values.liquidation_price),
+        fundingPaid: optionalNumber(values.funding_paid),
+        feeVenue: optionalString(values.fee_venue) as FeeVenue | undefined,
+        feeTier: optionalString(values.fee_tier),
+        entrySlippage: optionalNumber(values.entry_slippage),
+        exitSlippage: optionalNumber(values.exit_slippage),
+        notes: optionalString(values.notes),
+        review: optionalString(values.review),
+    };
+    const tags = (values.tags ?? '').split(';').map(tag => tag.trim()).filter(Boolean);
+    if (tags.length > 0) trade.tags = tags;
+    const pipelineRowNumber = optionalNumber(values.pipeline_row);
+    const pipelineDecision = optionalString(values.pipeline_decision)?.toUpperCase();
+    if (pipelineRowNumber !== undefined && (pipelineDecision === 'BUY' || pipelineDecision === 'SELL')) {
+        trade.pipelineRow = {
+            rowNumber: pipelineRowNumber,
+            asset: trade.coin.symbol,
+            decision: pipelineDecision,
+            score: optionalNumber(values.pipeline_score) ?? 0,
+            timestamp: optionalString(values.pipeline_signal_time) ?? '',
+        };
+    }
+    const sizingMode = optionalString(values.sizing_mode) as SizingMode | undefined;
+    if (sizingMode) {
+        trade.sizing = { mode: sizingMode, sizeUSD: trade.sizeUSD, equity: 0, inputs: {}, explanation: 'Imported from CSV', capped: false };
+    }
+    // Drop unset optional fields so imported trades look like ones the simulator created.
+    (Object.keys(trade) as (keyof Trade)[]).forEach(key => {
+        if (trade[key] === undefined) delete trade[key];
+    });
+    return trade;
+};
+
+const NUMERIC_OPTIONAL_FIELDS: (keyof Trade)[] = [
+    'takeProfitPrice', 'stopLossPrice', 'entryFee', 'exitFee', 'realizedPnl', 'maxDurationHours',
+    'leverage', 'marginUSD', 'liquidationPrice', 'fundingPaid', 'entrySlippage', 'exitSlippage',
+];
+
+/**
+ * Returns the reasons a trade can't be imported; an empty list means it is valid.
+ */
+export const validateTrade = (trade: Partial<Trade>): string[] => {
+    const problems: string[] = [];
+    const isPositive = (value: unknown) => typeof value === 'number' && isFinite(value) && value > 0;
+    if (typeof trade.id !== 'string' || trade.id.trim() === '') problems.push('Missing trade ID.');
+    if (!trade.coin || typeof trade.coin.symbol !== 'string' || trade.coin.symbol === '') problems.push('Missing asset symbol.');
+    if (trade.direction !== 'buy' && trade.direction !== 'sell') problems.push(`Direction must be "buy" or "sell" (got "${trade.direction ?? ''}").`);
+    if (trade.status !== 'open' && trade.status !== 'closed') problems.push(`Status must be "open" or "closed" (got "${trade.status ?? ''}").`);
+    if (!isPositive(trade.entryPrice)) problems.push('Entry price must be a positive number.');
+    if (!isPositive(trade.sizeUSD)) problems.push('Size must be a positive number.');
+    if (typeof trade.openTimestamp !== 'number' || !isFinite(trade.openTimestamp)) problems.push('Open time is missing or not a valid date.');
+    if (trade.leverage !== undefined && !(trade.leverage >= 1)) problems.push('Leverage must be at least 1.');
+    NUMERIC_OPTIONAL_FIELDS.forEach(field => {
+        const value = trade[field];
+        if (value !== undefined && (typeof value !== 'number' || !isFinite(value))) problems.push(`${field} is not a valid number.`);
+    });
+    if (trade.status === 'closed') {
+        if (typeof trade.closeTimestamp !== 'number' || !isFinite(trade.closeTimestamp)) problems.push('Closed trades need a valid close time.');
+        else if (typeof trade.openTimestamp === 'number' && trade.closeTimestamp < trade.openTimestamp) problems.push('Close time is before open time.');
+        if (!isPositive(trade.closePrice)) problems.push('Closed trades need a positive close price.');
+        if (typeof trade.pnl !== 'number' || !isFinite(trade.pnl)) problems.push('Closed trades need a P/L value.');
+    }
+    return problems;
+};
+
+const collectValid = (candidates: Partial<Trade>[]): TradeImportParseResult => {
+    const trades: Trade[] = [];
+    const errors: TradeImportError[] = [];
+    candidates.forEach((candidate, index) => {
+        const problems = validateTrade(candidate);
+        if (problems.length > 0) {
+            errors.push({ row: index + 1, id: typeof candidate?.id === 'string' ? candidate.id : undefined, message: problems.join(' ') });
+        } else {
+            trades.push(candidate as Trade);
+        }
+    });
+    return { trades, errors };
+};
+
+export const parseTradesJson = (text: string): TradeImportParseResult => {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch (error) {
+        return { trades: [], errors: [{ row: 0, message: `File is not valid JSON: ${(error as Error).message}` }] };
+    }
+    // Accept the export envelope or a bare array, such as the raw localStorage value.
+    const envelope = data as Partial<TradeExportEnvelope>;
+    const trades = Array.isArray(data) ? data : envelope?.trades;
+    if (!Array.isArray(trades)) {
+        return { trades: [], errors: [{ row: 0, message: 'Expected an array of trades or an export file with a "trades" array.' }] };
+    }
+    if (envelope?.schemaVersion !== undefined && envelope.schemaVersion > TRADE_EXPORT_SCHEMA_VERSION) {
+        return { trades: [], errors: [{ row: 0, message: `Export schema version ${envelope.schemaVersion} is newer than this app supports (${TRADE_EXPORT_SCHEMA_VERSION}).` }] };
+    }
+    return collectValid(trades.map(t => (t && typeof t === 'object' ? t : {}) as Partial<Trade>));
+};
+
+export const parseTradesCsv = (text: string): TradeImportParseResult => {
+    const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ''));
+    if (!header) return { trades: [], errors: [{ row: 0, message: 'File is empty.' }] };
+    const columns = header.map(name => name.trim().toLowerCase());
+    const required = ['id', 'symbol', 'direction', 'status', 'entry_price', 'size_usd', 'open_time'];
+    const missing = required.filter(name => !columns.includes(name));
+    if (missing.length > 0) {
+        return { trades: [], errors: [{ row: 0, message: `Missing required columns: ${missing.join(', ')}.` }] };
+    }
+    return collectValid(rows.map(row => {
+        const values: Record<string, string> = {};
+        columns.forEach((name, i) => { values[name] = row[i] ?? ''; });
+        return csvRowToTrade(values);
+    }));
+};
+
+/**
+ * Parses an exported file, picking the format from the file name and falling back to sniffing the content.
+ */
+export const parseTradeImport = (text: string, fileName = ''): TradeImportParseResult => {
+    const lowerName = fileName.toLowerCase();
+    if (lowerName.endsWith('.json')) return parseTradesJson(text);
+    if (lowerName.endsWith('.csv')) return parseTradesCsv(text);
+    const trimmed = text.trimStart();
+    return trimmed.startsWith('{') || trimmed.startsWith('[') ? parseTradesJson(text) : parseTradesCsv(text);
+};
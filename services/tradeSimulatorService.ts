@@ -1,4 +1,12 @@
+import { Observable, Subject, filter } from 'rxjs';
 import type { CryptoPrice } from './cryptoService';
+import { fetchFundingRates } from './cryptoService';
+import type { Idea } from '../types';
+import { volatilityService } from './volatilityService';
+import { webhookService, isValidWebhookUrl } from './webhookService';
+import { quoteFee, estimateSlippage, applySlippage, FeeVenue, Liquidity } from './executionCostService';
+import type { TaxLotMethod } from './taxLotService';
+import { calculatePositionSize, summarizeOutcomes, SizingBreakdown, SizingMode, VolatilityMeasure, TradeOutcomeStats, MIN_KELLY_SAMPLE_SIZE } from './positionSizingService';
 
 export interface Trade {
   id: string;
@@ -11,9 +19,275 @@ export interface Trade {
   closePrice: number | null;
   pnl: number | null; // Profit and Loss in USD
   status: 'open' | 'closed';
-  closeReason?: 'Take Profit' | 'Stop Loss' | 'Time Limit';
+  closeReason?: CloseReason;
   takeProfitPrice?: number;
   stopLossPrice?: number;
+  entryFee?: number; // Fee charged when the position was opened
+  exitFee?: number; // Fees charged on all exits, partial fills included
+  feeVenue?: FeeVenue;
+  feeTier?: string; // Venue tier at entry
+  entryLiquidity?: Liquidity;
+  // Slippage is already in the fill prices (and so in pnl); these record what it cost, in USD.
+  entrySlippage?: number;
+  exitSlippage?: number; // Partial fills included
+  exitRules?: ExitRules; // Captured from settings (or an idea) at entry
+  partialFills?: PartialFill[];
+  realizedPnl?: number; // P/L already booked by partial fills
+  bestPrice?: number; // Most favourable price seen while open, used by trailing stops
+  trailingStopPrice?: number;
+  breakevenActive?: boolean; // Stop has been moved to the entry price after target 1
+  // Frozen at entry so later settings changes don't move the exits of open positions.
+  maxDurationHours?: number;
+  riskTolerance?: RiskTolerance;
+  investmentStyle?: InvestmentStyle;
+  lastPrice?: number; // Most recent live price seen while open
+  history?: TradeHistoryEntry[];
+  sizing?: SizingBreakdown; // How sizeUSD was derived at entry
+  signalId?: string; // The signal or strategy that opened the trade, used for Kelly sizing
+  leverage?: number; // 1 = unlevered; sizeUSD is always the notional exposure
+  marginUSD?: number; // Cash posted for the position, sizeUSD / leverage
+  maintenanceMarginPercent?: number;
+  liquidationPrice?: number; // Only set on margin positions: shorts, or longs above 1x
+  fundingPaid?: number; // Net funding accrued while open; negative when the position was paid funding
+  lastFundingAt?: number;
+  // Journal: why the trade was taken and what was learned from it.
+  notes?: string;
+  tags?: string[];
+  chartSnapshot?: string; // Image data URL
+  review?: string; // Post-trade review, written once the trade has closed
+  reviewedAt?: number;
+  pipelineRow?: PipelineRowRef; // Set when the pipeline auto-executed the trade
+  signalEventId?: string; // Set when a signal's execution policy opened the trade on that event
+}
+
+export interface TradeEntryOptions {
+  signalId?: string;
+  exitPlan?: ExitPlan;
+  leverage?: number; // Defaults to the wallet's default leverage
+  sizeUSD?: number; // Fixed notional, e.g. from a broker order; skips the sizing rules but not the risk limits
+  notes?: string; // Rationale recorded in the trade journal
+  tags?: string[];
+  pipelineRow?: PipelineRowRef;
+  signalEventId?: string;
+}
+
+// The pipeline sheet row an auto-executed trade came from.
+export interface PipelineRowRef {
+  rowNumber: number; // 1-based position in the pipeline sheet's data rows
+  asset: string;
+  decision: 'BUY' | 'SELL';
+  score: number; // 0-1, as written by the pipeline
+  timestamp: string; // The row's signal timestamp, as written
+}
+
+// What a SELL decision from the pipeline does; BUY decisions always open longs.
+export type PipelineSellPolicy = 'ignore' | 'close_long' | 'close_and_short';
+
+export interface TradeJournalUpdate {
+  notes?: string;
+  tags?: string[];
+  chartSnapshot?: string | null; // null removes the snapshot
+  review?: string;
+}
+
+export type CloseReason = 'Take Profit' | 'Stop Loss' | 'Time Limit' | 'Trailing Stop' | 'Breakeven Stop' | 'Scale Out' | 'Manual Close' | 'Signal Exit' | 'Liquidation';
+
+export type TradeHistoryAction = 'opened' | 'exits_edited' | 'position_added' | 'partial_fill' | 'closed';
+
+export interface TradeHistoryEntry {
+  timestamp: number;
+  action: TradeHistoryAction;
+  description: string;
+  changes?: Record<string, { from: number | null; to: number | null }>;
+}
+
+export type TrailingStopMode = 'off' | 'percent' | 'atr';
+
+export interface TakeProfitLevel {
+  label: string; // e.g. 'Target 1'
+  price: number;
+  fraction: number; // Share of the original position closed at this level (0-1)
+  filled: boolean;
+}
+
+export interface ExitRules {
+  trailingStopMode: TrailingStopMode;
+  trailingStopValue: number; // Percent distance, or ATR multiple
+  atr?: number; // ATR at entry, resolved asynchronously for 'atr' mode
+  breakevenAfterT1: boolean;
+  ladder: TakeProfitLevel[]; // Empty means close in full at the take-profit price
+}
+
+export interface PartialFill {
+  label: string;
+  timestamp: number;
+  price: number;
+  fraction: number; // Share of the original position closed
+  sizeUSD: number;
+  pnl: number;
+  fee: number;
+}
+
+export interface ExitPlan {
+  stopLoss?: number;
+  target1?: number;
+  target2?: number; // Also used as the take-profit price
+}
+
+export type OrderType = 'limit' | 'stop';
+export type TimeInForce = 'GTC' | 'GTD'; // Good-till-cancelled | good-till-date
+export type OrderStatus = 'pending' | 'filled' | 'cancelled' | 'expired' | 'rejected';
+
+// A queued entry that opens a trade once the live price crosses its trigger.
+// Limit orders fill at the trigger or better; stop-entry orders fill at the first price past the trigger.
+export interface PendingOrder {
+  id: string;
+  coin: CryptoPrice;
+  direction: 'buy' | 'sell';
+  type: OrderType;
+  triggerPrice: number;
+  timeInForce: TimeInForce;
+  expiresAt: number | null; // Only set for GTD orders
+  createdAt: number;
+  status: OrderStatus;
+  updatedAt?: number;
+  filledTradeId?: string;
+  statusReason?: string;
+  exitPlan?: ExitPlan; // Targets carried onto the trade when the order fills
+  signalId?: string;
+  leverage?: number;
+  sizeUSD?: number;
+  notes?: string;
+  tags?: string[];
+}
+
+export interface PlaceOrderOptions extends TradeEntryOptions {
+  timeInForce?: TimeInForce;
+  expiresAt?: number | null;
+}
+
+export type LedgerEntryType = 'deposit' | 'margin_reserve' | 'margin_release' | 'realized_pnl' | 'fee' | 'funding';
+
+// Every movement of simulated cash. Amounts are signed against available cash:
+// deposits and released margin add to it, reserved margin and fees take from it.
+export interface LedgerEntry {
+  id: string;
+  timestamp: number;
+  type: LedgerEntryType;
+  amount: number;
+  tradeId?: string;
+  description: string;
+}
+
+export interface AccountSummary {
+  totalDeposits: number;
+  availableCash: number; // Buying power for new trades
+  reservedMargin: number; // Cash locked up in open positions
+  realizedPnl: number;
+  feesPaid: number;
+  fundingPaid: number; // Net funding settled on closed margin positions
+  slippagePaid: number; // Already inside realized and unrealized P/L; shown separately
+  unrealizedPnl: number; // Includes funding accrued on open positions
+  equity: number; // Available cash + reserved margin + unrealized P/L
+}
+
+export type RiskRule =
+  | 'max_open_positions'
+  | 'max_asset_exposure'
+  | 'max_gross_exposure'
+  | 'daily_loss_limit'
+  | 'weekly_loss_limit'
+  | 'insufficient_cash'
+  | 'no_position_size';
+
+// An entry the simulator refused to open, and the rule that blocked it.
+export interface RejectedOrder {
+  id: string;
+  timestamp: number;
+  coinId: string;
+  symbol: string;
+  direction: 'buy' | 'sell';
+  sizeUSD: number; // Notional that was requested
+  rule: RiskRule;
+  reason: string;
+  signalId?: string;
+  orderId?: string; // Set when a queued order was rejected at fill time
+  tradeId?: string; // Set when adding to an existing position was rejected
+}
+
+// Set when a loss limit trips the circuit breaker; new entries stay blocked until it is reset.
+export interface TradingHalt {
+  rule: 'daily_loss_limit' | 'weekly_loss_limit';
+  reason: string;
+  haltedAt: number;
+}
+
+export interface RiskStatus {
+  halt: TradingHalt | null;
+  openPositions: number;
+  grossExposure: number; // Notional of all open positions
+  dailyPnl: number; // Realized P/L, fees and funding since midnight (or the last breaker reset)
+  weeklyPnl: number; // Same, since Monday
+}
+
+interface RiskState {
+  halt: TradingHalt | null;
+  breakerResetAt?: number; // Losses booked before a reset don't count towards the limits again
+}
+
+export type DuplicateTradeMode = 'skip' | 'overwrite' | 'keep_both';
+
+export interface TradeImportSummary {
+  added: number;
+  replaced: number;
+  skipped: number;
+}
+
+type EntryResult = { trade: Trade; rejection?: never } | { trade?: never; rejection: RejectedOrder };
+
+export interface EquityPoint {
+  timestamp: number;
+  equity: number;
+}
+
+// A named paper account. Each has its own settings, trades, ledger, orders and risk state.
+export interface Portfolio {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+// What changed on an open (or, for journal edits, closed) trade.
+export type TradeUpdateKind = 'price' | 'exits_edited' | 'position_added' | 'partial_fill' | 'journal';
+
+export type TradeEventPayload =
+  | { type: 'orderPlaced'; order: PendingOrder }
+  | { type: 'tradeOpened'; trade: Trade; orderId?: string } // orderId is set when a pending order filled
+  | { type: 'tradeUpdated'; trade: Trade; change: TradeUpdateKind; description?: string }
+  | { type: 'tradeClosed'; trade: Trade; reason: CloseReason }
+  | { type: 'settingsChanged'; settings: WalletSettings; changes: Partial<WalletSettings> };
+
+// Every event names the portfolio it happened in and the simulator time it happened at.
+export type TradeEvent = TradeEventPayload & { portfolio: Portfolio; timestamp: number };
+export type TradeEventType = TradeEvent['type'];
+
+export interface PortfolioSummary {
+  portfolio: Portfolio;
+  settings: WalletSettings;
+  account: AccountSummary;
+  equityCurve: EquityPoint[];
+  openPositions: number;
+  closedTrades: number;
+  winRate: number; // 0-100, over closed trades
+}
+
+interface PortfolioBook {
+  trades: Trade[];
+  settings: WalletSettings;
+  ledger: LedgerEntry[];
+  orders: PendingOrder[];
+  riskState: RiskState;
+  rejections: RejectedOrder[];
 }
 
 export type RiskTolerance = 'Conservative' | 'Moderate' | 'Aggressive';
@@ -23,19 +297,85 @@ export interface WalletSettings {
   riskTolerance: RiskTolerance;
   investmentStyle: InvestmentStyle;
   aiConfidence: number;
-  webhookUrl: string;
-  webhookEnabled: boolean;
+  pipelineSellPolicy: PipelineSellPolicy;
+  pipelineCooldownMinutes: number; // Minimum time between pipeline executions on the same asset; 0 disables
+  taxLotMethod: TaxLotMethod; // How sales are matched to lots in the realized gains report
+  startingCapital: number; // Cash deposited when the wallet is created or reset
+  feeRatePercent: number; // Flat fee charged on the notional of every entry and exit, with the 'flat' venue
+  feeVenue: FeeVenue;
+  slippageEnabled: boolean; // Market fills slip by a spread and impact estimate from 24h volume
+  trailingStopMode: TrailingStopMode;
+  trailingStopValue: number; // Percent distance, or ATR multiple in 'atr' mode
+  breakevenAfterT1: boolean;
+  scaleOutEnabled: boolean;
+  scaleOutPercent: number; // Percent of the position closed at target 1; the rest closes at target 2
+  sizingMode: SizingMode;
+  riskPerTradePercent: number;
+  targetVolatilityPercent: number;
+  volatilityMeasure: VolatilityMeasure;
+  kellyFraction: number;
+  maxPositionPercent: number;
+  defaultLeverage: number;
+  maxLeverage: number;
+  maintenanceMarginPercent: number; // Margin that must remain, as a percent of notional, before liquidation
+  // Portfolio limits; 0 disables a limit. Exposure limits are notional as a percent of equity.
+  maxOpenPositions: number;
+  maxAssetExposurePercent: number;
+  maxGrossExposurePercent: number;
+  dailyLossLimitPercent: number;
+  weeklyLossLimitPercent: number;
 }
 
 const DEFAULT_SETTINGS: WalletSettings = {
   riskTolerance: 'Moderate',
   investmentStyle: 'Day Trading',
   aiConfidence: 75.0,
-  webhookUrl: '',
-  webhookEnabled: false,
+  pipelineSellPolicy: 'ignore',
+  pipelineCooldownMinutes: 60,
+  taxLotMethod: 'fifo',
+  startingCapital: 10000,
+  feeRatePercent: 0.1,
+  feeVenue: 'flat',
+  slippageEnabled: true,
+  trailingStopMode: 'off',
+  trailingStopValue: 2,
+  breakevenAfterT1: false,
+  scaleOutEnabled: false,
+  scaleOutPercent: 50,
+  sizingMode: 'fixed',
+  riskPerTradePercent: 1,
+  targetVolatilityPercent: 0.5,
+  volatilityMeasure: 'atr',
+  kellyFraction: 0.25,
+  maxPositionPercent: 25,
+  defaultLeverage: 1,
+  maxLeverage: 10,
+  maintenanceMarginPercent: 0.5,
+  maxOpenPositions: 10,
+  maxAssetExposurePercent: 50,
+  maxGrossExposurePercent: 200,
+  dailyLossLimitPercent: 5,
+  weeklyLossLimitPercent: 10,
 };
 
-const BASE_TRADE_SIZE_USD = 1000;
+const TRADES_STORAGE_KEY = 'jaxspot_trades';
+const SETTINGS_STORAGE_KEY = 'jaxspot_wallet_settings';
+const LEDGER_STORAGE_KEY = 'jaxspot_wallet_ledger';
+const ORDERS_STORAGE_KEY = 'jaxspot_pending_orders';
+const RISK_STORAGE_KEY = 'jaxspot_risk_state';
+const REJECTIONS_STORAGE_KEY = 'jaxspot_rejected_orders';
+const PORTFOLIOS_STORAGE_KEY = 'jaxspot_portfolios';
+// The first portfolio keeps the original storage keys so existing wallets load unchanged.
+const MAIN_PORTFOLIO_ID = 'main';
+const PORTFOLIO_SCOPED_KEYS = [TRADES_STORAGE_KEY, SETTINGS_STORAGE_KEY, LEDGER_STORAGE_KEY, ORDERS_STORAGE_KEY, RISK_STORAGE_KEY, REJECTIONS_STORAGE_KEY];
+const MAX_REJECTIONS_STORED = 200;
+
+// CoinGlass funding rates are quoted per 8-hour interval.
+const FUNDING_INTERVAL_HOURS = 8;
+const FUNDING_REFRESH_MS = 30 * 60 * 1000;
+
+// Venue fee tiers are based on the trailing 30 days of traded notional.
+const FEE_TIER_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
 
 // Define max trade durations based on style for cleaner logic
 const MAX_TRADE_DURATION_HOURS: Record<InvestmentStyle, number> = {
@@ -44,14 +384,226 @@ const MAX_TRADE_DURATION_HOURS: Record<InvestmentStyle, number> = {
   'Swing Trading': 72, // 3 days max
 };
 
-class TradeSimulatorService {
-  private trades: Trade[] = [];
-  private settings: WalletSettings = { ...DEFAULT_SETTINGS };
+// Lets the replay engine run an isolated simulator on its own clock, without touching the live wallet.
+export interface SimulatorOptions {
+  clock?: () => number; // Milliseconds since epoch, defaults to Date.now
+  storage?: SimulatorStorage; // Defaults to localStorage
+  emitWebhooks?: boolean; // Defaults to true
+}
+
+export type SimulatorStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+// Which extreme of an OHLC bar is assumed to have traded first. Only matters when a bar spans
+// both a stop and a target; the path within the bar is unknown.
+export type AmbiguousBarRule =
+  | 'stop_first' // Pessimistic: the extreme against the oldest open position on the asset comes first
+  | 'target_first' // Optimistic: the extreme in its favour comes first
+  | 'nearest_first'; // The extreme closer to the open comes first
+
+export interface ReplayBar {
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+// Net of entry and exit fees. Funding is already included in the trade's P/L.
+export const getNetPnl = (trade: Trade): number => (trade.pnl ?? 0) - (trade.entryFee ?? 0) - (trade.exitFee ?? 0);
+
+export class TradeSimulatorService {
+  private clock: () => number;
+  private storage: SimulatorStorage;
+  private emitWebhooks: boolean;
+  private portfolios: Portfolio[] = [];
+  private activePortfolioId = MAIN_PORTFOLIO_ID;
+  // Portfolio the methods below read and write. It is the active portfolio except inside withPortfolio().
+  private currentPortfolioId = MAIN_PORTFOLIO_ID;
+  private books = new Map<string, PortfolioBook>();
   private listeners: (() => void)[] = [];
+  private events = new Subject<TradeEvent>();
+  private fundingRates = new Map<string, number>();
+  private fundingRatesFetchedAt = 0;
+  private fundingRequest: Promise<void> | null = null;
+  private volumes = new Map<string, number>(); // 24h USD volume per coin ID, from the live feed
+  private idSequence = 0;
 
-  constructor() {
-    this.loadTrades();
+  constructor(options: SimulatorOptions = {}) {
+    this.clock = options.clock ?? Date.now;
+    this.storage = options.storage ?? localStorage;
+    this.emitWebhooks = options.emitWebhooks ?? true;
+    this.loadPortfolios();
+    this.portfolios.forEach(portfolio => this.withPortfolio(portfolio.id, () => this.loadBook()));
+    if (this.emitWebhooks) {
+      this.onTradeEvent('tradeOpened').subscribe(({ trade, portfolio }) => webhookService.dispatch('trade_open', { trade: toWebhookTrade(trade), portfolio }));
+      this.onTradeEvent('tradeClosed').subscribe(({ trade, portfolio }) => webhookService.dispatch('trade_close', { trade: toWebhookTrade(trade), portfolio }));
+    }
+  }
+
+  // Tells apart IDs minted at the same clock time; the replay clock stands still for a whole bar.
+  private nextIdSuffix(): string {
+    return (++this.idSequence).toString(36);
+  }
+
+  private get book(): PortfolioBook {
+    return this.books.get(this.currentPortfolioId)!;
+  }
+
+  private get trades(): Trade[] { return this.book.trades; }
+  private set trades(trades: Trade[]) { this.book.trades = trades; }
+  private get settings(): WalletSettings { return this.book.settings; }
+  private set settings(settings: WalletSettings) { this.book.settings = settings; }
+  private get ledger(): LedgerEntry[] { return this.book.ledger; }
+  private set ledger(ledger: LedgerEntry[]) { this.book.ledger = ledger; }
+  private get orders(): PendingOrder[] { return this.book.orders; }
+  private set orders(orders: PendingOrder[]) { this.book.orders = orders; }
+  private get riskState(): RiskState { return this.book.riskState; }
+  private set riskState(riskState: RiskState) { this.book.riskState = riskState; }
+  private get rejections(): RejectedOrder[] { return this.book.rejections; }
+  private set rejections(rejections: RejectedOrder[]) { this.book.rejections = rejections; }
+
+  private loadBook() {
+    this.books.set(this.currentPortfolioId, {
+      trades: [],
+      settings: { ...DEFAULT_SETTINGS },
+      ledger: [],
+      orders: [],
+      riskState: { halt: null },
+      rejections: [],
+    });
     this.loadSettings();
+    this.loadTrades();
+    this.loadLedger();
+    this.loadOrders();
+    this.loadRiskState();
+    this.loadRejections();
+  }
+
+  private storageKey(baseKey: string, portfolioId = this.currentPortfolioId): string {
+    return portfolioId === MAIN_PORTFOLIO_ID ? baseKey : `${baseKey}__${portfolioId}`;
+  }
+
+  private loadPortfolios() {
+    try {
+      const stored = this.storage.getItem(PORTFOLIOS_STORAGE_KEY);
+      if (stored) {
+        const { portfolios, activeId } = JSON.parse(stored);
+        this.portfolios = portfolios;
+        this.activePortfolioId = activeId;
+      }
+    } catch (error) {
+      console.error("Failed to load portfolios from localStorage:", error);
+    }
+    if (this.portfolios.length === 0) {
+      this.portfolios = [{ id: MAIN_PORTFOLIO_ID, name: 'Main', createdAt: Date.now() }];
+    }
+    if (!this.portfolios.some(p => p.id === this.activePortfolioId)) {
+      this.activePortfolioId = this.portfolios[0].id;
+    }
+    this.currentPortfolioId = this.activePortfolioId;
+  }
+
+  private savePortfolios() {
+    try {
+      this.storage.setItem(PORTFOLIOS_STORAGE_KEY, JSON.stringify({ portfolios: this.portfolios, activeId: this.activePortfolioId }));
+    } catch (error) {
+      console.error("Failed to save portfolios to localStorage:", error);
+    }
+  }
+
+  /**
+   * Runs `fn` against another portfolio's book and restores the previous one afterwards.
+   * `fn` must be synchronous; callbacks it schedules run against whichever portfolio is current then.
+   */
+  withPortfolio<T>(portfolioId: string, fn: () => T): T {
+    const previous = this.currentPortfolioId;
+    this.currentPortfolioId = portfolioId;
+    try {
+      return fn();
+    } finally {
+      this.currentPortfolioId = previous;
+    }
+  }
+
+  getPortfolios(): Portfolio[] {
+    return this.portfolios;
+  }
+
+  private getCurrentPortfolio(): Portfolio {
+    return this.portfolios.find(p => p.id === this.currentPortfolioId)!;
+  }
+
+  getActivePortfolio(): Portfolio {
+    return this.portfolios.find(p => p.id === this.activePortfolioId)!;
+  }
+
+  setActivePortfolio(portfolioId: string) {
+    if (!this.books.has(portfolioId) || portfolioId === this.activePortfolioId) return;
+    this.activePortfolioId = portfolioId;
+    this.currentPortfolioId = portfolioId;
+    this.savePortfolios();
+    this.notifyListeners();
+  }
+
+  // New portfolios start from the default settings with their own starting deposit.
+  createPortfolio(name: string): Portfolio {
+    const portfolio: Portfolio = { id: `pf-${Date.now().toString(36)}-${this.nextIdSuffix()}`, name: name.trim() || `Portfolio ${this.portfolios.length + 1}`, createdAt: Date.now() };
+    this.portfolios.push(portfolio);
+    this.withPortfolio(portfolio.id, () => {
+      PORTFOLIO_SCOPED_KEYS.forEach(key => this.storage.removeItem(this.storageKey(key)));
+      this.loadBook();
+      this.saveSettings();
+    });
+    this.savePortfolios();
+    this.notifyListeners();
+    return portfolio;
+  }
+
+  renamePortfolio(portfolioId: string, name: string) {
+    const portfolio = this.portfolios.find(p => p.id === portfolioId);
+    if (!portfolio || !name.trim()) return;
+    portfolio.name = name.trim();
+    this.savePortfolios();
+    this.notifyListeners();
+  }
+
+  // Returns an error message, or null on success. The last portfolio cannot be deleted.
+  deletePortfolio(portfolioId: string): string | null {
+    if (!this.books.has(portfolioId)) return 'Portfolio not found.';
+    if (this.portfolios.length <= 1) return 'At least one portfolio is required.';
+    PORTFOLIO_SCOPED_KEYS.forEach(key => this.storage.removeItem(this.storageKey(key, portfolioId)));
+    this.books.delete(portfolioId);
+    this.portfolios = this.portfolios.filter(p => p.id !== portfolioId);
+    if (this.activePortfolioId === portfolioId) {
+      this.activePortfolioId = this.portfolios[0].id;
+      this.currentPortfolioId = this.activePortfolioId;
+    }
+    this.savePortfolios();
+    this.notifyListeners();
+    return null;
+  }
+
+  getPortfolioSummaries(): PortfolioSummary[] {
+    return this.portfolios.map(portfolio => this.withPortfolio(portfolio.id, () => {
+      const closed = this.trades.filter(t => t.status === 'closed');
+      return {
+        portfolio,
+        settings: this.settings,
+        account: this.getAccountSummary(),
+        equityCurve: this.getEquityCurve(),
+        openPositions: this.trades.length - closed.length,
+        closedTrades: closed.length,
+        winRate: closed.length > 0 ? (closed.filter(t => (t.pnl ?? 0) > 0).length / closed.length) * 100 : 0,
+      };
+    }));
+  }
+
+  // Looks a trade up in every portfolio, for callers that hold on to a trade ID across portfolio switches.
+  getTradeById(tradeId: string): Trade | undefined {
+    for (const book of this.books.values()) {
+      const trade = book.trades.find(t => t.id === tradeId);
+      if (trade) return trade;
+    }
+    return undefined;
   }
 
   subscribe(listener: () => void) {
@@ -66,11 +618,26 @@ class TradeSimulatorService {
     this.listeners.forEach(l => l());
   }
 
+  // Typed changes with their payloads, across all portfolios. Events are emitted as they happen, before
+  // the batched subscribe() callbacks run, and the trade and order payloads are the live objects.
+  getTradeEvents(): Observable<TradeEvent> {
+    return this.events.asObservable();
+  }
+
+  onTradeEvent<T extends TradeEventType>(type: T): Observable<Extract<TradeEvent, { type: T }>> {
+    return this.events.pipe(filter((event): event is Extract<TradeEvent, { type: T }> => event.type === type));
+  }
+
+  private emitEvent(payload: TradeEventPayload, timestamp = this.clock()) {
+    this.events.next({ ...payload, portfolio: this.getCurrentPortfolio(), timestamp });
+  }
+
   private loadTrades() {
     try {
-      const storedTrades = localStorage.getItem('jaxspot_trades');
+      const storedTrades = this.storage.getItem(this.storageKey(TRADES_STORAGE_KEY));
       if (storedTrades) {
         this.trades = JSON.parse(storedTrades);
+        this.freezeLegacyTrades();
       }
     } catch (error) {
       console.error("Failed to load trades from localStorage:", error);
@@ -80,21 +647,42 @@ class TradeSimulatorService {
 
   private saveTrades() {
     try {
-      localStorage.setItem('jaxspot_trades', JSON.stringify(this.trades));
+      this.storage.setItem(this.storageKey(TRADES_STORAGE_KEY), JSON.stringify(this.trades));
     } catch (error) {
       console.error("Failed to save trades to localStorage:", error);
     }
   }
 
+  // Trades saved before exits were frozen at entry get today's settings pinned to them once.
+  private freezeLegacyTrades() {
+    const needsFreeze = this.trades.filter(t => t.status === 'open' && (t.maxDurationHours === undefined || t.takeProfitPrice === undefined || t.stopLossPrice === undefined));
+    if (needsFreeze.length === 0) return;
+    needsFreeze.forEach(trade => {
+      const computed = this.calculateTakeProfitStopLoss(trade.direction, trade.entryPrice);
+      trade.takeProfitPrice ??= computed.takeProfitPrice;
+      trade.stopLossPrice ??= computed.stopLossPrice;
+      trade.maxDurationHours ??= MAX_TRADE_DURATION_HOURS[this.settings.investmentStyle];
+    });
+    this.saveTrades();
+  }
+
    private loadSettings() {
     try {
-      const storedSettings = localStorage.getItem('jaxspot_wallet_settings');
+      const storedSettings = this.storage.getItem(this.storageKey(SETTINGS_STORAGE_KEY));
       if (storedSettings) {
-        const parsedSettings = JSON.parse(storedSettings);
+        const { webhookUrl, webhookEnabled, webhookSecret, webhookMaxAttempts, ...parsedSettings } = JSON.parse(storedSettings);
         this.settings = {
             ...DEFAULT_SETTINGS,
             ...parsedSettings
         };
+        // Wallets from before multiple endpoints kept a single webhook in their settings. A URL that
+        // wouldn't pass the endpoint editor's check is dropped rather than becoming a delivery target.
+        if (webhookUrl && !isValidWebhookUrl(String(webhookUrl))) {
+          console.warn("Dropped the legacy webhook URL from the wallet settings: it isn't a valid http(s) URL.");
+        } else if (webhookUrl && webhookService.getEndpoints().length === 0) {
+          webhookService.addEndpoint({ name: 'Default', url: webhookUrl, enabled: !!webhookEnabled, secret: webhookSecret ?? '', maxAttempts: webhookMaxAttempts ?? 5 });
+        }
+        if (webhookUrl !== undefined) this.saveSettings();
       } else {
         this.settings = { ...DEFAULT_SETTINGS };
       }
@@ -106,53 +694,166 @@ class TradeSimulatorService {
 
   private saveSettings() {
     try {
-      localStorage.setItem('jaxspot_wallet_settings', JSON.stringify(this.settings));
+      this.storage.setItem(this.storageKey(SETTINGS_STORAGE_KEY), JSON.stringify(this.settings));
     } catch (error) {
       console.error("Failed to save settings to localStorage:", error);
     }
   }
-  
-  private async sendWebhook(payload: object) {
-    if (!this.settings.webhookEnabled || !this.settings.webhookUrl) {
-      return;
+
+  private loadLedger() {
+    try {
+      const storedLedger = this.storage.getItem(this.storageKey(LEDGER_STORAGE_KEY));
+      if (storedLedger) {
+        this.ledger = JSON.parse(storedLedger);
+        // Stored entry IDs end in a sequence number; new ones continue past it so they can't collide.
+        this.ledger.forEach(entry => {
+          this.idSequence = Math.max(this.idSequence, parseInt(entry.id.split('-').pop() ?? '', 36) || 0);
+        });
+        return;
+      }
+    } catch (error) {
+      console.error("Failed to load ledger from localStorage:", error);
     }
-    
+    // No ledger yet (first run, or a wallet created before the ledger existed).
+    this.rebuildLedgerFromTrades();
+  }
+
+  private saveLedger() {
     try {
-      new URL(this.settings.webhookUrl);
-    } catch (_) {
-      console.error("Webhook Error: Invalid URL provided.");
-      return;
+      this.storage.setItem(this.storageKey(LEDGER_STORAGE_KEY), JSON.stringify(this.ledger));
+    } catch (error) {
+      console.error("Failed to save ledger to localStorage:", error);
     }
+  }
 
-    console.log("Sending webhook to:", this.settings.webhookUrl);
+  private loadOrders() {
     try {
-      const response = await fetch(this.settings.webhookUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(payload)
-      });
+      const storedOrders = this.storage.getItem(this.storageKey(ORDERS_STORAGE_KEY));
+      if (storedOrders) {
+        this.orders = JSON.parse(storedOrders);
+      }
+    } catch (error) {
+      console.error("Failed to load orders from localStorage:", error);
+      this.orders = [];
+    }
+  }
 
-      if (!response.ok) {
-        console.error(`Webhook failed with status: ${response.status}`);
-      } else {
-        console.log("Webhook sent successfully.");
+  private saveOrders() {
+    try {
+      this.storage.setItem(this.storageKey(ORDERS_STORAGE_KEY), JSON.stringify(this.orders));
+    } catch (error) {
+      console.error("Failed to save orders to localStorage:", error);
+    }
+  }
+
+  private loadRiskState() {
+    try {
+      const storedState = this.storage.getItem(this.storageKey(RISK_STORAGE_KEY));
+      if (storedState) {
+        this.riskState = JSON.parse(storedState);
       }
     } catch (error) {
-      console.error("Error sending webhook:", error);
+      console.error("Failed to load risk state from localStorage:", error);
+      this.riskState = { halt: null };
     }
   }
 
-  async testWebhook(): Promise<void> {
-      const payload = {
-          type: 'test',
-          message: 'JaxSpot webhook test successful!',
-          timestamp: new Date().toISOString()
-      };
-      await this.sendWebhook(payload);
+  private saveRiskState() {
+    try {
+      this.storage.setItem(this.storageKey(RISK_STORAGE_KEY), JSON.stringify(this.riskState));
+    } catch (error) {
+      console.error("Failed to save risk state to localStorage:", error);
+    }
+  }
+
+  private loadRejections() {
+    try {
+      const storedRejections = this.storage.getItem(this.storageKey(REJECTIONS_STORAGE_KEY));
+      if (storedRejections) {
+        this.rejections = JSON.parse(storedRejections);
+      }
+    } catch (error) {
+      console.error("Failed to load rejected orders from localStorage:", error);
+      this.rejections = [];
+    }
+  }
+
+  private saveRejections() {
+    try {
+      this.storage.setItem(this.storageKey(REJECTIONS_STORAGE_KEY), JSON.stringify(this.rejections));
+    } catch (error) {
+      console.error("Failed to save rejected orders to localStorage:", error);
+    }
+  }
+
+  // Seeds the starting deposit and replays any existing trades so older wallets get a consistent ledger.
+  private rebuildLedgerFromTrades() {
+    this.ledger = [];
+    const firstTradeTimestamp = this.trades.reduce((min, t) => Math.min(min, t.openTimestamp), this.clock());
+    this.addLedgerEntry('deposit', this.settings.startingCapital, 'Starting capital', undefined, firstTradeTimestamp);
+
+    [...this.trades].sort((a, b) => a.openTimestamp - b.openTimestamp).forEach(trade => this.replayTradeInLedger(trade));
+    this.ledger.sort((a, b) => a.timestamp - b.timestamp);
+    this.saveLedger();
+  }
+
+  // Books the ledger entries for a trade that didn't go through openPosition (older wallets and imports).
+  private replayTradeInLedger(trade: Trade) {
+    const margin = trade.marginUSD ?? trade.sizeUSD;
+    const fundingPaid = trade.fundingPaid ?? 0;
+    this.addLedgerEntry('margin_reserve', -margin, `Margin reserved for ${trade.coin.symbol} ${trade.direction}`, trade.id, trade.openTimestamp);
+    if (trade.entryFee) {
+      this.addLedgerEntry('fee', -trade.entryFee, `Entry fee for ${trade.coin.symbol}`, trade.id, trade.openTimestamp);
+    }
+    if (trade.status === 'closed') {
+      const closedAt = trade.closeTimestamp ?? trade.openTimestamp;
+      this.addLedgerEntry('margin_release', margin, `Margin released for ${trade.coin.symbol}`, trade.id, closedAt);
+      this.addLedgerEntry('realized_pnl', (trade.pnl ?? 0) + fundingPaid, `Realized P/L on ${trade.coin.symbol}`, trade.id, closedAt);
+      if (fundingPaid !== 0) {
+        this.addLedgerEntry('funding', -fundingPaid, `Funding settled for ${trade.coin.symbol}`, trade.id, closedAt);
+      }
+      if (trade.exitFee) {
+        this.addLedgerEntry('fee', -trade.exitFee, `Exit fee for ${trade.coin.symbol}`, trade.id, closedAt);
+      }
+    }
+  }
+
+  private addLedgerEntry(type: LedgerEntryType, amount: number, description: string, tradeId?: string, timestamp = this.clock()) {
+    this.ledger.push({
+      // Not the ledger length: overwriting imports remove entries, so a length can come round again.
+      id: `${type}-${timestamp}-${this.nextIdSuffix()}`,
+      timestamp,
+      type,
+      amount,
+      tradeId,
+      description,
+    });
+  }
+
+  private calculateFee(notionalUSD: number, liquidity: Liquidity): number {
+    const { ratePercent } = quoteFee(this.settings.feeVenue, liquidity, this.getTrailingVolume(this.clock()), this.settings.feeRatePercent);
+    return notionalUSD * (ratePercent / 100);
   }
 
+  // Notional traded (entries, adds and exits) over the fee tier window.
+  getTrailingVolume(now = this.clock()): number {
+    const since = now - FEE_TIER_WINDOW_MS;
+    return this.trades.reduce((acc, trade) => {
+      let volume = trade.openTimestamp >= since ? trade.sizeUSD : 0;
+      (trade.partialFills ?? []).forEach(fill => { if (fill.timestamp >= since) volume += fill.sizeUSD; });
+      if (trade.status === 'closed' && (trade.closeTimestamp ?? 0) >= since) volume += trade.sizeUSD * this.getRemainingFraction(trade);
+      return acc + volume;
+    }, 0);
+  }
+
+  // Fill price of a market order quoted at `price`, and what the slippage cost.
+  private takerFill(coinId: string, side: 'buy' | 'sell', price: number, notionalUSD: number): { price: number; slippage: number } {
+    if (!this.settings.slippageEnabled) return { price, slippage: 0 };
+    const { bps } = estimateSlippage(notionalUSD, this.volumes.get(coinId));
+    const fillPrice = applySlippage(price, side, bps);
+    return { price: fillPrice, slippage: Math.abs(fillPrice - price) * (notionalUSD / price) };
+  }
+  
   getSettings(): WalletSettings {
     return this.settings;
   }
@@ -160,61 +861,547 @@ class TradeSimulatorService {
   updateSettings(newSettings: Partial<WalletSettings>) {
     this.settings = { ...this.settings, ...newSettings };
     this.saveSettings();
+    this.emitEvent({ type: 'settingsChanged', settings: this.settings, changes: newSettings });
     this.notifyListeners();
   }
 
   resetWallet() {
+    // Keep the chosen starting capital so a reset re-funds the wallet with it.
+    const { startingCapital } = this.settings;
     this.trades = [];
-    this.settings = { ...DEFAULT_SETTINGS };
+    this.orders = [];
+    this.rejections = [];
+    this.riskState = { halt: null };
+    this.settings = { ...DEFAULT_SETTINGS, startingCapital };
     this.saveTrades();
+    this.saveOrders();
+    this.saveRejections();
+    this.saveRiskState();
     this.saveSettings();
+    this.rebuildLedgerFromTrades();
+    this.emitEvent({ type: 'settingsChanged', settings: this.settings, changes: { ...this.settings } });
     this.notifyListeners();
     console.log("Simulated wallet has been reset.");
   }
 
+  deposit(amount: number) {
+    if (!isFinite(amount) || amount <= 0) {
+      console.warn(`Ignoring invalid deposit amount: ${amount}`);
+      return;
+    }
+    this.addLedgerEntry('deposit', amount, 'Manual deposit');
+    this.saveLedger();
+    this.notifyListeners();
+  }
+
+  getLedger(): LedgerEntry[] {
+    return this.ledger;
+  }
+
+  getAccountSummary(): AccountSummary {
+    const summary = this.ledger.reduce((acc, entry) => {
+      acc.availableCash += entry.amount;
+      switch (entry.type) {
+        case 'deposit': acc.totalDeposits += entry.amount; break;
+        case 'margin_reserve':
+        case 'margin_release': acc.reservedMargin -= entry.amount; break;
+        case 'realized_pnl': acc.realizedPnl += entry.amount; break;
+        case 'fee': acc.feesPaid -= entry.amount; break;
+        case 'funding': acc.fundingPaid -= entry.amount; break;
+      }
+      return acc;
+    }, { totalDeposits: 0, availableCash: 0, reservedMargin: 0, realizedPnl: 0, feesPaid: 0, fundingPaid: 0 });
+
+    const unrealizedPnl = this.trades
+      .filter(t => t.status === 'open')
+      .reduce((acc, t) => acc + (t.pnl ?? 0) - (t.realizedPnl ?? 0), 0);
+
+    return {
+      ...summary,
+      slippagePaid: this.trades.reduce((acc, t) => acc + (t.entrySlippage ?? 0) + (t.exitSlippage ?? 0), 0),
+      unrealizedPnl,
+      equity: summary.availableCash + summary.reservedMargin + unrealizedPnl,
+    };
+  }
 
-  executeTrade(coin: CryptoPrice, direction: 'buy' | 'sell') {
-    let styleMultiplier: number;
-    switch (this.settings.investmentStyle) {
-        case 'Scalping': styleMultiplier = 0.5; break;
-        case 'Swing Trading': styleMultiplier = 1.5; break;
-        default: styleMultiplier = 1.0; break;
+  // Realized equity after every ledger entry, with a final point marking open positions to market.
+  getEquityCurve(): EquityPoint[] {
+    const points: EquityPoint[] = [];
+    let realizedEquity = 0;
+    [...this.ledger].sort((a, b) => a.timestamp - b.timestamp).forEach(entry => {
+      // Reserving or releasing margin moves cash around without changing equity.
+      if (entry.type === 'margin_reserve' || entry.type === 'margin_release') return;
+      realizedEquity += entry.amount;
+      points.push({ timestamp: entry.timestamp, equity: realizedEquity });
+    });
+    points.push({ timestamp: this.clock(), equity: this.getAccountSummary().equity });
+    return points;
+  }
+
+
+  executeTrade(coin: CryptoPrice, direction: 'buy' | 'sell', options: TradeEntryOptions = {}): Trade | null {
+    const { trade } = this.openPosition(coin, direction, coin.price, options);
+    if (trade) {
+      this.saveTrades();
+      this.saveLedger();
     }
-    
-    let riskMultiplier: number;
-    switch (this.settings.riskTolerance) {
-        case 'Conservative': riskMultiplier = 0.75; break;
-        case 'Aggressive': riskMultiplier = 1.5; break;
-        default: riskMultiplier = 1.0; break;
+    this.notifyListeners(); // Rejections are logged too
+    return trade ?? null;
+  }
+
+  getRejectedOrders(): RejectedOrder[] {
+    return this.rejections;
+  }
+
+  getRiskStatus(): RiskStatus {
+    const now = this.clock();
+    const openTrades = this.trades.filter(t => t.status === 'open');
+    return {
+      halt: this.riskState.halt,
+      openPositions: openTrades.length,
+      grossExposure: this.getExposure(openTrades),
+      dailyPnl: this.getRealizedPnlSince(startOfDay(now)),
+      weeklyPnl: this.getRealizedPnlSince(startOfWeek(now)),
+    };
+  }
+
+  // Lifts a loss-limit halt. Losses booked so far no longer count towards the current day or week.
+  resetCircuitBreaker() {
+    this.riskState = { halt: null, breakerResetAt: this.clock() };
+    this.saveRiskState();
+    this.notifyListeners();
+    console.log("Circuit breaker reset; new entries are allowed again.");
+  }
+
+  private getExposure(trades: Trade[]): number {
+    return trades.reduce((acc, t) => acc + t.sizeUSD * this.getRemainingFraction(t), 0);
+  }
+
+  private getRealizedPnlSince(since: number): number {
+    const from = Math.max(since, this.riskState.breakerResetAt ?? 0);
+    return this.ledger
+      .filter(e => e.timestamp >= from && (e.type === 'realized_pnl' || e.type === 'fee' || e.type === 'funding'))
+      .reduce((acc, e) => acc + e.amount, 0);
+  }
+
+  // Trips the circuit breaker once the day's or week's realized losses reach their limit. Returns the active halt, if any.
+  private checkLossLimits(now: number): TradingHalt | null {
+    if (this.riskState.halt) return this.riskState.halt;
+    const { equity } = this.getAccountSummary();
+    const limits = [
+      { rule: 'daily_loss_limit' as const, period: 'Daily', limitPercent: this.settings.dailyLossLimitPercent, pnl: this.getRealizedPnlSince(startOfDay(now)) },
+      { rule: 'weekly_loss_limit' as const, period: 'Weekly', limitPercent: this.settings.weeklyLossLimitPercent, pnl: this.getRealizedPnlSince(startOfWeek(now)) },
+    ];
+    for (const { rule, period, limitPercent, pnl } of limits) {
+      if (limitPercent <= 0 || pnl >= 0) continue;
+      // Measured against equity at the start of the period, so the limit doesn't tighten as losses mount.
+      const lossPercent = (-pnl / (equity - pnl)) * 100;
+      if (lossPercent >= limitPercent) {
+        this.riskState.halt = {
+          rule,
+          haltedAt: now,
+          reason: `${period} loss of ${formatCurrency(-pnl)} (${lossPercent.toFixed(2)}%) reached the ${limitPercent}% limit.`,
+        };
+        this.saveRiskState();
+        console.warn(`Circuit breaker tripped: ${this.riskState.halt.reason}`);
+        return this.riskState.halt;
+      }
+    }
+    return null;
+  }
+
+  // Checks a proposed entry against the portfolio limits. Returns the rule that blocks it, or null.
+  private checkRiskLimits(coinId: string, notionalUSD: number, isNewPosition: boolean, now: number): { rule: RiskRule; reason: string } | null {
+    const halt = this.checkLossLimits(now);
+    if (halt) return { rule: halt.rule, reason: `Trading halted: ${halt.reason}` };
+
+    const { maxOpenPositions, maxAssetExposurePercent, maxGrossExposurePercent } = this.settings;
+    const openTrades = this.trades.filter(t => t.status === 'open');
+    if (isNewPosition && maxOpenPositions > 0 && openTrades.length >= maxOpenPositions) {
+      return { rule: 'max_open_positions', reason: `${openTrades.length} positions are already open (limit ${maxOpenPositions}).` };
+    }
+
+    const { equity } = this.getAccountSummary();
+    const assetExposure = this.getExposure(openTrades.filter(t => t.coin.id === coinId)) + notionalUSD;
+    const assetLimit = equity * maxAssetExposurePercent / 100;
+    if (maxAssetExposurePercent > 0 && assetExposure > assetLimit) {
+      return { rule: 'max_asset_exposure', reason: `Exposure to this asset would be ${formatCurrency(assetExposure)}, above the ${maxAssetExposurePercent}% limit of ${formatCurrency(assetLimit)}.` };
+    }
+    const grossExposure = this.getExposure(openTrades) + notionalUSD;
+    const grossLimit = equity * maxGrossExposurePercent / 100;
+    if (maxGrossExposurePercent > 0 && grossExposure > grossLimit) {
+      return { rule: 'max_gross_exposure', reason: `Gross exposure would be ${formatCurrency(grossExposure)}, above the ${maxGrossExposurePercent}% limit of ${formatCurrency(grossLimit)}.` };
+    }
+    return null;
+  }
+
+  private recordRejection(details: Omit<RejectedOrder, 'id' | 'timestamp'>, timestamp = this.clock()): RejectedOrder {
+    const rejection: RejectedOrder = { id: `rejected-${timestamp}-${Math.random().toString(36).slice(2, 8)}`, timestamp, ...details };
+    this.rejections = [rejection, ...this.rejections].slice(0, MAX_REJECTIONS_STORED);
+    this.saveRejections();
+    console.warn(`Rejected ${details.direction} entry for ${details.symbol} [${details.rule}]: ${details.reason}`);
+    return rejection;
+  }
+
+  // Closed-trade history, net of fees, used for Kelly sizing: the signal's own trades when there are enough, otherwise all trades.
+  getOutcomeStats(signalId?: string): TradeOutcomeStats {
+    const closed = this.trades.filter(t => t.status === 'closed');
+    if (signalId) {
+      const signalPnls = closed.filter(t => t.signalId === signalId).map(getNetPnl);
+      if (signalPnls.length >= MIN_KELLY_SAMPLE_SIZE) return summarizeOutcomes(signalPnls, `signal ${signalId}`);
+    }
+    return summarizeOutcomes(closed.map(getNetPnl), 'all trades');
+  }
+
+  // Opens a position at the given fill price, or logs why it was rejected. Callers are responsible for persisting and notifying.
+  // Market and stop entries are taker fills and slip from the quoted price; limit fills are maker fills at the quote.
+  private openPosition(coin: CryptoPrice, direction: 'buy' | 'sell', quotedPrice: number, options: TradeEntryOptions = {}, orderId?: string, liquidity: Liquidity = 'taker'): EntryResult {
+    const { exitPlan, signalId, notes } = options;
+    const leverage = Math.min(Math.max(options.leverage ?? this.settings.defaultLeverage, 1), this.settings.maxLeverage);
+    if (coin.volume24h) this.volumes.set(coin.id, coin.volume24h);
+    const defaults = this.calculateTakeProfitStopLoss(direction, quotedPrice);
+    const takeProfitPrice = exitPlan?.target2 ?? defaults.takeProfitPrice;
+    const stopLossPrice = exitPlan?.stopLoss ?? defaults.stopLossPrice;
+
+    const { sizingMode } = this.settings;
+    const volatility = volatilityService.getCachedStats(coin.symbol);
+    if (sizingMode === 'volatility' && !volatility) {
+      // Warm the cache so the next entry on this asset can be volatility-sized.
+      volatilityService.getStats(coin.symbol);
+    }
+    const equity = this.getAccountSummary().equity;
+    const sizing: SizingBreakdown = options.sizeUSD !== undefined
+      ? { mode: 'fixed', sizeUSD: Math.max(0, options.sizeUSD), equity, inputs: { requestedSizeUSD: options.sizeUSD }, explanation: `requested notional of ${formatCurrency(options.sizeUSD)}`, capped: false }
+      : calculatePositionSize({
+        settings: this.settings,
+        equity,
+        entryPrice: quotedPrice,
+        stopLossPrice,
+        riskTolerance: this.settings.riskTolerance,
+        investmentStyle: this.settings.investmentStyle,
+        leverage,
+        volatility,
+        outcomes: sizingMode === 'kelly' ? this.getOutcomeStats(signalId) : null,
+      });
+
+    const tradeSize = sizing.sizeUSD;
+    const openTimestamp = this.clock();
+    const reject = (rule: RiskRule, reason: string): EntryResult => ({
+      rejection: this.recordRejection({ coinId: coin.id, symbol: coin.symbol, direction, sizeUSD: tradeSize, rule, reason, signalId, orderId }, openTimestamp),
+    });
+
+    if (!(tradeSize > 0)) {
+      return reject('no_position_size', `Sizing produced no position (${sizing.explanation}).`);
+    }
+    const blocked = this.checkRiskLimits(coin.id, tradeSize, true, openTimestamp);
+    if (blocked) {
+      return reject(blocked.rule, blocked.reason);
+    }
+    const { price: fillPrice, slippage } = liquidity === 'taker'
+      ? this.takerFill(coin.id, direction, quotedPrice, tradeSize)
+      : { price: quotedPrice, slippage: 0 };
+    const entryFee = this.calculateFee(tradeSize, liquidity);
+    const marginUSD = tradeSize / leverage;
+
+    const { availableCash } = this.getAccountSummary();
+    if (marginUSD + entryFee > availableCash) {
+      return reject('insufficient_cash', `Requires ${formatCurrency(marginUSD + entryFee)} but only ${formatCurrency(availableCash)} is available.`);
     }
-    
-    const tradeSize = BASE_TRADE_SIZE_USD * styleMultiplier * riskMultiplier;
 
     const newTrade: Trade = {
-      id: `${coin.id}-${new Date().getTime()}`,
-      coin: { ...coin },
+      // Portfolios can open the same coin on the same tick, so their IDs are kept apart.
+      id: `${coin.id}-${this.clock()}-${this.nextIdSuffix()}${this.currentPortfolioId === MAIN_PORTFOLIO_ID ? '' : `-${this.currentPortfolioId}`}`,
+      coin: { ...coin, price: quotedPrice },
       direction,
-      entryPrice: coin.price,
+      entryPrice: fillPrice,
       sizeUSD: tradeSize,
-      openTimestamp: Date.now(),
+      openTimestamp,
       closeTimestamp: null,
       closePrice: null,
       pnl: 0,
       status: 'open',
+      entryFee,
+      feeVenue: this.settings.feeVenue,
+      feeTier: quoteFee(this.settings.feeVenue, liquidity, this.getTrailingVolume(openTimestamp), this.settings.feeRatePercent).tier,
+      entryLiquidity: liquidity,
+      entrySlippage: slippage,
+      maxDurationHours: MAX_TRADE_DURATION_HOURS[this.settings.investmentStyle],
+      riskTolerance: this.settings.riskTolerance,
+      investmentStyle: this.settings.investmentStyle,
+      lastPrice: quotedPrice, // Market price, so the slippage shows up as unrealized P/L
+      takeProfitPrice,
+      stopLossPrice,
+      sizing,
+      signalId,
+      leverage,
+      marginUSD,
+      maintenanceMarginPercent: this.settings.maintenanceMarginPercent,
+      fundingPaid: 0,
+      lastFundingAt: openTimestamp,
     };
-    
-    const { takeProfitPrice, stopLossPrice } = this.getTakeProfitStopLoss(newTrade);
-    newTrade.takeProfitPrice = takeProfitPrice;
-    newTrade.stopLossPrice = stopLossPrice;
+    if (notes?.trim()) newTrade.notes = notes.trim();
+    const tags = normalizeTags(options.tags ?? []);
+    if (tags.length > 0) newTrade.tags = tags;
+    if (options.pipelineRow) newTrade.pipelineRow = { ...options.pipelineRow };
+    if (options.signalEventId) newTrade.signalEventId = options.signalEventId;
+    newTrade.pnl = this.markToMarket(newTrade, quotedPrice);
+    newTrade.liquidationPrice = this.calculateLiquidationPrice(newTrade);
+    if (newTrade.liquidationPrice !== undefined) {
+      this.getFundingRate(coin.symbol); // Make sure rates are loading before the first funding tick
+    }
+
+    newTrade.exitRules = this.buildExitRules(newTrade, exitPlan);
+    newTrade.bestPrice = quotedPrice;
+    if (newTrade.exitRules.trailingStopMode === 'atr') {
+      this.resolveAtr(newTrade);
+    }
+    const leverageNote = leverage > 1 ? ` at ${leverage}x (margin ${formatCurrency(marginUSD)})` : '';
+    const slippageNote = slippage > 0 ? ` Slipped from ${formatCurrency(quotedPrice)} (${formatCurrency(slippage)}).` : '';
+    this.addHistory(newTrade, 'opened', `Opened ${direction} at ${formatCurrency(fillPrice)} with size ${formatCurrency(tradeSize)}${leverageNote} as ${liquidity} (fee ${formatCurrency(entryFee)}).${slippageNote}`, newTrade.openTimestamp);
 
     this.trades.unshift(newTrade);
-    this.saveTrades();
-    this.sendWebhook({ type: 'trade_open', trade: newTrade });
+    this.addLedgerEntry('margin_reserve', -marginUSD, `Margin reserved for ${coin.symbol} ${direction}`, newTrade.id, newTrade.openTimestamp);
+    this.addLedgerEntry('fee', -entryFee, `Entry fee for ${coin.symbol}`, newTrade.id, newTrade.openTimestamp);
+    this.emitEvent({ type: 'tradeOpened', trade: newTrade, orderId }, newTrade.openTimestamp);
+    console.log(`Executed ${direction} trade for ${coin.symbol} at $${fillPrice} with size ${formatCurrency(tradeSize)} (Sizing: ${sizing.explanation})`);
+    return { trade: newTrade };
+  }
+
+  placeOrder(coin: CryptoPrice, direction: 'buy' | 'sell', type: OrderType, triggerPrice: number, options: PlaceOrderOptions = {}): PendingOrder | null {
+    if (!isFinite(triggerPrice) || triggerPrice <= 0) {
+      console.warn(`Rejected ${type} order for ${coin.symbol}: invalid trigger price ${triggerPrice}.`);
+      return null;
+    }
+    const timeInForce = options.timeInForce ?? (options.expiresAt ? 'GTD' : 'GTC');
+    const expiresAt = timeInForce === 'GTD' ? options.expiresAt ?? null : null;
+    if (timeInForce === 'GTD' && (!expiresAt || expiresAt <= this.clock())) {
+      console.warn(`Rejected ${type} order for ${coin.symbol}: GTD orders need an expiry in the future.`);
+      return null;
+    }
+
+    const now = this.clock();
+    const order: PendingOrder = {
+      id: `order-${coin.id}-${now}-${this.nextIdSuffix()}`,
+      coin: { ...coin },
+      direction,
+      type,
+      triggerPrice,
+      timeInForce,
+      expiresAt,
+      createdAt: now,
+      status: 'pending',
+      exitPlan: options.exitPlan,
+      signalId: options.signalId,
+      leverage: options.leverage,
+      sizeUSD: options.sizeUSD,
+      notes: options.notes,
+      tags: options.tags,
+    };
+    this.orders.unshift(order);
+    this.saveOrders();
+    this.emitEvent({ type: 'orderPlaced', order }, now);
     this.notifyListeners();
-    console.log(`Executed ${direction} trade for ${coin.symbol} at $${coin.price} with size ${formatCurrency(tradeSize)} (Style: ${this.settings.investmentStyle}, Risk: ${this.settings.riskTolerance})`);
+    console.log(`Placed ${type} ${direction} order for ${coin.symbol} at ${formatCurrency(triggerPrice)} (${timeInForce}).`);
+    return order;
   }
 
+  // Queues a limit entry at the edge of a JAX idea's entry zone nearest the current price.
+  // Longs are assumed when target1 sits above the zone, shorts when it sits below.
+  placeOrderFromIdea(idea: Idea, coin: CryptoPrice): PendingOrder | null {
+    const entryLow = idea.entry_low ?? idea.entry_high;
+    const entryHigh = idea.entry_high ?? idea.entry_low;
+    if (!entryLow || !entryHigh) {
+      console.warn(`Idea for ${idea.symbol ?? coin.symbol} has no entry zone.`);
+      return null;
+    }
+    const direction: 'buy' | 'sell' = idea.target1 != null && idea.target1 < entryLow ? 'sell' : 'buy';
+    const triggerPrice = direction === 'buy' ? entryHigh : entryLow;
+    const expiresAt = idea.hold_minutes ? this.clock() + idea.hold_minutes * 60 * 1000 : null;
+    const exitPlan: ExitPlan = { stopLoss: idea.stop ?? undefined, target1: idea.target1 ?? undefined, target2: idea.target2 ?? undefined };
+    return this.placeOrder(coin, direction, 'limit', triggerPrice, {
+      timeInForce: expiresAt ? 'GTD' : 'GTC',
+      expiresAt,
+      exitPlan,
+      notes: idea.rationale?.join('\n') ?? undefined,
+      tags: ['idea', ...(idea.strategy ? [idea.strategy] : [])],
+    });
+  }
+
+  cancelOrder(orderId: string) {
+    const order = this.orders.find(o => o.id === orderId);
+    if (!order || order.status !== 'pending') return;
+    order.status = 'cancelled';
+    order.updatedAt = this.clock();
+    this.saveOrders();
+    this.notifyListeners();
+  }
+
+  amendOrder(orderId: string, changes: { triggerPrice?: number; timeInForce?: TimeInForce; expiresAt?: number | null }) {
+    const order = this.orders.find(o => o.id === orderId);
+    if (!order || order.status !== 'pending') return;
+    if (changes.triggerPrice !== undefined) {
+      if (!isFinite(changes.triggerPrice) || changes.triggerPrice <= 0) {
+        console.warn(`Ignoring invalid trigger price for order ${orderId}: ${changes.triggerPrice}`);
+        return;
+      }
+      order.triggerPrice = changes.triggerPrice;
+    }
+    if (changes.timeInForce !== undefined) order.timeInForce = changes.timeInForce;
+    if (changes.expiresAt !== undefined) order.expiresAt = changes.expiresAt;
+    if (order.timeInForce === 'GTC') order.expiresAt = null;
+    order.updatedAt = this.clock();
+    this.saveOrders();
+    this.notifyListeners();
+  }
+
+  getPendingOrders(): PendingOrder[] {
+    return this.orders.filter(o => o.status === 'pending');
+  }
+
+  getAllOrders(): PendingOrder[] {
+    return this.orders;
+  }
+
+  // Returns the fill price if the order's trigger has been crossed, otherwise null.
+  private getOrderFillPrice(order: PendingOrder, currentPrice: number, fillAtLevels: boolean): number | null {
+    const { type, direction, triggerPrice } = order;
+    if (type === 'limit') {
+      if (direction === 'buy' && currentPrice <= triggerPrice) return fillAtLevels ? triggerPrice : Math.min(currentPrice, triggerPrice);
+      if (direction === 'sell' && currentPrice >= triggerPrice) return fillAtLevels ? triggerPrice : Math.max(currentPrice, triggerPrice);
+    } else { // 'stop'
+      if (direction === 'buy' && currentPrice >= triggerPrice) return fillAtLevels ? triggerPrice : currentPrice;
+      if (direction === 'sell' && currentPrice <= triggerPrice) return fillAtLevels ? triggerPrice : currentPrice;
+    }
+    return null;
+  }
+
+  private processPendingOrders(priceMap: Map<string, number>, now: number, fillAtLevels = false): boolean {
+    let changed = false;
+    this.orders.forEach(order => {
+      if (order.status !== 'pending') return;
+
+      if (order.expiresAt !== null && now >= order.expiresAt) {
+        order.status = 'expired';
+        order.updatedAt = now;
+        changed = true;
+        return;
+      }
+
+      const currentPrice = priceMap.get(order.coin.id);
+      if (currentPrice === undefined) return;
+      const fillPrice = this.getOrderFillPrice(order, currentPrice, fillAtLevels);
+      if (fillPrice === null) return;
+
+      const { trade, rejection } = this.openPosition(order.coin, order.direction, fillPrice, { exitPlan: order.exitPlan, signalId: order.signalId, leverage: order.leverage, sizeUSD: order.sizeUSD, notes: order.notes, tags: order.tags }, order.id, order.type === 'limit' ? 'maker' : 'taker');
+      order.updatedAt = now;
+      if (trade) {
+        order.status = 'filled';
+        order.filledTradeId = trade.id;
+      } else {
+        order.status = 'rejected';
+        order.statusReason = rejection.reason;
+      }
+      changed = true;
+    });
+    return changed;
+  }
+
+  // Snapshots the exit settings onto a new trade. With scale-out enabled, the ladder closes
+  // scaleOutPercent at target 1 and the remainder at target 2; without explicit targets,
+  // target 1 sits halfway to the take-profit price and target 2 at it.
+  private buildExitRules(trade: Trade, exitPlan?: ExitPlan): ExitRules {
+    const { trailingStopMode, trailingStopValue, breakevenAfterT1, scaleOutEnabled, scaleOutPercent } = this.settings;
+    const ladder: TakeProfitLevel[] = [];
+    const takeProfitPrice = trade.takeProfitPrice ?? trade.entryPrice;
+    const target1 = exitPlan?.target1 ?? (scaleOutEnabled ? trade.entryPrice + (takeProfitPrice - trade.entryPrice) / 2 : undefined);
+    const target2 = exitPlan?.target2 ?? takeProfitPrice;
+
+    if (target1 !== undefined && (scaleOutEnabled || exitPlan?.target1 !== undefined)) {
+      const firstFraction = Math.min(Math.max(scaleOutPercent / 100, 0), 1);
+      ladder.push({ label: 'Target 1', price: target1, fraction: firstFraction, filled: false });
+      if (firstFraction < 1) {
+        ladder.push({ label: 'Target 2', price: target2, fraction: 1 - firstFraction, filled: false });
+      }
+    }
+
+    return { trailingStopMode, trailingStopValue, breakevenAfterT1, ladder };
+  }
+
+  private resolveAtr(trade: Trade) {
+    const portfolioId = this.currentPortfolioId;
+    volatilityService.getStats(trade.coin.symbol).then(stats => {
+      if (!stats || !trade.exitRules || trade.status !== 'open' || !this.books.has(portfolioId)) return;
+      trade.exitRules.atr = stats.atr;
+      this.withPortfolio(portfolioId, () => this.saveTrades());
+      this.notifyListeners();
+    });
+  }
+
+  // Ratchets the trailing stop behind the best price seen so far. Returns the stop, or undefined when inactive.
+  private updateTrailingStop(trade: Trade, currentPrice: number): number | undefined {
+    const rules = trade.exitRules;
+    if (!rules || rules.trailingStopMode === 'off') return undefined;
+
+    const isBuy = trade.direction === 'buy';
+    const previousBest = trade.bestPrice ?? trade.entryPrice;
+    trade.bestPrice = isBuy ? Math.max(previousBest, currentPrice) : Math.min(previousBest, currentPrice);
+
+    let distance: number;
+    if (rules.trailingStopMode === 'percent') {
+      distance = trade.bestPrice * (rules.trailingStopValue / 100);
+    } else {
+      if (rules.atr === undefined) {
+        // ATR is still loading, or was unavailable on reload; try again without blocking this tick.
+        if (!volatilityService.getCachedStats(trade.coin.symbol)) this.resolveAtr(trade);
+        return trade.trailingStopPrice;
+      }
+      distance = rules.atr * rules.trailingStopValue;
+    }
+
+    const candidate = isBuy ? trade.bestPrice - distance : trade.bestPrice + distance;
+    if (trade.trailingStopPrice === undefined) {
+      trade.trailingStopPrice = candidate;
+    } else {
+      trade.trailingStopPrice = isBuy ? Math.max(trade.trailingStopPrice, candidate) : Math.min(trade.trailingStopPrice, candidate);
+    }
+    return trade.trailingStopPrice;
+  }
+
+  // The stop that currently protects the trade, and which rule set it.
+  getEffectiveStop(trade: Trade): { price: number; reason: CloseReason } {
+    const { stopLossPrice } = this.getTakeProfitStopLoss(trade);
+    const isBuy = trade.direction === 'buy';
+    const tighter = (a: number, b: number) => isBuy ? Math.max(a, b) : Math.min(a, b);
+
+    let stop = { price: stopLossPrice, reason: 'Stop Loss' as CloseReason };
+    if (trade.breakevenActive && tighter(stop.price, trade.entryPrice) !== stop.price) {
+      stop = { price: trade.entryPrice, reason: 'Breakeven Stop' };
+    }
+    if (trade.trailingStopPrice !== undefined && tighter(stop.price, trade.trailingStopPrice) !== stop.price) {
+      stop = { price: trade.trailingStopPrice, reason: 'Trailing Stop' };
+    }
+    return stop;
+  }
+
+  getRemainingFraction(trade: Trade): number {
+    const closed = (trade.partialFills ?? []).reduce((acc, fill) => acc + fill.fraction, 0);
+    return Math.max(0, 1 - closed);
+  }
+
+  // Exits are frozen on the trade at entry and are the source of truth from then on.
   getTakeProfitStopLoss(trade: Trade): { takeProfitPrice: number, stopLossPrice: number } {
+    if (trade.takeProfitPrice !== undefined && trade.stopLossPrice !== undefined) {
+      return { takeProfitPrice: trade.takeProfitPrice, stopLossPrice: trade.stopLossPrice };
+    }
+    const computed = this.calculateTakeProfitStopLoss(trade.direction, trade.entryPrice);
+    return {
+      takeProfitPrice: trade.takeProfitPrice ?? computed.takeProfitPrice,
+      stopLossPrice: trade.stopLossPrice ?? computed.stopLossPrice,
+    };
+  }
+
+  // Default exits for a new position under the current risk tolerance and investment style.
+  private calculateTakeProfitStopLoss(direction: 'buy' | 'sell', entryPrice: number): { takeProfitPrice: number, stopLossPrice: number } {
     const { riskTolerance, investmentStyle } = this.settings;
 
     let takeProfitPercent: number;
@@ -235,58 +1422,125 @@ class TradeSimulatorService {
     let takeProfitPrice: number;
     let stopLossPrice: number;
 
-    if (trade.direction === 'buy') {
-      takeProfitPrice = trade.entryPrice * (1 + takeProfitPercent / 100);
-      stopLossPrice = trade.entryPrice * (1 + stopLossPercent / 100);
+    if (direction === 'buy') {
+      takeProfitPrice = entryPrice * (1 + takeProfitPercent / 100);
+      stopLossPrice = entryPrice * (1 + stopLossPercent / 100);
     } else { // 'sell'
-      takeProfitPrice = trade.entryPrice * (1 - takeProfitPercent / 100);
-      stopLossPrice = trade.entryPrice * (1 - stopLossPercent / 100);
+      takeProfitPrice = entryPrice * (1 - takeProfitPercent / 100);
+      stopLossPrice = entryPrice * (1 - stopLossPercent / 100);
     }
 
     return { takeProfitPrice, stopLossPrice };
   }
 
+  // Every portfolio trades on the same live feed, not just the active one.
   updateOpenTrades(livePrices: CryptoPrice[]) {
-    let updated = false;
     const priceMap = new Map(livePrices.map(p => [p.id, p.price]));
-    const now = Date.now();
+    livePrices.forEach(p => { if (p.volume24h) this.volumes.set(p.id, p.volume24h); });
+    const now = this.clock();
+    let updated = false;
+    this.portfolios.forEach(portfolio => {
+      if (this.withPortfolio(portfolio.id, () => this.updatePortfolioTrades(priceMap, now))) updated = true;
+    });
+    if (updated) this.notifyListeners();
+  }
+
+  /**
+   * Steps every portfolio through one OHLC bar per asset, at the current clock time. Each bar is walked as
+   * open -> first extreme -> second extreme -> close, with `rule` deciding which extreme comes first.
+   * Stops, targets and order triggers crossed inside the bar fill at their own price; only the open can gap past them.
+   */
+  replayBars(bars: Map<string, ReplayBar>, rule: AmbiguousBarRule) {
+    const now = this.clock();
+    let updated = false;
+    this.portfolios.forEach(portfolio => this.withPortfolio(portfolio.id, () => {
+      bars.forEach((bar, coinId) => {
+        this.getBarPath(coinId, bar, rule).forEach((price, index) => {
+          if (this.updatePortfolioTrades(new Map([[coinId, price]]), now, index > 0)) updated = true;
+        });
+      });
+    }));
+    if (updated) this.notifyListeners();
+  }
+
+  private getBarPath(coinId: string, bar: ReplayBar, rule: AmbiguousBarRule): number[] {
+    let lowFirst: boolean;
+    if (rule === 'nearest_first') {
+      lowFirst = bar.open - bar.low <= bar.high - bar.open;
+    } else {
+      // Trades are kept newest first, so the last match is the oldest open position.
+      const oldest = this.trades.filter(t => t.status === 'open' && t.coin.id === coinId).pop();
+      const isBuy = (oldest?.direction ?? 'buy') === 'buy';
+      lowFirst = rule === 'stop_first' ? isBuy : !isBuy;
+    }
+    return lowFirst ? [bar.open, bar.low, bar.high, bar.close] : [bar.open, bar.high, bar.low, bar.close];
+  }
+
+  // Returns whether anything in the current portfolio changed. With `fillAtLevels`, the price moved
+  // continuously from the previous tick, so exits and order triggers crossed on the way fill at their level.
+  private updatePortfolioTrades(priceMap: Map<string, number>, now: number, fillAtLevels = false): boolean {
+    // Fill queued orders first so positions they open are managed on the same tick.
+    const ordersChanged = this.processPendingOrders(priceMap, now, fillAtLevels);
+    if (ordersChanged) this.saveOrders();
+    let updated = ordersChanged;
 
     this.trades.forEach(trade => {
       if (trade.status === 'open') {
         const currentPrice = priceMap.get(trade.coin.id);
         if (currentPrice !== undefined) {
-          const priceChange = currentPrice - trade.entryPrice;
-          const positionSize = trade.sizeUSD / trade.entryPrice;
-          trade.pnl = trade.direction === 'buy' ? priceChange * positionSize : -priceChange * positionSize;
           updated = true;
+          trade.lastPrice = currentPrice;
+          const isBuy = trade.direction === 'buy';
+          const { takeProfitPrice } = this.getTakeProfitStopLoss(trade);
+          this.updateTrailingStop(trade, currentPrice);
+          this.accrueFunding(trade, now);
+          trade.liquidationPrice = this.calculateLiquidationPrice(trade);
 
-          const { takeProfitPrice, stopLossPrice } = this.getTakeProfitStopLoss(trade);
-          const maxDurationHours = MAX_TRADE_DURATION_HOURS[this.settings.investmentStyle];
-          const tradeDurationHours = (now - trade.openTimestamp) / (1000 * 60 * 60);
+          let closeReason: CloseReason | undefined;
+          let exitPrice = currentPrice;
+
+          const liquidationPrice = trade.liquidationPrice;
+          const stop = this.getEffectiveStop(trade);
+          const stopHit = isBuy ? currentPrice <= stop.price : currentPrice >= stop.price;
+          if (liquidationPrice !== undefined && (isBuy ? currentPrice <= liquidationPrice : currentPrice >= liquidationPrice)) {
+            // Moving continuously, a stop in front of the liquidation price is reached first.
+            const stopReachedFirst = fillAtLevels && stopHit && (isBuy ? stop.price >= liquidationPrice : stop.price <= liquidationPrice);
+            if (!stopReachedFirst) {
+              closeReason = 'Liquidation';
+              if (fillAtLevels) exitPrice = liquidationPrice;
+            }
+          }
 
-          let closeReason: Trade['closeReason'];
+          if (!closeReason && stopHit) {
+            closeReason = stop.reason;
+            if (fillAtLevels) exitPrice = stop.price;
+          }
 
-          if (trade.direction === 'buy') {
-            if (currentPrice >= takeProfitPrice) closeReason = 'Take Profit';
-            else if (currentPrice <= stopLossPrice) closeReason = 'Stop Loss';
-          } else { // 'sell'
-            if (currentPrice <= takeProfitPrice) closeReason = 'Take Profit';
-            else if (currentPrice >= stopLossPrice) closeReason = 'Stop Loss';
+          const ladder = trade.exitRules?.ladder ?? [];
+          if (!closeReason && ladder.length > 0) {
+            for (const level of ladder) {
+              if (level.filled || !(isBuy ? currentPrice >= level.price : currentPrice <= level.price)) continue;
+              this.fillLadderLevel(trade, level, fillAtLevels ? level.price : currentPrice, now);
+            }
+            if (this.getRemainingFraction(trade) <= 1e-9) closeReason = 'Scale Out';
+          } else if (!closeReason && (isBuy ? currentPrice >= takeProfitPrice : currentPrice <= takeProfitPrice)) {
+            closeReason = 'Take Profit';
+            if (fillAtLevels) exitPrice = takeProfitPrice;
           }
-          
+
+          const maxDurationHours = trade.maxDurationHours ?? MAX_TRADE_DURATION_HOURS[this.settings.investmentStyle];
+          const tradeDurationHours = (now - trade.openTimestamp) / (1000 * 60 * 60);
           if (!closeReason && tradeDurationHours > maxDurationHours) {
             closeReason = 'Time Limit';
           }
 
+          trade.pnl = this.markToMarket(trade, currentPrice);
+
           if (closeReason) {
-            trade.status = 'closed';
-            trade.closePrice = currentPrice;
-            trade.closeTimestamp = now;
-            trade.closeReason = closeReason;
-            trade.takeProfitPrice = takeProfitPrice;
-            trade.stopLossPrice = stopLossPrice;
+            this.closeTrade(trade, exitPrice, closeReason, now);
             console.log(`Auto-closing trade ${trade.id} for ${trade.coin.symbol}. Reason: ${closeReason}.`);
-            this.sendWebhook({ type: 'trade_close', trade });
+          } else {
+            this.emitEvent({ type: 'tradeUpdated', trade, change: 'price' }, now);
           }
         }
       }
@@ -294,15 +1548,340 @@ class TradeSimulatorService {
 
     if (updated) {
         this.saveTrades();
-        this.notifyListeners();
+        this.saveLedger();
     }
+    return updated;
+  }
+
+  // Take profits rest as limit orders and fill as maker; every other exit is a market order and slips.
+  private closeTrade(trade: Trade, quotedPrice: number, reason: CloseReason, timestamp: number) {
+    const liquidity: Liquidity = reason === 'Take Profit' ? 'maker' : 'taker';
+    let price = quotedPrice;
+    const remainingNotional = (trade.sizeUSD / trade.entryPrice) * this.getRemainingFraction(trade) * quotedPrice;
+    if (liquidity === 'taker' && remainingNotional > 0) {
+      const fill = this.takerFill(trade.coin.id, trade.direction === 'buy' ? 'sell' : 'buy', quotedPrice, remainingNotional);
+      price = fill.price;
+      trade.exitSlippage = (trade.exitSlippage ?? 0) + fill.slippage;
+    }
+    trade.status = 'closed';
+    trade.closePrice = price;
+    trade.closeTimestamp = timestamp;
+    trade.closeReason = reason;
+    this.settleClosedTrade(trade, liquidity);
+    this.addHistory(trade, 'closed', `Closed at ${formatCurrency(price)} (${reason}). Total P/L ${formatCurrency(trade.pnl)}.`, timestamp);
+    this.emitEvent({ type: 'tradeClosed', trade, reason }, timestamp);
+    this.checkLossLimits(timestamp);
+  }
+
+  // Edits and fills in between opening and closing are also the trade's update events.
+  private addHistory(trade: Trade, action: TradeHistoryAction, description: string, timestamp = this.clock(), changes?: TradeHistoryEntry['changes']) {
+    trade.history = [...(trade.history ?? []), { timestamp, action, description, changes }];
+    if (action !== 'opened' && action !== 'closed') this.emitEvent({ type: 'tradeUpdated', trade, change: action, description }, timestamp);
+  }
+
+  private findOpenTrade(tradeId: string): Trade | null {
+    const trade = this.trades.find(t => t.id === tradeId);
+    if (!trade || trade.status !== 'open') {
+      console.warn(`Trade ${tradeId} is not open.`);
+      return null;
+    }
+    return trade;
+  }
+
+  // Closes the rest of an open position at the last seen live price.
+  closeTradeManually(tradeId: string, reason: Extract<CloseReason, 'Manual Close' | 'Signal Exit'> = 'Manual Close'): boolean {
+    const trade = this.findOpenTrade(tradeId);
+    if (!trade) return false;
+    this.closeTrade(trade, trade.lastPrice ?? trade.entryPrice, reason, this.clock());
+    this.saveTrades();
+    this.saveLedger();
+    this.notifyListeners();
+    return true;
+  }
+
+  // Moves the frozen exits of an open trade. Each exit must stay on the correct side of the last price.
+  updateTradeExits(tradeId: string, exits: { takeProfitPrice?: number; stopLossPrice?: number }): string | null {
+    const trade = this.findOpenTrade(tradeId);
+    if (!trade) return 'Trade is not open.';
+    const isBuy = trade.direction === 'buy';
+    const reference = trade.lastPrice ?? trade.entryPrice;
+    const current = this.getTakeProfitStopLoss(trade);
+    const { takeProfitPrice = current.takeProfitPrice, stopLossPrice = current.stopLossPrice } = exits;
+
+    if (!(takeProfitPrice > 0) || !(stopLossPrice > 0)) return 'Prices must be positive numbers.';
+    if (isBuy ? takeProfitPrice <= reference : takeProfitPrice >= reference) {
+      return `Take profit must be ${isBuy ? 'above' : 'below'} the current price of ${formatCurrency(reference)}.`;
+    }
+    if (isBuy ? stopLossPrice >= reference : stopLossPrice <= reference) {
+      return `Stop loss must be ${isBuy ? 'below' : 'above'} the current price of ${formatCurrency(reference)}.`;
+    }
+
+    const changes: TradeHistoryEntry['changes'] = {};
+    if (takeProfitPrice !== current.takeProfitPrice) changes.takeProfitPrice = { from: current.takeProfitPrice, to: takeProfitPrice };
+    if (stopLossPrice !== current.stopLossPrice) changes.stopLossPrice = { from: current.stopLossPrice, to: stopLossPrice };
+    if (Object.keys(changes).length === 0) return null;
+
+    trade.takeProfitPrice = takeProfitPrice;
+    trade.stopLossPrice = stopLossPrice;
+    // The last ladder level tracks the take-profit price so a manual edit moves the final target too.
+    const ladder = trade.exitRules?.ladder ?? [];
+    if (changes.takeProfitPrice && ladder.length > 1 && !ladder[ladder.length - 1].filled) {
+      ladder[ladder.length - 1].price = takeProfitPrice;
+    }
+    this.addHistory(trade, 'exits_edited', `Exits edited: TP ${formatCurrency(takeProfitPrice)}, SL ${formatCurrency(stopLossPrice)}.`, this.clock(), changes);
+    this.saveTrades();
+    this.notifyListeners();
+    return null;
+  }
+
+  // Journal edits don't touch the trade's P/L, so closed trades can be annotated too.
+  updateJournal(tradeId: string, update: TradeJournalUpdate): string | null {
+    const trade = this.trades.find(t => t.id === tradeId);
+    if (!trade) return 'Trade not found.';
+    if (update.review !== undefined && update.review.trim() && trade.status !== 'closed') {
+      return 'A post-trade review can only be written once the trade has closed.';
+    }
+
+    if (update.notes !== undefined) trade.notes = update.notes.trim() || undefined;
+    if (update.tags !== undefined) {
+      const tags = normalizeTags(update.tags);
+      trade.tags = tags.length > 0 ? tags : undefined;
+    }
+    if (update.chartSnapshot !== undefined) trade.chartSnapshot = update.chartSnapshot ?? undefined;
+    if (update.review !== undefined) {
+      const review = update.review.trim();
+      if (review !== (trade.review ?? '')) trade.reviewedAt = review ? this.clock() : undefined;
+      trade.review = review || undefined;
+    }
+    this.saveTrades();
+    this.emitEvent({ type: 'tradeUpdated', trade, change: 'journal' });
+    this.notifyListeners();
+    return null;
+  }
+
+  // Every tag in use across the journal, most used first.
+  getJournalTags(): string[] {
+    const counts = new Map<string, number>();
+    this.trades.forEach(trade => (trade.tags ?? []).forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1)));
+    return [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).map(([tag]) => tag);
+  }
+
+  // Adds cash to an open position at the last seen price, averaging the entry price.
+  addToPosition(tradeId: string, amountUSD: number): string | null {
+    const trade = this.findOpenTrade(tradeId);
+    if (!trade) return 'Trade is not open.';
+    if (!isFinite(amountUSD) || amountUSD <= 0) return 'Amount must be a positive number.';
+    if ((trade.partialFills ?? []).length > 0) return 'Cannot add to a position that has already scaled out.';
+
+    const now = this.clock();
+    const reject = (rule: RiskRule, reason: string): string => {
+      this.recordRejection({ coinId: trade.coin.id, symbol: trade.coin.symbol, direction: trade.direction, sizeUSD: amountUSD, rule, reason, tradeId }, now);
+      this.notifyListeners();
+      return reason;
+    };
+    const blocked = this.checkRiskLimits(trade.coin.id, amountUSD, false, now);
+    if (blocked) return reject(blocked.rule, blocked.reason);
+
+    const { price, slippage } = this.takerFill(trade.coin.id, trade.direction, trade.lastPrice ?? trade.entryPrice, amountUSD);
+    const fee = this.calculateFee(amountUSD, 'taker');
+    const margin = amountUSD / (trade.leverage ?? 1);
+    const { availableCash } = this.getAccountSummary();
+    if (margin + fee > availableCash) {
+      return reject('insufficient_cash', `Requires ${formatCurrency(margin + fee)} but only ${formatCurrency(availableCash)} is available.`);
+    }
+
+    const previousEntry = trade.entryPrice;
+    const previousSize = trade.sizeUSD;
+    const units = previousSize / previousEntry + amountUSD / price;
+    trade.sizeUSD = previousSize + amountUSD;
+    trade.entryPrice = trade.sizeUSD / units;
+    trade.entryFee = (trade.entryFee ?? 0) + fee;
+    trade.entrySlippage = (trade.entrySlippage ?? 0) + slippage;
+    trade.marginUSD = (trade.marginUSD ?? previousSize) + margin;
+    trade.liquidationPrice = this.calculateLiquidationPrice(trade);
+    trade.pnl = this.markToMarket(trade, price);
+
+    this.addLedgerEntry('margin_reserve', -margin, `Margin reserved for ${trade.coin.symbol} add`, trade.id, now);
+    this.addLedgerEntry('fee', -fee, `Entry fee for ${trade.coin.symbol} add`, trade.id, now);
+    this.addHistory(trade, 'position_added', `Added ${formatCurrency(amountUSD)} at ${formatCurrency(price)}.`, now, {
+      sizeUSD: { from: previousSize, to: trade.sizeUSD },
+      entryPrice: { from: previousEntry, to: trade.entryPrice },
+    });
+    this.saveTrades();
+    this.saveLedger();
+    this.notifyListeners();
+    return null;
+  }
+
+  private calculatePnl(trade: Trade, price: number, fraction: number): number {
+    const units = (trade.sizeUSD / trade.entryPrice) * fraction;
+    const priceChange = price - trade.entryPrice;
+    return trade.direction === 'buy' ? priceChange * units : -priceChange * units;
+  }
+
+  // Total P/L of a trade at the given price: booked partial fills, the open remainder and funding accrued so far.
+  private markToMarket(trade: Trade, price: number): number {
+    return (trade.realizedPnl ?? 0) + this.calculatePnl(trade, price, this.getRemainingFraction(trade)) - (trade.fundingPaid ?? 0);
+  }
+
+  // Margin positions are shorts (the asset is borrowed) and longs above 1x. Unlevered longs can't be liquidated.
+  private isMarginPosition(trade: Trade): boolean {
+    return trade.direction === 'sell' || (trade.leverage ?? 1) > 1;
+  }
+
+  // The price at which the remaining margin, net of funding, falls to the maintenance requirement.
+  private calculateLiquidationPrice(trade: Trade): number | undefined {
+    if (!this.isMarginPosition(trade)) return undefined;
+    const remaining = this.getRemainingFraction(trade);
+    const notional = trade.sizeUSD * remaining;
+    if (notional <= 0) return undefined;
+    const margin = (trade.marginUSD ?? trade.sizeUSD) * remaining - (trade.fundingPaid ?? 0);
+    const maintenance = notional * ((trade.maintenanceMarginPercent ?? this.settings.maintenanceMarginPercent) / 100);
+    const adverseMove = Math.max(0, (margin - maintenance) / notional);
+    return trade.direction === 'buy' ? trade.entryPrice * (1 - adverseMove) : trade.entryPrice * (1 + adverseMove);
+  }
+
+  // Accrues funding on a margin position since its last tick at the latest coinGlass rate.
+  // Positive rates charge longs and pay shorts, as on a perpetual swap.
+  private accrueFunding(trade: Trade, now: number) {
+    if (!this.isMarginPosition(trade)) return;
+    const since = trade.lastFundingAt ?? trade.openTimestamp;
+    trade.lastFundingAt = now;
+    const ratePercent = this.getFundingRate(trade.coin.symbol);
+    if (ratePercent === undefined) return;
+    const intervals = (now - since) / (FUNDING_INTERVAL_HOURS * 60 * 60 * 1000);
+    const carry = trade.sizeUSD * this.getRemainingFraction(trade) * (ratePercent / 100) * intervals;
+    trade.fundingPaid = (trade.fundingPaid ?? 0) + (trade.direction === 'buy' ? carry : -carry);
+  }
+
+  // Latest coinGlass funding rate for a symbol, in percent per 8h. Reads are synchronous;
+  // a stale cache is refreshed in the background and picked up on a later tick.
+  getFundingRate(symbol: string): number | undefined {
+    if (Date.now() - this.fundingRatesFetchedAt > FUNDING_REFRESH_MS) {
+      this.refreshFundingRates();
+    }
+    return this.fundingRates.get(symbol.toUpperCase());
+  }
+
+  private refreshFundingRates() {
+    if (this.fundingRequest) return;
+    this.fundingRequest = fetchFundingRates()
+      .then(rates => {
+        if (rates.size > 0) this.fundingRates = rates;
+        this.fundingRatesFetchedAt = Date.now();
+      })
+      .finally(() => { this.fundingRequest = null; });
+  }
+
+  // Books one exit slice in the ledger and returns its P/L and fee.
+  private bookExit(trade: Trade, fraction: number, price: number, timestamp: number, label: string, liquidity: Liquidity): { pnl: number; fee: number } {
+    const marginUSD = (trade.marginUSD ?? trade.sizeUSD) * fraction;
+    const pnl = this.calculatePnl(trade, price, fraction);
+    const fee = this.calculateFee((trade.sizeUSD / trade.entryPrice) * fraction * price, liquidity);
+    this.addLedgerEntry('margin_release', marginUSD, `Margin released for ${trade.coin.symbol}`, trade.id, timestamp);
+    this.addLedgerEntry('realized_pnl', pnl, `Realized P/L on ${trade.coin.symbol} (${label})`, trade.id, timestamp);
+    this.addLedgerEntry('fee', -fee, `Exit fee for ${trade.coin.symbol}`, trade.id, timestamp);
+    trade.exitFee = (trade.exitFee ?? 0) + fee;
+    return { pnl, fee };
+  }
+
+  private fillLadderLevel(trade: Trade, level: TakeProfitLevel, price: number, timestamp: number) {
+    const fraction = Math.min(level.fraction, this.getRemainingFraction(trade));
+    level.filled = true;
+    if (fraction <= 0) return;
+
+    const { pnl, fee } = this.bookExit(trade, fraction, price, timestamp, level.label, 'maker');
+    trade.partialFills = [...(trade.partialFills ?? []), { label: level.label, timestamp, price, fraction, sizeUSD: trade.sizeUSD * fraction, pnl, fee }];
+    trade.realizedPnl = (trade.realizedPnl ?? 0) + pnl;
+    this.addHistory(trade, 'partial_fill', `${level.label}: closed ${(fraction * 100).toFixed(0)}% at ${formatCurrency(price)} for ${formatCurrency(pnl)}.`, timestamp);
+    if (level.label === 'Target 1' && trade.exitRules?.breakevenAfterT1) {
+      trade.breakevenActive = true;
+    }
+    console.log(`Scaled out of ${(fraction * 100).toFixed(0)}% of ${trade.coin.symbol} at ${formatCurrency(price)} (${level.label}).`);
+  }
+
+  // Books the exit of whatever is left of a closed trade: releases its margin, realizes its P/L,
+  // charges the exit fee and settles any funding accrued while it was open.
+  private settleClosedTrade(trade: Trade, liquidity: Liquidity) {
+    const closedAt = trade.closeTimestamp ?? this.clock();
+    const remaining = this.getRemainingFraction(trade);
+    const fundingPaid = trade.fundingPaid ?? 0;
+    let pnl = 0;
+    if (remaining > 0) {
+      const closePrice = trade.closePrice ?? trade.entryPrice;
+      pnl = this.bookExit(trade, remaining, closePrice, closedAt, trade.closeReason ?? 'Closed', liquidity).pnl;
+    }
+    if (fundingPaid !== 0) {
+      this.addLedgerEntry('funding', -fundingPaid, `Funding settled for ${trade.coin.symbol}`, trade.id, closedAt);
+    }
+    trade.pnl = (trade.realizedPnl ?? 0) + pnl - fundingPaid;
   }
 
   getAllTrades(): Trade[] {
       return this.trades;
   }
+
+  // Merges validated trades from an import and books their cash movements in the ledger.
+  // Duplicate IDs (against the wallet or earlier rows of the same import) follow `onDuplicate`.
+  importTrades(incoming: Trade[], onDuplicate: DuplicateTradeMode): TradeImportSummary {
+    const summary: TradeImportSummary = { added: 0, replaced: 0, skipped: 0 };
+    incoming.forEach(imported => {
+      const trade: Trade = { ...imported };
+      const existingIndex = this.trades.findIndex(t => t.id === trade.id);
+      if (existingIndex !== -1) {
+        if (onDuplicate === 'skip') {
+          summary.skipped++;
+          return;
+        }
+        if (onDuplicate === 'overwrite') {
+          this.ledger = this.ledger.filter(e => e.tradeId !== trade.id);
+          this.trades[existingIndex] = trade;
+          this.replayTradeInLedger(trade);
+          summary.replaced++;
+          return;
+        }
+        let suffix = 1;
+        while (this.trades.some(t => t.id === `${imported.id}-import-${suffix}`)) suffix++;
+        trade.id = `${imported.id}-import-${suffix}`;
+      }
+      this.trades.push(trade);
+      this.replayTradeInLedger(trade);
+      summary.added++;
+    });
+
+    this.trades.sort((a, b) => b.openTimestamp - a.openTimestamp);
+    this.ledger.sort((a, b) => a.timestamp - b.timestamp);
+    this.saveTrades();
+    this.saveLedger();
+    this.notifyListeners();
+    console.log(`Imported trades: ${summary.added} added, ${summary.replaced} replaced, ${summary.skipped} skipped.`);
+    return summary;
+  }
 }
 
+const startOfDay = (timestamp: number): number => {
+    const date = new Date(timestamp);
+    date.setHours(0, 0, 0, 0);
+    return date.getTime();
+};
+
+// Weeks start on Monday.
+const startOfWeek = (timestamp: number): number => {
+    const date = new Date(startOfDay(timestamp));
+    date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+    return date.getTime();
+};
+
+// Chart snapshots are large data URLs; keep them out of webhook bodies and the delivery log.
+const toWebhookTrade = (trade: Trade): Trade => {
+    const { chartSnapshot, ...rest } = trade;
+    return rest;
+};
+
+// Tags are stored lowercase without a leading '#', so "#Breakout" and "breakout" filter together.
+const normalizeTags = (tags: string[]): string[] =>
+    [...new Set(tags.map(tag => tag.trim().replace(/^#+/, '').toLowerCase()).filter(Boolean))];
+
 const formatCurrency = (value: number | null | undefined) => {
     if (value === null || value === undefined || !isFinite(value)) {
         return '$0.00';
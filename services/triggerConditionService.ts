@@ -0,0 +1,277 @@
+import type { CryptoPrice, NewsSentiment, GlobalLiquidity, OhlcvData } from './cryptoService';
+import type { AvailableSignal, TriggerCondition, TriggerMetric, TriggerNode, TriggerGroup } from './signalsService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_MA_PERIOD_DAYS = 20;
+export const MAX_MA_PERIOD_DAYS = 90;
+
+export const TRIGGER_METRIC_LABELS: Record<TriggerMetric, { label: string; unit: string }> = {
+    price_change_24h: { label: '24h price change', unit: '%' },
+    sentiment_score: { label: 'News sentiment', unit: '/100' },
+    volume_change_24h: { label: '24h volume change', unit: '%' },
+    btc_dominance: { label: 'BTC dominance', unit: '%' },
+    defi_tvl: { label: 'DeFi TVL', unit: '$B' },
+    funding_rate: { label: 'Funding rate', unit: '%/8h' },
+    price_vs_ma: { label: 'Price vs moving average', unit: '%' },
+};
+
+// Metrics read from one asset; the rest are market-wide and ignore the condition's source.
+const ASSET_METRICS: TriggerMetric[] = ['price_change_24h', 'volume_change_24h', 'funding_rate', 'price_vs_ma'];
+
+// Everything a trigger tree can read, as of `now`. Missing inputs leave the conditions that need them unmet.
+export interface TriggerMarketData {
+    now: number;
+    prices: Map<string, CryptoPrice>; // Keyed by upper-case symbol
+    sentiment: NewsSentiment | null;
+    liquidity: GlobalLiquidity | null;
+    fundingRates: Map<string, number>; // Percent per 8h, keyed by upper-case symbol
+    candles: (symbol: string) => OhlcvData[]; // Oldest first, up to `now`
+}
+
+export interface TriggerEvaluation {
+    node: TriggerNode;
+    met: boolean;
+    available: boolean; // Every input the node needs was present
+    description: string;
+    value?: number; // The metric's reading, for a condition
+    children?: TriggerEvaluation[];
+}
+
+export const isTriggerGroup = (node: TriggerNode): node is TriggerGroup => 'op' in node;
+
+// Every condition in a tree, in order.
+export const getTriggerConditions = (node: TriggerNode): TriggerCondition[] =>
+    isTriggerGroup(node) ? node.children.flatMap(getTriggerConditions) : [node];
+
+const isAssetMetric = (metric: TriggerMetric) => ASSET_METRICS.includes(metric);
+
+// The asset a condition reads; market-wide metrics read none, and a 'global' asset metric reads BTC.
+export const getConditionAsset = (condition: TriggerCondition, signal: Pick<AvailableSignal, 'trigger_asset' | 'affected_asset'>): string | null => {
+    if (!isAssetMetric(condition.metric)) return null;
+    if (condition.source === 'global') return 'BTC';
+    return (condition.source === 'affected_asset' ? signal.affected_asset : signal.trigger_asset).toUpperCase();
+};
+
+// Calendar days of candles a condition needs, or 0 when it reads none.
+export const getCandleLookbackDays = (condition: TriggerCondition): number => {
+    if (condition.metric === 'volume_change_24h') return 3;
+    if (condition.metric === 'price_vs_ma') return getMaPeriodDays(condition) + 1;
+    return 0;
+};
+
+const getMaPeriodDays = (condition: TriggerCondition) =>
+    Math.min(MAX_MA_PERIOD_DAYS, Math.max(1, Math.round(condition.maPeriodDays ?? DEFAULT_MA_PERIOD_DAYS)));
+
+/**
+ * USD volume of the last 24h against the 24h before it, in percent. Both windows must hold candles,
+ * or a gap in the data would read as a volume spike or collapse.
+ */
+export const computeVolumeChange24h = (candles: OhlcvData[], now: number): number | undefined => {
+    let recent = 0;
+    let previous = 0;
+    let hasRecent = false;
+    let hasPrevious = false;
+    candles.forEach(candle => {
+        const time = candle.time * 1000;
+        if (time > now) return;
+        if (time > now - DAY_MS) {
+            recent += candle.volume * candle.close;
+            hasRecent = true;
+        } else if (time > now - 2 * DAY_MS) {
+            previous += candle.volume * candle.close;
+            hasPrevious = true;
+        }
+    });
+    if (!hasRecent || !hasPrevious || previous <= 0) return undefined;
+    return ((recent - previous) / previous) * 100;
+};
+
+// Distance of `price` from the simple average of the last `periodDays` daily closes (UTC days before `now`), in percent.
+export const computePriceVsMa = (price: number, candles: OhlcvData[], periodDays: number, now: number): number | undefined => {
+    const today = new Date(now).toISOString().slice(0, 10);
+    const dailyCloses = new Map<string, number>();
+    candles.forEach(candle => {
+        const day = new Date(candle.time * 1000).toISOString().slice(0, 10);
+        if (day < today) dailyCloses.set(day, candle.close);
+    });
+    const closes = [...dailyCloses.entries()].sort(([a], [b]) => a.localeCompare(b)).slice(-periodDays).map(([, close]) => close);
+    if (closes.length < periodDays) return undefined;
+    const average = closes.reduce((acc, close) => acc + close, 0) / closes.length;
+    return average > 0 ? ((price - average) / average) * 100 : undefined;
+};
+
+export const getMetricValue = (condition: TriggerCondition, signal: Pick<AvailableSignal, 'trigger_asset' | 'affected_asset'>, data: TriggerMarketData): number | undefined => {
+    const asset = getConditionAsset(condition, signal);
+    switch (condition.metric) {
+        case 'price_change_24h':
+            return data.prices.get(asset!)?.change24h;
+        case 'sentiment_score':
+            // Sentiment score is global (0-1), threshold is 0-100 for simplicity
+            return data.sentiment ? data.sentiment.sentiment_score * 100 : undefined;
+        case 'volume_change_24h':
+            return computeVolumeChange24h(data.candles(asset!), data.now);
+        case 'btc_dominance':
+            return data.liquidity?.btc_dominance;
+        case 'defi_tvl':
+            return data.liquidity ? data.liquidity.defi_tvl / 1e9 : undefined;
+        case 'funding_rate':
+            return data.fundingRates.get(asset!);
+        case 'price_vs_ma': {
+            const coin = data.prices.get(asset!);
+            return coin ? computePriceVsMa(coin.price, data.candles(asset!), getMaPeriodDays(condition), data.now) : undefined;
+        }
+    }
+};
+
+export const describeCondition = (condition: TriggerCondition, signal: Pick<AvailableSignal, 'trigger_asset' | 'affected_asset'>): string => {
+    const { label, unit } = TRIGGER_METRIC_LABELS[condition.metric];
+    const asset = getConditionAsset(condition, signal);
+    const metric = condition.metric === 'price_vs_ma' ? `Price vs ${getMaPeriodDays(condition)}d MA` : label;
+    return `${asset ? `${asset} ` : ''}${metric} ${condition.operator === 'gt' ? '>' : '<'} ${condition.threshold}${unit}`;
+};
+
+export const describeTrigger = (node: TriggerNode, signal: Pick<AvailableSignal, 'trigger_asset' | 'affected_asset'>): string => {
+    if (!isTriggerGroup(node)) return describeCondition(node, signal);
+    if (node.op === 'not') return `NOT (${describeTrigger(node.children[0], signal)})`;
+    return node.children.map(child => isTriggerGroup(child) && child.op !== 'not' ? `(${describeTrigger(child, signal)})` : describeTrigger(child, signal)).join(` ${node.op.toUpperCase()} `);
+};
+
+/**
+ * Evaluates a trigger tree. A condition whose input is missing is unmet, and so is a NOT over it:
+ * missing data never fires a signal.
+ */
+export const evaluateTrigger = (node: TriggerNode, signal: Pick<AvailableSignal, 'trigger_asset' | 'affected_asset'>, data: TriggerMarketData): TriggerEvaluation => {
+    if (!isTriggerGroup(node)) {
+        const value = getMetricValue(node, signal, data);
+        const available = value !== undefined && isFinite(value);
+        return {
+            node,
+            met: available && (node.operator === 'gt' ? value! > node.threshold : value! < node.threshold),
+            available,
+            description: describeCondition(node, signal),
+            value: available ? value : undefined,
+        };
+    }
+
+    const children = node.children.map(child => evaluateTrigger(child, signal, data));
+    const description = describeTrigger(node, signal);
+    if (node.op === 'not') {
+        const [child] = children;
+        return { node, met: !!child && child.available && !child.met, available: !!child?.available, description, children };
+    }
+    return {
+        node,
+        met: children.length > 0 && (node.op === 'and' ? children.every(c => c.met) : children.some(c => c.met)),
+        available: node.op === 'and' ? children.every(c => c.available) : children.some(c => c.available),
+        description,
+        children,
+    };
+};
+
+const formatValue = (evaluation: TriggerEvaluation) => {
+    if (evaluation.value === undefined || isTriggerGroup(evaluation.node)) return evaluation.description;
+    return `${evaluation.description} (was ${evaluation.value.toFixed(2)}${TRIGGER_METRIC_LABELS[evaluation.node.metric].unit})`;
+};
+
+// The met branches that made the tree fire: conditions, and NOTs as a whole, reached through met groups.
+export const getFiredBranches = (evaluation: TriggerEvaluation): string[] => {
+    if (!evaluation.met) return [];
+    if (isTriggerGroup(evaluation.node) && evaluation.node.op !== 'not') {
+        return (evaluation.children ?? []).flatMap(getFiredBranches);
+    }
+    return [formatValue(evaluation)];
+};
+
+// Whether a tree is well formed: groups have children, NOT has exactly one, and thresholds are numbers.
+export const validateTrigger = (node: TriggerNode): string[] => {
+    if (!node || typeof node !== 'object') return ['Each condition must be an object.'];
+    if (!isTriggerGroup(node)) {
+        const errors: string[] = [];
+        if (!Object.hasOwn(TRIGGER_METRIC_LABELS, node.metric)) errors.push(`Unknown metric "${node.metric}".`);
+        if (node.operator !== 'gt' && node.operator !== 'lt') errors.push(`Operator of ${node.metric} must be "gt" or "lt".`);
+        if (typeof node.threshold !== 'number' || !isFinite(node.threshold)) errors.push(`Threshold of ${node.metric} must be a number.`);
+        if (!['trigger_asset', 'affected_asset', 'global'].includes(node.source)) errors.push(`Source of ${node.metric} must be "trigger_asset", "affected_asset" or "global".`);
+        return errors;
+    }
+    if (!['and', 'or', 'not'].includes(node.op)) return [`Unknown group "${node.op}".`];
+    if (!Array.isArray(node.children) || node.children.length === 0) return [`${node.op.toUpperCase()} needs at least one condition.`];
+    if (node.op === 'not' && node.children.length !== 1) return ['NOT takes exactly one condition.'];
+    return node.children.flatMap(validateTrigger);
+};
+
+// Parses a condition tree typed as JSON and validates it.
+export const parseTriggerJson = (text: string): { node: TriggerNode | null; errors: string[] } => {
+    let node: TriggerNode;
+    try {
+        node = JSON.parse(text);
+    } catch (error) {
+        return { node: null, errors: [`Not valid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+    }
+    const errors = validateTrigger(node);
+    return { node: errors.length === 0 ? node : null, errors };
+};
+
+const FALLING_WORDS = /\b(drops?|dropped|dips?|falls?|fell|declin\w*|dumps?|dumped|crash\w*|plung\w*|sell-?offs?|below|under|negative|bearish|fear)\b/;
+const CLAUSE_BREAK = /[,.;]|\b(?:and|while|but|then|with)\b/;
+
+const percentIn = (clause: string): number | undefined => {
+    const match = clause.match(/([+-]?\d+(?:\.\d+)?)\s*%/);
+    return match ? Math.abs(parseFloat(match[1])) : undefined;
+};
+
+/**
+ * A keyword rule builder for when the AI suggestion isn't available: finds the metrics a description talks about
+ * and reads each one's direction and threshold from the clause that mentions it. It's a starting point for the
+ * user to review, not a parser.
+ */
+export const buildTriggerFromDescription = (description: string): TriggerNode => {
+    const clauses = description.toLowerCase().split(CLAUSE_BREAK).map(clause => clause.trim()).filter(Boolean);
+    const clauseAbout = (pattern: RegExp) => clauses.find(clause => pattern.test(clause));
+    const conditions: TriggerCondition[] = [];
+
+    const funding = clauseAbout(/funding/);
+    if (funding !== undefined) {
+        const falling = FALLING_WORDS.test(funding);
+        conditions.push({ metric: 'funding_rate', operator: falling ? 'lt' : 'gt', threshold: falling ? 0 : 0.05, source: 'trigger_asset' });
+    }
+    const sentiment = clauseAbout(/sentiment|fear|greed/);
+    if (sentiment !== undefined) {
+        const falling = FALLING_WORDS.test(sentiment);
+        conditions.push({ metric: 'sentiment_score', operator: falling ? 'lt' : 'gt', threshold: falling ? 40 : 60, source: 'global' });
+    }
+    const dominance = clauseAbout(/dominance/);
+    if (dominance !== undefined) {
+        conditions.push({ metric: 'btc_dominance', operator: FALLING_WORDS.test(dominance) ? 'lt' : 'gt', threshold: percentIn(dominance) ?? 55, source: 'global' });
+    }
+    const tvl = clauseAbout(/\btvl\b|total value locked/);
+    if (tvl !== undefined) {
+        const billions = tvl.match(/\$\s*(\d+(?:\.\d+)?)\s*(?:b\b|bn\b|billion)/);
+        conditions.push({ metric: 'defi_tvl', operator: FALLING_WORDS.test(tvl) ? 'lt' : 'gt', threshold: billions ? parseFloat(billions[1]) : 100, source: 'global' });
+    }
+    const volume = clauseAbout(/volume/);
+    if (volume !== undefined) {
+        const falling = FALLING_WORDS.test(volume);
+        const threshold = percentIn(volume) ?? 50;
+        conditions.push({ metric: 'volume_change_24h', operator: falling ? 'lt' : 'gt', threshold: falling ? -threshold : threshold, source: 'trigger_asset' });
+    }
+    const movingAverage = clauseAbout(/moving average|\bma\b/);
+    if (movingAverage !== undefined) {
+        const period = movingAverage.match(/(\d+)\s*-?\s*(?:day|d)\b/);
+        conditions.push({
+            metric: 'price_vs_ma',
+            operator: FALLING_WORDS.test(movingAverage) ? 'lt' : 'gt',
+            threshold: 0,
+            source: 'trigger_asset',
+            maPeriodDays: period ? Math.min(MAX_MA_PERIOD_DAYS, Math.max(1, parseInt(period[1], 10))) : DEFAULT_MA_PERIOD_DAYS,
+        });
+    }
+    // Nothing recognised: a price move, read from the first clause, where descriptions usually put the trigger.
+    if (conditions.length === 0) {
+        const clause = clauses[0] ?? '';
+        const falling = FALLING_WORDS.test(clause);
+        const threshold = percentIn(clause) ?? 5;
+        conditions.push({ metric: 'price_change_24h', operator: falling ? 'lt' : 'gt', threshold: falling ? -threshold : threshold, source: 'trigger_asset' });
+    }
+    return conditions.length === 1 ? conditions[0] : { op: 'and', children: conditions };
+};
@@ -0,0 +1,94 @@
+import { fetchRawOhlcvData, OhlcvData } from './cryptoService';
+
+export interface VolatilityStats {
+    atr: number; // Average true range in price units, per candle
+    atrPercent: number; // ATR as a percentage of the last close
+    realizedVolatility: number; // Standard deviation of candle-to-candle returns, in percent
+    candleCount: number;
+    computedAt: number;
+}
+
+const ATR_PERIOD = 14;
+const LOOKBACK_DAYS = 3;
+const CACHE_DURATION_MS = 15 * 60 * 1000;
+
+/**
+ * Wilder's average true range over the last `period` candles.
+ */
+export const calculateAtr = (candles: OhlcvData[], period = ATR_PERIOD): number | null => {
+    if (candles.length < 2) return null;
+    const trueRanges: number[] = [];
+    for (let i = 1; i < candles.length; i++) {
+        const { high, low } = candles[i];
+        const prevClose = candles[i - 1].close;
+        trueRanges.push(Math.max(high - low, Math.abs(high - prevClose), Math.abs(low - prevClose)));
+    }
+    const n = Math.min(period, trueRanges.length);
+    let atr = trueRanges.slice(0, n).reduce((acc, tr) => acc + tr, 0) / n;
+    for (let i = n; i < trueRanges.length; i++) {
+        atr = (atr * (n - 1) + trueRanges[i]) / n;
+    }
+    return atr;
+};
+
+/**
+ * Standard deviation of simple close-to-close returns, in percent.
+ */
+export const calculateRealizedVolatility = (candles: OhlcvData[]): number | null => {
+    if (candles.length < 3) return null;
+    const returns: number[] = [];
+    for (let i = 1; i < candles.length; i++) {
+        const prevClose = candles[i - 1].close;
+        if (prevClose > 0) returns.push((candles[i].close - prevClose) / prevClose);
+    }
+    if (returns.length < 2) return null;
+    const mean = returns.reduce((acc, r) => acc + r, 0) / returns.length;
+    const variance = returns.reduce((acc, r) => acc + (r - mean) ** 2, 0) / (returns.length - 1);
+    return Math.sqrt(variance) * 100;
+};
+
+class VolatilityService {
+    private cache = new Map<string, VolatilityStats>();
+    private inFlight = new Map<string, Promise<VolatilityStats | null>>();
+
+    // Synchronous read of the last computed stats, for callers that can't await.
+    getCachedStats(symbol: string): VolatilityStats | null {
+        const stats = this.cache.get(symbol.toUpperCase());
+        if (!stats || Date.now() - stats.computedAt > CACHE_DURATION_MS) return null;
+        return stats;
+    }
+
+    async getStats(symbol: string): Promise<VolatilityStats | null> {
+        const key = symbol.toUpperCase();
+        const cached = this.getCachedStats(key);
+        if (cached) return cached;
+        if (this.inFlight.has(key)) return this.inFlight.get(key)!;
+
+        const request = fetchRawOhlcvData(key, LOOKBACK_DAYS)
+            .then(candles => {
+                const atr = calculateAtr(candles);
+                const realizedVolatility = calculateRealizedVolatility(candles);
+                if (atr === null || realizedVolatility === null) return null;
+                const lastClose = candles[candles.length - 1].close;
+                const stats: VolatilityStats = {
+                    atr,
+                    atrPercent: lastClose > 0 ? (atr / lastClose) * 100 : 0,
+                    realizedVolatility,
+                    candleCount: candles.length,
+                    computedAt: Date.now(),
+                };
+                this.cache.set(key, stats);
+                return stats;
+            })
+            .catch(error => {
+                console.error(`Failed to compute volatility for ${key}:`, error);
+                return null;
+            })
+            .finally(() => this.inFlight.delete(key));
+
+        this.inFlight.set(key, request);
+        return request;
+    }
+}
+
+export const volatilityService = new VolatilityService();
@@ -0,0 +1,344 @@
+import { renderWebhookBody, DEFAULT_CUSTOM_TEMPLATE, WebhookEventEnvelope } from './webhookTemplates';
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export type WebhookEventType = 'trade_open' | 'trade_close' | 'signal_activated' | 'signal_triggered' | 'experiment_completed' | 'test';
+
+export type WebhookFormat = 'json' | 'discord' | 'slack' | 'custom';
+
+// Events an endpoint can subscribe to; 'test' is only ever sent on request.
+export const WEBHOOK_EVENT_LABELS: Record<Exclude<WebhookEventType, 'test'>, string> = {
+    trade_open: 'Trade opened',
+    trade_close: 'Trade closed',
+    signal_activated: 'Signal activated',
+    signal_triggered: 'Signal triggered',
+    experiment_completed: 'Experiment completed',
+};
+
+export interface WebhookEndpoint {
+    id: string;
+    name: string;
+    url: string;
+    enabled: boolean;
+    secret: string; // Shared secret for HMAC-SHA256 signatures; empty sends unsigned
+    format: WebhookFormat;
+    template: string; // Only used by the 'custom' format
+    events: WebhookEventType[];
+    maxAttempts: number; // Attempts per event, the first try included
+}
+
+export interface WebhookAttempt {
+    timestamp: number;
+    statusCode: number | null; // null when the request never got a response
+    error?: string;
+    durationMs: number;
+    signature?: string; // The X-Jax-Signature header sent, when the endpoint had a secret
+}
+
+export interface WebhookDelivery {
+    id: string; // Also sent as the idempotency key; stays the same across retries and redeliveries
+    event: string;
+    endpointId?: string;
+    endpointName?: string;
+    url: string;
+    body: string; // Exact payload that gets signed and sent
+    contentType?: string; // Defaults to application/json
+    maxAttempts: number; // Attempts per delivery round, retries included
+    attemptLimit: number; // Total attempts allowed before the current round gives up; grows with each redelivery
+    createdAt: number;
+    status: WebhookDeliveryStatus;
+    attempts: WebhookAttempt[];
+    nextAttemptAt: number | null;
+}
+
+const DELIVERIES_STORAGE_KEY = 'jaxspot_webhook_deliveries';
+const ENDPOINTS_STORAGE_KEY = 'jaxspot_webhook_endpoints';
+const MAX_DELIVERIES_STORED = 200;
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+/**
+ * Webhook requests carry these headers. The signature is `sha256=` followed by the hex HMAC-SHA256 of
+ * `${timestamp}.${body}` keyed with the shared secret; receivers should recompute it and reject stale timestamps.
+ */
+export const WEBHOOK_HEADERS = {
+    event: 'X-Jax-Event',
+    delivery: 'X-Jax-Delivery',
+    idempotencyKey: 'Idempotency-Key',
+    timestamp: 'X-Jax-Timestamp',
+    signature: 'X-Jax-Signature',
+};
+
+export const isValidWebhookUrl = (url: string) => {
+    try {
+        const { protocol } = new URL(url);
+        return protocol === 'http:' || protocol === 'https:';
+    } catch (_) {
+        return false;
+    }
+};
+
+// Discord and Slack webhook URLs carry their token in the path, so logs only name the host.
+const hostOf = (url: string) => {
+    try {
+        return new URL(url).host;
+    } catch (_) {
+        return 'an invalid URL';
+    }
+};
+
+const toHex = (buffer: ArrayBuffer) => Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+export const signWebhookBody = async (secret: string, timestamp: number, body: string): Promise<string> => {
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+    const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`));
+    return `sha256=${toHex(signature)}`;
+};
+
+// Network errors, timeouts, rate limits and server errors are worth retrying; other client errors are not.
+const isRetryable = (statusCode: number | null) => statusCode === null || statusCode === 408 || statusCode === 429 || statusCode >= 500;
+
+const retryDelay = (attemptCount: number) => Math.min(BASE_RETRY_DELAY_MS * 2 ** (attemptCount - 1), MAX_RETRY_DELAY_MS);
+
+class WebhookService {
+    private deliveries: WebhookDelivery[] = [];
+    private endpoints: WebhookEndpoint[] = [];
+    private listeners: (() => void)[] = [];
+    private timers = new Map<string, ReturnType<typeof setTimeout>>();
+    private inFlight = new Set<string>();
+
+    constructor() {
+        this.loadEndpoints();
+        this.loadDeliveries();
+        // Pick up retries that were scheduled before the page was closed.
+        this.deliveries
+            .filter(d => d.status === 'pending')
+            .forEach(d => this.schedule(d, Math.max(0, (d.nextAttemptAt ?? 0) - Date.now())));
+    }
+
+    subscribe(listener: () => void) {
+        this.listeners.push(listener);
+    }
+
+    unsubscribe(listener: () => void) {
+        this.listeners = this.listeners.filter(l => l !== listener);
+    }
+
+    private notifyListeners() {
+        this.listeners.forEach(l => l());
+    }
+
+    private loadDeliveries() {
+        try {
+            const stored = localStorage.getItem(DELIVERIES_STORAGE_KEY);
+            if (stored) {
+                // Logs from before deliveries looked the secret up on their endpoint stored it; drop it.
+                const deliveries: (WebhookDelivery & { secret?: string })[] = JSON.parse(stored);
+                this.deliveries = deliveries.map(({ secret, ...delivery }) => delivery);
+                if (deliveries.some(d => d.secret !== undefined)) this.saveDeliveries();
+            }
+        } catch (error) {
+            console.error("Failed to load webhook deliveries from localStorage:", error);
+            this.deliveries = [];
+        }
+    }
+
+    private loadEndpoints() {
+        try {
+            const stored = localStorage.getItem(ENDPOINTS_STORAGE_KEY);
+            if (stored) {
+                this.endpoints = JSON.parse(stored);
+            }
+        } catch (error) {
+            console.error("Failed to load webhook endpoints from localStorage:", error);
+            this.endpoints = [];
+        }
+    }
+
+    private saveEndpoints() {
+        try {
+            localStorage.setItem(ENDPOINTS_STORAGE_KEY, JSON.stringify(this.endpoints));
+        } catch (error) {
+            console.error("Failed to save webhook endpoints to localStorage:", error);
+        }
+    }
+
+    private saveDeliveries() {
+        try {
+            localStorage.setItem(DELIVERIES_STORAGE_KEY, JSON.stringify(this.deliveries));
+        } catch (error) {
+            console.error("Failed to save webhook deliveries to localStorage:", error);
+        }
+    }
+
+    private schedule(delivery: WebhookDelivery, delayMs: number) {
+        clearTimeout(this.timers.get(delivery.id));
+        this.timers.set(delivery.id, setTimeout(() => {
+            this.timers.delete(delivery.id);
+            this.attempt(delivery);
+        }, delayMs));
+    }
+
+    private async attempt(delivery: WebhookDelivery): Promise<void> {
+        if (this.inFlight.has(delivery.id)) return;
+        this.inFlight.add(delivery.id);
+
+        const timestamp = Date.now();
+        const headers: Record<string, string> = {
+            'Content-Type': delivery.contentType ?? 'application/json',
+            [WEBHOOK_HEADERS.event]: delivery.event,
+            [WEBHOOK_HEADERS.delivery]: delivery.id,
+            [WEBHOOK_HEADERS.idempotencyKey]: delivery.id,
+            [WEBHOOK_HEADERS.timestamp]: String(Math.floor(timestamp / 1000)),
+        };
+        let statusCode: number | null = null;
+        let error: string | undefined;
+        // The secret is read from the endpoint on every attempt and never stored with the delivery.
+        const secret = this.endpoints.find(e => e.id === delivery.endpointId)?.secret;
+        try {
+            if (secret) {
+                headers[WEBHOOK_HEADERS.signature] = await signWebhookBody(secret, Math.floor(timestamp / 1000), delivery.body);
+            }
+            const response = await fetch(delivery.url, { method: 'POST', headers, body: delivery.body });
+            statusCode = response.status;
+            if (!response.ok) error = `HTTP ${response.status} ${response.statusText}`.trim();
+        } catch (err) {
+            error = err instanceof Error ? err.message : String(err);
+        }
+        this.inFlight.delete(delivery.id);
+
+        delivery.attempts.push({ timestamp, statusCode, error, durationMs: Date.now() - timestamp, signature: headers[WEBHOOK_HEADERS.signature] });
+        if (!error) {
+            delivery.status = 'delivered';
+            delivery.nextAttemptAt = null;
+            console.log(`Webhook ${delivery.event} delivered to ${hostOf(delivery.url)} (${statusCode}).`);
+        } else if (isRetryable(statusCode) && delivery.attempts.length < delivery.attemptLimit) {
+            const delay = retryDelay(delivery.attempts.length);
+            delivery.nextAttemptAt = Date.now() + delay;
+            this.schedule(delivery, delay);
+            console.warn(`Webhook ${delivery.event} attempt ${delivery.attempts.length} failed (${error}); retrying in ${delay / 1000}s.`);
+        } else {
+            delivery.status = 'failed';
+            delivery.nextAttemptAt = null;
+            console.error(`Webhook ${delivery.event} to ${hostOf(delivery.url)} failed after ${delivery.attempts.length} attempt(s): ${error}`);
+        }
+        this.saveDeliveries();
+        this.notifyListeners();
+    }
+
+    // Renders the event in the endpoint's format, logs it and makes the first attempt straight away.
+    // Resolves once that first attempt settles.
+    private async send(endpoint: WebhookEndpoint, type: WebhookEventType, data: Record<string, unknown>): Promise<WebhookDelivery> {
+        const createdAt = Date.now();
+        const id = `whd-${createdAt}-${Math.random().toString(36).slice(2, 10)}`;
+        const envelope: WebhookEventEnvelope = { id, type, ...data, createdAt: new Date(createdAt).toISOString() };
+        const { body, contentType } = renderWebhookBody(endpoint.format, envelope, endpoint.template);
+        const delivery: WebhookDelivery = {
+            id,
+            event: type,
+            endpointId: endpoint.id,
+            endpointName: endpoint.name,
+            url: endpoint.url,
+            body,
+            contentType,
+            maxAttempts: Math.max(1, endpoint.maxAttempts),
+            attemptLimit: Math.max(1, endpoint.maxAttempts),
+            createdAt,
+            status: 'pending',
+            attempts: [],
+            nextAttemptAt: createdAt,
+        };
+        this.deliveries.unshift(delivery);
+        this.deliveries.slice(MAX_DELIVERIES_STORED).forEach(d => clearTimeout(this.timers.get(d.id)));
+        this.deliveries = this.deliveries.slice(0, MAX_DELIVERIES_STORED);
+        this.saveDeliveries();
+        this.notifyListeners();
+        await this.attempt(delivery);
+        return delivery;
+    }
+
+    // Sends a logged event again with the same body and idempotency key, giving it a fresh set of retries.
+    async redeliver(deliveryId: string): Promise<void> {
+        const delivery = this.deliveries.find(d => d.id === deliveryId);
+        if (!delivery || this.inFlight.has(deliveryId)) return;
+        clearTimeout(this.timers.get(deliveryId));
+        this.timers.delete(deliveryId);
+        delivery.status = 'pending';
+        delivery.attemptLimit = delivery.attempts.length + delivery.maxAttempts;
+        delivery.nextAttemptAt = Date.now();
+        this.saveDeliveries();
+        this.notifyListeners();
+        await this.attempt(delivery);
+    }
+
+    // Fans an event out to every enabled endpoint subscribed to it.
+    dispatch(type: WebhookEventType, data: Record<string, unknown>): Promise<WebhookDelivery[]> {
+        const targets = this.endpoints.filter(e => e.enabled && e.url && e.events.includes(type));
+        return Promise.all(targets.map(endpoint => this.send(endpoint, type, data)));
+    }
+
+    // Sent even while the endpoint is disabled, so it can be checked before switching it on.
+    async testEndpoint(endpointId: string): Promise<WebhookDelivery | null> {
+        const endpoint = this.endpoints.find(e => e.id === endpointId);
+        if (!endpoint || !isValidWebhookUrl(endpoint.url)) return null;
+        return this.send(endpoint, 'test', { message: 'JaxSpot webhook test successful!' });
+    }
+
+    getEndpoints(): WebhookEndpoint[] {
+        return this.endpoints;
+    }
+
+    addEndpoint(changes: Partial<Omit<WebhookEndpoint, 'id'>> = {}): WebhookEndpoint {
+        const endpoint: WebhookEndpoint = {
+            id: `whe-${Date.now()}`,
+            name: `Endpoint ${this.endpoints.length + 1}`,
+            url: '',
+            enabled: false,
+            secret: '',
+            format: 'json',
+            template: DEFAULT_CUSTOM_TEMPLATE,
+            events: ['trade_open', 'trade_close'],
+            maxAttempts: 5,
+            ...changes,
+        };
+        // Same rule as updateEndpoint: nothing is delivered to a URL that isn't http(s).
+        if (!isValidWebhookUrl(endpoint.url)) endpoint.enabled = false;
+        this.endpoints.push(endpoint);
+        this.saveEndpoints();
+        this.notifyListeners();
+        return endpoint;
+    }
+
+    // Returns an error message, or null when the change was saved.
+    updateEndpoint(endpointId: string, changes: Partial<Omit<WebhookEndpoint, 'id'>>): string | null {
+        const endpoint = this.endpoints.find(e => e.id === endpointId);
+        if (!endpoint) return 'Endpoint not found.';
+        const updated = { ...endpoint, ...changes };
+        if (updated.enabled && !isValidWebhookUrl(updated.url)) return 'Enter a valid http(s) URL before enabling this endpoint.';
+        Object.assign(endpoint, updated);
+        this.saveEndpoints();
+        this.notifyListeners();
+        return null;
+    }
+
+    removeEndpoint(endpointId: string) {
+        this.endpoints = this.endpoints.filter(e => e.id !== endpointId);
+        this.saveEndpoints();
+        this.notifyListeners();
+    }
+
+    getDeliveries(): WebhookDelivery[] {
+        return this.deliveries;
+    }
+
+    clearDeliveries() {
+        this.timers.forEach(timer => clearTimeout(timer));
+        this.timers.clear();
+        this.deliveries = [];
+        this.saveDeliveries();
+        this.notifyListeners();
+    }
+}
+
+export const webhookService = new WebhookService();
@@ -0,0 +1,208 @@
+import type { Trade } from './tradeSimulatorService';
+import type { SignalEvent, AvailableSignal } from './signalsService';
+import type { Experiment } from './learningService';
+import type { WebhookEventType, WebhookFormat } from './webhookService';
+
+// What every format renders from: the event metadata plus the event's data (trade, signal, experiment...).
+export interface WebhookEventEnvelope {
+    id: string;
+    type: WebhookEventType;
+    createdAt: string; // ISO 8601
+    [key: string]: unknown;
+}
+
+export interface RenderedWebhookBody {
+    body: string;
+    contentType: string;
+}
+
+export const WEBHOOK_FORMAT_LABELS: Record<WebhookFormat, string> = {
+    json: 'Plain JSON',
+    discord: 'Discord Embed',
+    slack: 'Slack Blocks',
+    custom: 'Custom Template',
+};
+
+interface EventSummary {
+    title: string;
+    description?: string;
+    color: number; // 0xRRGGBB, used for Discord embeds
+    fields: { name: string; value: string }[];
+}
+
+const COLORS = { neutral: 0xa855f7, profit: 0x22c55e, loss: 0xef4444, info: 0x3b82f6 };
+
+const formatUsd = (value: number | null | undefined) => {
+    if (value === null || value === undefined || !isFinite(value)) return 'N/A';
+    const fractionDigits = (Math.abs(value) > 0 && Math.abs(value) < 1) ? 6 : 2;
+    return value.toLocaleString('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 2, maximumFractionDigits: fractionDigits });
+};
+
+const sideLabel = (direction: 'buy' | 'sell') => direction === 'buy' ? 'LONG' : 'SHORT';
+
+const describeEvent = (event: WebhookEventEnvelope): EventSummary => {
+    switch (event.type) {
+        case 'trade_open': {
+            const trade = event.trade as Trade;
+            return {
+                title: `Opened ${trade.coin.symbol} ${sideLabel(trade.direction)}`,
+                description: trade.notes,
+                color: COLORS.info,
+                fields: [
+                    { name: 'Entry', value: formatUsd(trade.entryPrice) },
+                    { name: 'Size', value: `${formatUsd(trade.sizeUSD)}${(trade.leverage ?? 1) > 1 ? ` @ ${trade.leverage}x` : ''}` },
+                    { name: 'Take Profit', value: formatUsd(trade.takeProfitPrice) },
+                    { name: 'Stop Loss', value: formatUsd(trade.stopLossPrice) },
+                    ...(trade.signalId ? [{ name: 'Signal', value: trade.signalId }] : []),
+                ],
+            };
+        }
+        case 'trade_close': {
+            const trade = event.trade as Trade;
+            const pnl = trade.pnl ?? 0;
+            return {
+                title: `Closed ${trade.coin.symbol} ${sideLabel(trade.direction)} (${trade.closeReason ?? 'Closed'})`,
+                color: pnl >= 0 ? COLORS.profit : COLORS.loss,
+                fields: [
+                    { name: 'Entry', value: formatUsd(trade.entryPrice) },
+                    { name: 'Exit', value: formatUsd(trade.closePrice) },
+                    { name: 'P/L', value: `${pnl >= 0 ? '+' : ''}${formatUsd(pnl)}` },
+                    { name: 'Size', value: formatUsd(trade.sizeUSD) },
+                ],
+            };
+        }
+        case 'signal_activated': {
+            const signal = event.signal as AvailableSignal;
+            return {
+                title: `Signal activated: ${signal.title}`,
+                description: signal.description,
+                color: COLORS.neutral,
+                fields: [
+                    { name: 'Trigger', value: signal.trigger_asset },
+                    { name: 'Trade', value: `${sideLabel(signal.trade_direction)} ${signal.affected_asset}` },
+                ],
+            };
+        }
+        case 'signal_triggered': {
+            const { signal, triggeredPrice, firedBranches } = event.signalEvent as SignalEvent;
+            return {
+                title: `Signal triggered: ${signal.title}`,
+                description: (event.signal as AvailableSignal | undefined)?.description ?? '',
+                color: COLORS.neutral,
+                fields: [
+                    { name: 'Trade', value: `${sideLabel(signal.trade_direction)} ${signal.affected_asset}` },
+                    { name: 'Price', value: formatUsd(triggeredPrice) },
+                    ...(firedBranches?.length ? [{ name: 'Fired', value: firedBranches.join('\n') }] : []),
+                ],
+            };
+        }
+        case 'experiment_completed': {
+            const experiment = event.experiment as Experiment;
+            const pnl = experiment.result?.pnl ?? null;
+            return {
+                title: `Experiment completed: ${experiment.title}`,
+                description: experiment.description,
+                color: pnl === null ? COLORS.neutral : pnl >= 0 ? COLORS.profit : COLORS.loss,
+                fields: [
+                    { name: 'Trade', value: `${sideLabel(experiment.trade_direction)} ${experiment.affected_asset}` },
+                    { name: 'P/L', value: formatUsd(pnl) },
+                ],
+            };
+        }
+        default:
+            return { title: 'JaxSpot webhook test', description: String(event.message ?? 'Test event'), color: COLORS.neutral, fields: [] };
+    }
+};
+
+const toDiscord = (event: WebhookEventEnvelope) => {
+    const summary = describeEvent(event);
+    return {
+        username: 'JaxSpot',
+        embeds: [{
+            title: summary.title,
+            description: summary.description,
+            color: summary.color,
+            fields: summary.fields.map(f => ({ ...f, inline: true })),
+            timestamp: event.createdAt,
+            footer: { text: `${event.type} · ${event.id}` },
+        }],
+    };
+};
+
+const toSlack = (event: WebhookEventEnvelope) => {
+    const summary = describeEvent(event);
+    const blocks: object[] = [{ type: 'header', text: { type: 'plain_text', text: summary.title } }];
+    if (summary.description) {
+        blocks.push({ type: 'section', text: { type: 'mrkdwn', text: summary.description } });
+    }
+    if (summary.fields.length > 0) {
+        // Slack allows at most 10 fields per section.
+        blocks.push({ type: 'section', fields: summary.fields.slice(0, 10).map(f => ({ type: 'mrkdwn', text: `*${f.name}*\n${f.value}` })) });
+    }
+    blocks.push({ type: 'context', elements: [{ type: 'mrkdwn', text: `${event.type} · ${event.id}` }] });
+    return { text: summary.title, blocks };
+};
+
+const resolvePath = (source: unknown, path: string): unknown =>
+    path.split('.').reduce<unknown>((value, key) => (value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined), source);
+
+/**
+ * Replaces `{{path.to.value}}` placeholders with values from the event, e.g. `{{trade.coin.symbol}}` or `{{type}}`.
+ * Missing values render as empty strings and objects as JSON. Templates that look like JSON get their values
+ * escaped for use inside JSON strings.
+ */
+export const renderTemplate = (template: string, event: WebhookEventEnvelope): string => {
+    const trimmed = template.trim();
+    const isJson = trimmed.startsWith('{') || trimmed.startsWith('[');
+    return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, path: string) => {
+        const value = resolvePath(event, path);
+        if (value === undefined || value === null) return '';
+        const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+        return isJson ? JSON.stringify(text).slice(1, -1) : text;
+    });
+};
+
+export const renderWebhookBody = (format: WebhookFormat, event: WebhookEventEnvelope, template = ''): RenderedWebhookBody => {
+    switch (format) {
+        case 'discord':
+            return { body: JSON.stringify(toDiscord(event)), contentType: 'application/json' };
+        case 'slack':
+            return { body: JSON.stringify(toSlack(event)), contentType: 'application/json' };
+        case 'custom': {
+            const body = renderTemplate(template, event);
+            let contentType = 'text/plain';
+            try {
+                JSON.parse(body);
+                contentType = 'application/json';
+            } catch (_) {
+                // Not JSON; send as text.
+            }
+            return { body, contentType };
+        }
+        default:
+            return { body: JSON.stringify(event), contentType: 'application/json' };
+    }
+};
+
+export const DEFAULT_CUSTOM_TEMPLATE = '{"content": "{{type}}: {{trade.coin.symbol}} {{trade.direction}} at {{trade.entryPrice}} (P/L {{trade.pnl}})"}';
+
+// Used to preview templates in settings.
+export const SAMPLE_WEBHOOK_EVENT: WebhookEventEnvelope = {
+    id: 'whd-sample',
+    type: 'trade_close',
+    createdAt: new Date(0).toISOString(),
+    trade: {
+        id: 'bitcoin-sample',
+        coin: { id: 'bitcoin', symbol: 'BTC', name: 'Bitcoin', price: 65500, change24h: 1.2 },
+        direction: 'buy',
+        entryPrice: 64000,
+        sizeUSD: 1000,
+        openTimestamp: 0,
+        closeTimestamp: 3600000,
+        closePrice: 65500,
+        pnl: 23.44,
+        status: 'closed',
+        closeReason: 'Take Profit',
+        leverage: 1,
+    } satisfies Trade,
+};